@@ -0,0 +1,85 @@
+import React from 'react';
+import { RiAlertLine, RiCloseLine } from '@remixicon/react';
+
+import { Button } from '@/components/ui/button';
+import { NumberInput } from '@/components/ui/number-input';
+import { BUDGET_LIMIT_LABELS, formatBudgetValue, isCostLimit, suggestRaisedLimit, type BudgetPolicy } from '@/lib/budgets';
+import { getBudgetRootSessionId, useBudgetStore } from '@/stores/useBudgetStore';
+import { useSessionStore } from '@/stores/useSessionStore';
+
+const POLICY_DESCRIPTIONS: Record<BudgetPolicy, string> = {
+    warn: 'The agent was allowed to keep running.',
+    pause: 'Queued messages will not be sent until you resume.',
+    abort: 'The running turn was stopped and queued messages are on hold.',
+};
+
+export const BudgetBreachBanner: React.FC = () => {
+    // Sub-agent sessions spend from their root session's budget, so show its breach there too
+    const currentSessionId = useSessionStore((state) =>
+        state.currentSessionId ? getBudgetRootSessionId(state.sessions, state.currentSessionId) : null
+    );
+    const breach = useBudgetStore((state) => (currentSessionId ? state.breaches[currentSessionId] : undefined));
+    const raiseLimit = useBudgetStore((state) => state.raiseLimit);
+    const dismissBreach = useBudgetStore((state) => state.dismissBreach);
+    const [draft, setDraft] = React.useState<{ key: string | null; value: number }>({ key: null, value: 0 });
+
+    // A typed value only sticks to the breach it was typed for; a new breach starts from a fresh suggestion
+    const breachKey = breach ? `${breach.kind}:${breach.limit}` : null;
+    const nextLimit = draft.key === breachKey ? draft.value : breach ? suggestRaisedLimit(breach) : 0;
+
+    if (!currentSessionId || !breach || breach.dismissed) {
+        return null;
+    }
+
+    const isCost = isCostLimit(breach.kind);
+    const scope = breach.projectLabel ? ` for ${breach.projectLabel} today` : '';
+    const canRaise = nextLimit > breach.value;
+
+    return (
+        <div className="chat-column pt-2">
+            <div className="flex flex-col gap-2 rounded-md border border-status-warning/20 bg-status-warning/10 px-3 py-2">
+                <div className="flex items-start gap-2">
+                    <RiAlertLine className="mt-0.5 h-4 w-4 flex-shrink-0 text-status-warning" />
+                    <div className="min-w-0 flex-1">
+                        <div className="typography-ui-label text-foreground">
+                            Budget reached: {BUDGET_LIMIT_LABELS[breach.kind]}{scope}
+                        </div>
+                        <div className="typography-meta text-muted-foreground">
+                            {formatBudgetValue(breach.kind, breach.value)} used of {formatBudgetValue(breach.kind, breach.limit)}.{' '}
+                            {POLICY_DESCRIPTIONS[breach.policy]}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => dismissBreach(currentSessionId)}
+                        className="p-0.5 text-muted-foreground hover:text-foreground"
+                        aria-label="Dismiss budget warning"
+                        title={breach.policy === 'warn' ? 'Dismiss' : 'Resume without raising the limit'}
+                    >
+                        <RiCloseLine className="h-4 w-4" />
+                    </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 pl-6">
+                    <span className="typography-meta text-muted-foreground">New limit</span>
+                    <NumberInput
+                        value={nextLimit}
+                        onValueChange={(value) => setDraft({ key: breachKey, value })}
+                        min={0}
+                        step={isCost ? 0.5 : breach.kind === 'sessionToolCalls' ? 10 : 10000}
+                        className="w-28"
+                        aria-label="New budget limit"
+                    />
+                    <Button
+                        type="button"
+                        size="sm"
+                        className="h-7"
+                        disabled={!canRaise}
+                        onClick={() => raiseLimit(currentSessionId, nextLimit)}
+                    >
+                        {breach.policy === 'warn' ? 'Raise limit' : 'Raise & resume'}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -4,6 +4,7 @@ import { useShallow } from 'zustand/react/shallow';
 import type { Message, Part } from '@opencode-ai/sdk/v2';
 
 import { ChatInput } from './ChatInput';
+import { BudgetBreachBanner } from './BudgetBreachBanner';
 import { useSessionStore } from '@/stores/useSessionStore';
 import { useUIStore } from '@/stores/useUIStore';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -18,11 +19,14 @@ import { OverlayScrollbar } from '@/components/ui/OverlayScrollbar';
 import { TimelineDialog } from './TimelineDialog';
 import type { PermissionRequest } from '@/types/permission';
 import type { QuestionRequest } from '@/types/question';
+import { SCROLL_TO_MESSAGE_EVENT, takePendingScrollToMessage } from '@/lib/sessionLinks';
 
 const EMPTY_MESSAGES: Array<{ info: Message; parts: Part[] }> = [];
 const EMPTY_PERMISSIONS: PermissionRequest[] = [];
 const EMPTY_QUESTIONS: QuestionRequest[] = [];
 const IDLE_SESSION_STATUS = { type: 'idle' as const };
+const SCROLL_TO_MESSAGE_MAX_ATTEMPTS = 20;
+const SCROLL_TO_MESSAGE_RETRY_MS = 250;
 
 const collectVisibleSessionIdsForBlockingRequests = (
     sessions: Array<{ id: string; parentID?: string }> | undefined,
@@ -375,6 +379,50 @@ export const ChatContainer: React.FC = () => {
         }
     }, [scrollRef]);
 
+    // Scroll to messages requested by deep links / copied message links
+    React.useEffect(() => {
+        if (typeof window === 'undefined') {
+            return;
+        }
+
+        let retryTimer: number | null = null;
+
+        const scrollWhenRendered = (messageId: string, attempt = 0) => {
+            if (retryTimer !== null) {
+                window.clearTimeout(retryTimer);
+                retryTimer = null;
+            }
+            const container = scrollRef.current;
+            if (container?.querySelector(`[data-message-id="${messageId}"]`)) {
+                scrollToMessage(messageId);
+                return;
+            }
+            if (attempt === 1) {
+                // The message may sit in an older, not yet rendered turn batch
+                handleRenderEarlier();
+            }
+            if (attempt < SCROLL_TO_MESSAGE_MAX_ATTEMPTS) {
+                retryTimer = window.setTimeout(() => scrollWhenRendered(messageId, attempt + 1), SCROLL_TO_MESSAGE_RETRY_MS);
+            }
+        };
+
+        const handleScrollRequest = () => {
+            const messageId = takePendingScrollToMessage();
+            if (messageId) {
+                scrollWhenRendered(messageId);
+            }
+        };
+
+        handleScrollRequest();
+        window.addEventListener(SCROLL_TO_MESSAGE_EVENT, handleScrollRequest);
+        return () => {
+            window.removeEventListener(SCROLL_TO_MESSAGE_EVENT, handleScrollRequest);
+            if (retryTimer !== null) {
+                window.clearTimeout(retryTimer);
+            }
+        };
+    }, [handleRenderEarlier, scrollRef, scrollToMessage]);
+
     React.useEffect(() => {
         if (!currentSessionId) {
             return;
@@ -533,6 +581,7 @@ export const ChatContainer: React.FC = () => {
                         </Button>
                     </div>
                 )}
+                <BudgetBreachBanner />
                 <ChatInput scrollToBottom={scrollToBottom} />
             </div>
 
@@ -15,9 +15,12 @@ import { useUIStore } from '@/stores/useUIStore';
 import { useMessageQueueStore, type QueuedMessage } from '@/stores/messageQueueStore';
 import type { AttachedFile } from '@/stores/types/sessionTypes';
 import { useInlineCommentDraftStore, type InlineCommentDraft } from '@/stores/useInlineCommentDraftStore';
+import { getComposerDraftKey, isNewSessionDraftKey, useComposerDraftStore } from '@/stores/useComposerDraftStore';
 import { appendInlineComments } from '@/lib/messages/inlineComments';
+import { formatEditorContext } from '@/lib/messages/editorContext';
 import { AttachedFilesList } from './FileAttachment';
 import { QueuedMessageChips } from './QueuedMessageChips';
+import { EditorContextChip } from './EditorContextChip';
 import { FileMentionAutocomplete, type FileMentionHandle } from './FileMentionAutocomplete';
 import { CommandAutocomplete, type CommandAutocompleteHandle } from './CommandAutocomplete';
 import { SkillAutocomplete, type SkillAutocompleteHandle } from './SkillAutocomplete';
@@ -35,6 +38,7 @@ import { useCurrentSessionActivity } from '@/hooks/useSessionActivity';
 import { toast } from '@/components/ui';
 import { useFileStore } from '@/stores/fileStore';
 import { useMessageStore } from '@/stores/messageStore';
+import { useEditorContextStore } from '@/stores/useEditorContextStore';
 import { isDesktopLocalOriginActive, isTauriShell, isVSCodeRuntime } from '@/lib/desktop';
 import { isIMECompositionEvent } from '@/lib/ime';
 import { StopIcon } from '@/components/icons/StopIcon';
@@ -55,22 +59,30 @@ interface ChatInputProps {
     scrollToBottom?: (options?: { instant?: boolean; force?: boolean }) => void;
 }
 
-const CHAT_INPUT_DRAFT_KEY = 'openchamber_chat_input_draft';
+// Single global draft used before drafts were kept per session; adopted by the first composer that loads
+const LEGACY_CHAT_INPUT_DRAFT_KEY = 'openchamber_chat_input_draft';
 
-// Helper to safely read from localStorage
-const getStoredDraft = (): string => {
+const getInitialDraftText = (draftKey: string): string => {
+    const stored = useComposerDraftStore.getState().getDraft(draftKey)?.text;
+    if (stored) {
+        return stored;
+    }
     try {
-        return localStorage.getItem(CHAT_INPUT_DRAFT_KEY) ?? '';
+        return localStorage.getItem(LEGACY_CHAT_INPUT_DRAFT_KEY) ?? '';
     } catch {
         return '';
     }
 };
 
 export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBottom }) => {
+    const currentSessionId = useSessionStore((state) => state.currentSessionId);
+    const newSessionDirectory = useSessionStore((state) => state.newSessionDraft?.directoryOverride);
+    const draftKey = getComposerDraftKey(currentSessionId, newSessionDirectory);
+
     // Track if we restored a draft on mount (for text selection)
     const initialDraftRef = React.useRef<string | null>(null);
     const [message, setMessage] = React.useState(() => {
-        const draft = getStoredDraft();
+        const draft = getInitialDraftText(draftKey);
         if (draft) {
             initialDraftRef.current = draft;
         }
@@ -99,7 +111,6 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
     const skillRef = React.useRef<SkillAutocompleteHandle>(null);
 
     const sendMessage = useSessionStore((state) => state.sendMessage);
-    const currentSessionId = useSessionStore((state) => state.currentSessionId);
     const newSessionDraftOpen = useSessionStore((state) => state.newSessionDraft?.open);
     const abortCurrentOperation = useSessionStore((state) => state.abortCurrentOperation);
     const acknowledgeSessionAbort = useSessionStore((state) => state.acknowledgeSessionAbort);
@@ -110,6 +121,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
     const addAttachedFile = useSessionStore((state) => state.addAttachedFile);
     const addServerFile = useSessionStore((state) => state.addServerFile);
     const clearAttachedFiles = useSessionStore((state) => state.clearAttachedFiles);
+    const setAttachedFiles = useSessionStore((state) => state.setAttachedFiles);
     const saveSessionAgentSelection = useSessionStore((state) => state.saveSessionAgentSelection);
     const consumePendingInputText = useSessionStore((state) => state.consumePendingInputText);
     const pendingInputText = useSessionStore((state) => state.pendingInputText);
@@ -183,43 +195,30 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
         if (hasHandledInitialDraftRef.current) return;
         hasHandledInitialDraftRef.current = true;
 
+        try {
+            localStorage.removeItem(LEGACY_CHAT_INPUT_DRAFT_KEY);
+        } catch {
+            // Ignore
+        }
+
+        const storedDraft = useComposerDraftStore.getState().getDraft(draftKey);
+        if (persistChatDraft && storedDraft) {
+            setAttachedFiles(storedDraft.attachments);
+        }
+
         const draft = initialDraftRef.current;
         if (!draft) return;
 
         if (!persistChatDraft) {
             // Setting disabled - clear the restored draft
             setMessage('');
-            try {
-                localStorage.removeItem(CHAT_INPUT_DRAFT_KEY);
-            } catch {
-                // Ignore
-            }
         } else {
             // Setting enabled - select all text
             requestAnimationFrame(() => {
                 textareaRef.current?.select();
             });
         }
-    }, [persistChatDraft]);
-
-    // Handle session switching: clear draft if persist disabled, select if enabled
-    const prevSessionIdRef = React.useRef(currentSessionId);
-    React.useEffect(() => {
-        if (prevSessionIdRef.current !== currentSessionId) {
-            prevSessionIdRef.current = currentSessionId;
-            setInputMode('normal');
-            
-            if (!persistChatDraft) {
-                // Clear draft when switching sessions if persist is disabled
-                setMessage('');
-            } else if (message) {
-                // Select text if there's any draft when switching sessions
-                requestAnimationFrame(() => {
-                    textareaRef.current?.select();
-                });
-            }
-        }
-    }, [currentSessionId, persistChatDraft, message]);
+    }, [draftKey, persistChatDraft, setAttachedFiles]);
 
     // Focus textarea when new session draft is opened
     const prevNewSessionDraftOpenRef = React.useRef(newSessionDraftOpen);
@@ -238,32 +237,71 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
         prevNewSessionDraftOpenRef.current = newSessionDraftOpen;
     }, [newSessionDraftOpen, isMobile]);
 
-    // Persist chat input draft to localStorage (only if setting enabled)
+    // Persist the composer into the draft of the session it was loaded for (only if setting enabled).
+    // Declared before the switch effect below so a session change first flushes the outgoing draft.
+    const loadedDraftKeyRef = React.useRef(draftKey);
     React.useEffect(() => {
         if (!persistChatDraft) {
-            // Clear stored draft when setting is disabled
-            try {
-                localStorage.removeItem(CHAT_INPUT_DRAFT_KEY);
-            } catch {
-                // Ignore
-            }
+            useComposerDraftStore.getState().clearDraft(loadedDraftKeyRef.current);
             return;
         }
-        try {
-            if (message) {
-                localStorage.setItem(CHAT_INPUT_DRAFT_KEY, message);
-            } else {
-                localStorage.removeItem(CHAT_INPUT_DRAFT_KEY);
+        const configState = useConfigStore.getState();
+        useComposerDraftStore.getState().saveDraft(loadedDraftKeyRef.current, {
+            text: message,
+            attachments: attachedFiles,
+            agentName: configState.currentAgentName,
+            providerId: configState.currentProviderId,
+            modelId: configState.currentModelId,
+            variant: configState.currentVariant,
+        });
+    }, [message, attachedFiles, draftKey, persistChatDraft, currentAgentName, currentProviderId, currentModelId, currentVariant]);
+
+    // Handle session and project switching: swap in the incoming draft, or clear when persistence is disabled
+    React.useEffect(() => {
+        if (loadedDraftKeyRef.current === draftKey) {
+            return;
+        }
+        loadedDraftKeyRef.current = draftKey;
+        setInputMode('normal');
+
+        if (!persistChatDraft) {
+            setMessage('');
+            return;
+        }
+
+        const draft = useComposerDraftStore.getState().getDraft(draftKey);
+        setMessage(draft?.text ?? '');
+        setAttachedFiles(draft?.attachments ?? []);
+
+        // Existing sessions already restore their own agent/model selection; a new-session draft has none
+        if (draft && isNewSessionDraftKey(draftKey)) {
+            const configState = useConfigStore.getState();
+            if (draft.agentName && configState.getVisibleAgents().some((agent) => agent.name === draft.agentName)) {
+                configState.setAgent(draft.agentName);
             }
-        } catch {
-            // Ignore localStorage errors
+            if (draft.providerId && draft.modelId) {
+                configState.setProvider(draft.providerId);
+                configState.setModel(draft.modelId);
+                configState.setCurrentVariant(draft.variant);
+            }
+        }
+
+        if (draft?.text) {
+            // Select the restored text so typing replaces it
+            requestAnimationFrame(() => {
+                textareaRef.current?.select();
+            });
         }
-    }, [message, persistChatDraft]);
+    }, [draftKey, persistChatDraft, setAttachedFiles]);
 
     // Session activity for auto-send on idle
     const { phase: sessionPhase } = useCurrentSessionActivity();
     const prevSessionPhaseRef = React.useRef(sessionPhase);
     const autoSendTriggeredRef = React.useRef(false);
+    const isQueuePaused = useMessageQueueStore(
+        (state) => Boolean(currentSessionId && state.pausedSessions[currentSessionId])
+    );
+    const prevQueuePausedRef = React.useRef({ sessionId: currentSessionId, paused: isQueuePaused });
 
     const handleTextareaPointerDownCapture = React.useCallback((event: React.PointerEvent<HTMLTextAreaElement>) => {
         if (!isMobile) {
@@ -522,6 +560,17 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
 
         if (!primaryText && additionalParts.length === 0) return;
 
+        // Attach the live VS Code editor context when the chip is enabled for this session
+        if (!queuedOnly && sessionKey) {
+            const editorContextState = useEditorContextStore.getState();
+            const editorContext = editorContextState.isAttached(sessionKey) && editorContextState.snapshot
+                ? formatEditorContext(editorContextState.snapshot)
+                : null;
+            if (editorContext) {
+                additionalParts.push({ text: editorContext, synthetic: true });
+            }
+        }
+
         // Clear queue and input
         if (currentSessionId && hasQueuedMessages) {
             clearQueue(currentSessionId);
@@ -662,7 +711,11 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
         })();
 
         // Detect transition from working to idle, but skip if aborted
-        if (wasWorking && isNowIdle && queuedMessages.length > 0 && !autoSendTriggeredRef.current && !wasRecentlyAborted) {
+        // Resuming a queue paused by a budget guardrail sends what piled up while it was paused
+        const wasResumed = prevQueuePausedRef.current.sessionId === currentSessionId && prevQueuePausedRef.current.paused && !isQueuePaused;
+        prevQueuePausedRef.current = { sessionId: currentSessionId, paused: isQueuePaused };
+
+        if ((wasWorking || wasResumed) && isNowIdle && queuedMessages.length > 0 && !autoSendTriggeredRef.current && !wasRecentlyAborted && !isQueuePaused) {
             // Prevent double-triggering
             autoSendTriggeredRef.current = true;
 
@@ -685,7 +738,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
         }
 
         prevSessionPhaseRef.current = sessionPhase;
-    }, [sessionPhase, queuedMessages.length, currentSessionId, currentProviderId, currentModelId, sessionAbortFlags]);
+    }, [sessionPhase, queuedMessages.length, currentSessionId, currentProviderId, currentModelId, sessionAbortFlags, isQueuePaused]);
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
         // Early return during IME composition to prevent interference with autocomplete.
@@ -1881,6 +1934,7 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onOpenSettings, scrollToBo
             </div>
             <div className="chat-column relative overflow-visible">
                 <AttachedFilesList />
+                <EditorContextChip sessionKey={currentSessionId ?? (newSessionDraftOpen ? 'draft' : null)} />
                 <QueuedMessageChips
                     onEditMessage={(content) => {
                         setMessage(content);
@@ -17,7 +17,9 @@ import { cn } from '@/lib/utils';
 import type { AnimationHandlers, ContentChangeReason } from '@/hooks/useChatScrollManager';
 import MessageHeader from './message/MessageHeader';
 import MessageBody from './message/MessageBody';
+import { UserMessageEditor } from './message/UserMessageEditor';
 import type { AgentMentionInfo } from './message/types';
+import type { EditedUserMessage } from '@/stores/types/sessionTypes';
 import type { StreamPhase, ToolPopupContent } from './message/types';
 import { deriveMessageRole } from './message/messageRole';
 import { filterVisibleParts } from './message/partUtils';
@@ -26,6 +28,8 @@ import { isLikelyProviderAuthFailure, PROVIDER_AUTH_FAILURE_MESSAGE } from '@/li
 import { FadeInOnReveal } from './message/FadeInOnReveal';
 import type { TurnGroupingContext } from './hooks/useTurnGrouping';
 import { copyTextToClipboard } from '@/lib/clipboard';
+import { copySessionLink } from '@/lib/sessionLinks';
+import { toast } from '@/components/ui';
 
 const ToolOutputDialog = React.lazy(() => import('./message/ToolOutputDialog'));
 
@@ -100,6 +104,12 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
             getSessionModelSelection: state.getSessionModelSelection,
             revertToMessage: state.revertToMessage,
             forkFromMessage: state.forkFromMessage,
+            editAndResendMessage: state.editAndResendMessage,
+            setCurrentSession: state.setCurrentSession,
+            isSessionBusy: (() => {
+                const sessionId = (message.info as { sessionID?: string }).sessionID;
+                return sessionId ? state.sessionStatus?.get(sessionId)?.type === 'busy' : false;
+            })(),
         }))
     );
 
@@ -111,6 +121,9 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
         getSessionModelSelection,
         revertToMessage,
         forkFromMessage,
+        editAndResendMessage,
+        setCurrentSession,
+        isSessionBusy,
     } = sessionState;
 
     const providers = useConfigStore((state) => state.providers);
@@ -729,6 +742,52 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
         forkFromMessage(sessionId, message.info.id);
     }, [sessionId, message.info.id, forkFromMessage]);
 
+    const [isEditing, setIsEditing] = React.useState(false);
+    const [isSubmittingEdit, setIsSubmittingEdit] = React.useState(false);
+
+    const handleStartEdit = React.useCallback(() => {
+        setIsEditing(true);
+    }, []);
+
+    const handleCancelEdit = React.useCallback(() => {
+        setIsEditing(false);
+    }, []);
+
+    const handleSubmitEdit = React.useCallback(async (edit: EditedUserMessage) => {
+        if (!sessionId || !message.info.id) return;
+        setIsSubmittingEdit(true);
+        try {
+            const { supersededSessionId } = await editAndResendMessage(sessionId, message.info.id, edit);
+            setIsEditing(false);
+            if (supersededSessionId) {
+                toast.success(edit.mode === 'fork' ? 'Edited message sent in a fork' : 'Edited message sent', {
+                    description: edit.mode === 'fork' ? 'The original session is unchanged' : 'The previous version was kept as a copy',
+                    action: {
+                        label: 'Open previous',
+                        onClick: () => void setCurrentSession(supersededSessionId),
+                    },
+                });
+            }
+        } catch (error) {
+            toast.error('Failed to resend message', {
+                description: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            setIsSubmittingEdit(false);
+        }
+    }, [editAndResendMessage, message.info.id, sessionId, setCurrentSession]);
+
+    const handleCopyLink = React.useCallback(() => {
+        if (!sessionId || !message.info.id) return;
+        void copySessionLink(sessionId, message.info.id).then((copied) => {
+            if (copied) {
+                toast.success('Link copied');
+            } else {
+                toast.error('Failed to copy link');
+            }
+        });
+    }, [sessionId, message.info.id]);
+
     const handleToggleTool = React.useCallback((toolId: string) => {
         setExpandedTools((prev) => {
             const next = new Set(prev);
@@ -915,7 +974,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                         displayParts.length === 0 ? null : (
                         <FadeInOnReveal>
                             <div className="flex justify-end">
-                                <div style={{ backgroundColor: 'var(--chat-user-message-bg)' }} className="max-w-[85%] rounded-2xl rounded-br-sm px-5 py-3 shadow-sm border border-primary/5">
+                                <div style={{ backgroundColor: 'var(--chat-user-message-bg)' }} className={cn('max-w-[85%] rounded-2xl rounded-br-sm px-5 py-3 shadow-sm border border-primary/5', isEditing && 'w-full')}>
+                                    {isEditing ? (
+                                        <UserMessageEditor
+                                            parts={message.parts}
+                                            agentMention={agentMention}
+                                            isSubmitting={isSubmittingEdit}
+                                            onCancel={handleCancelEdit}
+                                            onSubmit={handleSubmitEdit}
+                                        />
+                                    ) : (
                                     <MessageBody
                                         messageId={message.info.id}
                                         parts={displayParts}
@@ -942,8 +1010,11 @@ const ChatMessage: React.FC<ChatMessageProps> = ({
                                         agentMention={agentMention}
                                         onRevert={handleRevert}
                                         onFork={isUser ? handleFork : undefined}
+                                        onEdit={isUser && !isSessionBusy ? handleStartEdit : undefined}
+                                        onCopyLink={handleCopyLink}
                                         errorMessage={assistantErrorText}
                                     />
+                                    )}
                                 </div>
                             </div>
                         </FadeInOnReveal>
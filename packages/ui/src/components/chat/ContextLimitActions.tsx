@@ -0,0 +1,111 @@
+import React from 'react';
+import { RiChatNewLine, RiContractUpDownLine } from '@remixicon/react';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/components/ui';
+import { useSessionStore } from '@/stores/useSessionStore';
+import { cn } from '@/lib/utils';
+import { SessionSummaryDialog } from './SessionSummaryDialog';
+
+// Matches the warning colour of ContextUsageDisplay
+export const CONTEXT_ACTIONS_THRESHOLD = 75;
+
+interface ContextLimitActionsProps {
+    sessionId: string | null;
+    percentage: number;
+    // 'menu' only appears near the limit; 'buttons' is always shown, e.g. in the context panel
+    variant?: 'menu' | 'buttons';
+    className?: string;
+}
+
+export const ContextLimitActions: React.FC<ContextLimitActionsProps> = ({
+    sessionId,
+    percentage,
+    variant = 'menu',
+    className,
+}) => {
+    const [isSummaryOpen, setIsSummaryOpen] = React.useState(false);
+    const [isRequesting, setIsRequesting] = React.useState(false);
+    const compactSession = useSessionStore((state) => state.compactSession);
+    const isUnavailable = useSessionStore((state) => {
+        if (!sessionId) return true;
+        const compactingUntil = state.sessionCompactionUntil.get(sessionId);
+        return state.sessionStatus?.get(sessionId)?.type === 'busy'
+            || (typeof compactingUntil === 'number' && compactingUntil > Date.now());
+    });
+
+    const handleCompact = React.useCallback(async () => {
+        if (!sessionId) return;
+        setIsRequesting(true);
+        try {
+            await compactSession(sessionId);
+        } catch (error) {
+            toast.error('Failed to compact session', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+        } finally {
+            setIsRequesting(false);
+        }
+    }, [compactSession, sessionId]);
+
+    if (!sessionId || (variant === 'menu' && percentage < CONTEXT_ACTIONS_THRESHOLD)) {
+        return null;
+    }
+
+    const isDisabled = isUnavailable || isRequesting;
+    const dialog = <SessionSummaryDialog sessionId={sessionId} open={isSummaryOpen} onOpenChange={setIsSummaryOpen} />;
+
+    if (variant === 'buttons') {
+        return (
+            <div className={cn('flex flex-wrap items-center gap-2', className)}>
+                <Button type="button" variant="outline" size="sm" onClick={() => void handleCompact()} disabled={isDisabled}>
+                    <RiContractUpDownLine className="h-4 w-4" />
+                    {isRequesting ? 'Compacting…' : 'Compact now'}
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setIsSummaryOpen(true)} disabled={isDisabled}>
+                    <RiChatNewLine className="h-4 w-4" />
+                    Continue in new session
+                </Button>
+                {dialog}
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <button
+                        type="button"
+                        className={cn(
+                            'app-region-no-drag inline-flex h-7 w-7 items-center justify-center rounded-md transition-colors',
+                            'hover:bg-interactive-hover focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+                            percentage >= 90 ? 'text-status-error' : 'text-status-warning',
+                            className
+                        )}
+                        aria-label="Context is nearly full"
+                        title="Context is nearly full"
+                    >
+                        <RiContractUpDownLine className="h-4 w-4" />
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => void handleCompact()} disabled={isDisabled}>
+                        <RiContractUpDownLine className="mr-1.5 h-4 w-4" />
+                        Compact now
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsSummaryOpen(true)} disabled={isDisabled}>
+                        <RiChatNewLine className="mr-1.5 h-4 w-4" />
+                        Continue in new session with summary…
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+            {dialog}
+        </>
+    );
+};
@@ -0,0 +1,52 @@
+import React, { memo } from 'react';
+import { RiCheckLine, RiCodeSSlashLine } from '@remixicon/react';
+import { useEditorContextStore } from '@/stores/useEditorContextStore';
+import { getEditorContextLabel } from '@/lib/messages/editorContext';
+import { cn } from '@/lib/utils';
+
+interface EditorContextChipProps {
+    sessionKey: string | null;
+}
+
+export const EditorContextChip = memo(({ sessionKey }: EditorContextChipProps) => {
+    const snapshot = useEditorContextStore((state) => state.snapshot);
+    const attached = useEditorContextStore((state) => (sessionKey ? state.attachedSessions[sessionKey] === true : false));
+    const setAttached = useEditorContextStore((state) => state.setAttached);
+
+    const activeFile = snapshot?.enabled ? snapshot.activeFile : null;
+    if (!sessionKey || !activeFile) {
+        return null;
+    }
+
+    const label = getEditorContextLabel(activeFile);
+    const title = attached
+        ? `Current editor context (${activeFile.relativePath}) is sent with prompts in this session. Click to stop.`
+        : `Click to send the current editor context (${activeFile.relativePath}) with prompts in this session`;
+
+    return (
+        <div className="pb-2">
+            <button
+                type="button"
+                onClick={() => setAttached(sessionKey, !attached)}
+                className={cn(
+                    'inline-flex items-center gap-1.5 px-2.5 py-1 rounded-xl border typography-meta transition-colors',
+                    attached
+                        ? 'border-primary/50 bg-primary/10 text-foreground'
+                        : 'border-border/30 bg-muted/30 text-muted-foreground hover:text-foreground'
+                )}
+                title={title}
+                aria-pressed={attached}
+            >
+                {attached ? (
+                    <RiCheckLine className="h-3 w-3 flex-shrink-0 text-primary" />
+                ) : (
+                    <RiCodeSSlashLine className="h-3 w-3 flex-shrink-0" />
+                )}
+                <span className="flex-shrink-0">Current editor context</span>
+                <span className="truncate max-w-[200px] font-mono">{label}</span>
+            </button>
+        </div>
+    );
+});
+
+EditorContextChip.displayName = 'EditorContextChip';
@@ -1,10 +1,11 @@
 import React from 'react';
-import { RiCodeLine, RiFileImageLine, RiFileLine, RiFilePdfLine, RiRefreshLine } from '@remixicon/react';
+import { RiCodeLine, RiFileImageLine, RiFileLine, RiFilePdfLine, RiLayoutColumnLine, RiRefreshLine } from '@remixicon/react';
 import { cn, truncatePathMiddle } from '@/lib/utils';
 import { useDirectoryStore } from '@/stores/useDirectoryStore';
 import { useSessionStore } from '@/stores/useSessionStore';
 import { useFileSearchStore } from '@/stores/useFileSearchStore';
 import { useConfigStore } from '@/stores/useConfigStore';
+import { useEditorContextStore, type EditorContextFile } from '@/stores/useEditorContextStore';
 import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import type { ProjectFileSearchHit } from '@/lib/opencode/client';
 import { ScrollableOverlay } from '@/components/ui/ScrollableOverlay';
@@ -24,9 +25,12 @@ export interface FileMentionHandle {
 
 type AutocompleteTab = 'commands' | 'agents' | 'files';
 
+const OPEN_EDITORS_MENTION = 'open-editors';
+const EMPTY_OPEN_EDITORS: EditorContextFile[] = [];
+
 interface FileMentionAutocompleteProps {
   searchQuery: string;
-  onFileSelect: (file: FileInfo) => void;
+  onFileSelect: (file: Pick<FileInfo, 'name' | 'path'>) => void;
   onAgentSelect?: (agentName: string) => void;
   onClose: () => void;
   showTabs?: boolean;
@@ -64,6 +68,11 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
   const ignoreTabClickRef = React.useRef(false);
   const normalizedSearchQuery = (searchQuery ?? '').trim();
   const visibleAgents = normalizedSearchQuery.length > 0 ? agents : agents.slice(0, 2);
+  // VS Code only: `@open-editors` attaches every file open in an editor tab
+  const openEditors = useEditorContextStore((state) => (state.snapshot?.enabled ? state.snapshot.openEditors : EMPTY_OPEN_EDITORS));
+  const showOpenEditors = openEditors.length > 0 && OPEN_EDITORS_MENTION.startsWith(normalizedSearchQuery.toLowerCase());
+  const agentOffset = showOpenEditors ? 1 : 0;
+  const fileOffset = agentOffset + visibleAgents.length;
 
   const fuzzyScore = React.useCallback((query: string, candidate: string): number | null => {
     const q = query.trim().toLowerCase();
@@ -214,7 +223,7 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
     setSelectedIndex(0);
     setOverflowMap({});
     setMarqueeDurations({});
-  }, [files, visibleAgents.length]);
+  }, [files, visibleAgents.length, showOpenEditors]);
 
   React.useEffect(() => {
     itemRefs.current[selectedIndex]?.scrollIntoView({
@@ -296,6 +305,16 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
     onFileSelect(file);
   }, [addServerFile, onFileSelect]);
 
+  const handleOpenEditorsSelect = React.useCallback(async () => {
+    const names: string[] = [];
+    for (const editor of openEditors) {
+      const name = editor.relativePath.split('/').pop() || editor.relativePath;
+      await addServerFile(editor.path, name);
+      names.push(name);
+    }
+    onFileSelect({ name: names.join(' '), path: '' });
+  }, [addServerFile, onFileSelect, openEditors]);
+
   const handleAgentPick = React.useCallback((agentName: string) => {
     onAgentSelect?.(agentName);
   }, [onAgentSelect]);
@@ -307,7 +326,7 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
         return;
       }
 
-      const total = visibleAgents.length + files.length;
+      const total = fileOffset + files.length;
       if (total === 0) {
         return;
       }
@@ -324,20 +343,24 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
 
       if (key === 'Enter' || key === 'Tab') {
         const safeIndex = ((selectedIndex % total) + total) % total;
-        if (safeIndex < visibleAgents.length) {
-          const agent = visibleAgents[safeIndex];
+        if (safeIndex < agentOffset) {
+          void handleOpenEditorsSelect();
+          return;
+        }
+        if (safeIndex < fileOffset) {
+          const agent = visibleAgents[safeIndex - agentOffset];
           if (agent) {
             handleAgentPick(agent.name);
           }
           return;
         }
-        const selectedFile = files[safeIndex - visibleAgents.length];
+        const selectedFile = files[safeIndex - fileOffset];
         if (selectedFile) {
           handleFileSelect(selectedFile);
         }
       }
     }
-  }), [files, visibleAgents, selectedIndex, onClose, handleFileSelect, handleAgentPick]);
+  }), [files, visibleAgents, selectedIndex, onClose, handleFileSelect, handleAgentPick, handleOpenEditorsSelect, agentOffset, fileOffset]);
 
   const getFileIcon = (file: FileInfo) => {
     const ext = file.extension?.toLowerCase();
@@ -415,7 +438,27 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
           </div>
         ) : (
           <div className="pb-2">
-            {visibleAgents.map((agent, index) => {
+            {showOpenEditors && (
+              <div
+                ref={(el) => { itemRefs.current[0] = el; }}
+                className={cn(
+                  'flex items-start gap-2 px-3 py-1.5 cursor-pointer typography-ui-label rounded-lg',
+                  selectedIndex === 0 && 'bg-interactive-selection',
+                )}
+                onClick={() => void handleOpenEditorsSelect()}
+                onMouseEnter={() => setSelectedIndex(0)}
+              >
+                <RiLayoutColumnLine className="h-3.5 w-3.5 mt-0.5 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <div className="font-semibold truncate">@{OPEN_EDITORS_MENTION}</div>
+                  <div className="typography-meta text-muted-foreground truncate">
+                    Attach {openEditors.length} open editor{openEditors.length === 1 ? '' : 's'}
+                  </div>
+                </div>
+              </div>
+            )}
+            {visibleAgents.map((agent, agentIndex) => {
+              const index = agentOffset + agentIndex;
               const isSelected = selectedIndex === index;
               return (
                 <div
@@ -437,11 +480,11 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
                 </div>
               );
             })}
-            {visibleAgents.length > 0 && files.length > 0 && (
+            {(showOpenEditors || visibleAgents.length > 0) && files.length > 0 && (
               <div className="my-1 border-t border-border/60" />
             )}
             {files.map((file, index) => {
-              const rowIndex = visibleAgents.length + index;
+              const rowIndex = fileOffset + index;
               const relativePath = file.relativePath || file.name;
               const displayPath = truncatePathMiddle(relativePath, { maxLength: 45 });
               const isSelected = selectedIndex === rowIndex;
@@ -499,7 +542,7 @@ export const FileMentionAutocomplete = React.forwardRef<FileMentionHandle, FileM
                 Type to search more agents
               </div>
             )}
-            {files.length === 0 && visibleAgents.length === 0 && (
+            {files.length === 0 && visibleAgents.length === 0 && !showOpenEditors && (
               <div className="px-3 py-2 typography-ui-label text-muted-foreground">
                 No matches found
               </div>
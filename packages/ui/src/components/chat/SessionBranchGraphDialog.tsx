@@ -0,0 +1,367 @@
+import React from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { toast } from '@/components/ui';
+import { PierreDiffViewer } from '@/components/views/PierreDiffViewer';
+import { RiArrowLeftLine, RiArrowGoBackLine, RiDeleteBinLine, RiGitBranchLine, RiLoader4Line, RiRobot2Line } from '@remixicon/react';
+import { useSessionStore } from '@/stores/useSessionStore';
+import { useSessionLineageStore } from '@/stores/useSessionLineageStore';
+import { opencodeClient } from '@/lib/opencode/client';
+import { getLanguageFromExtension } from '@/lib/toolHelpers';
+import {
+    buildSessionLineage,
+    compareBranchDiffs,
+    flattenLineage,
+    type BranchDiffComparison,
+    type SessionLineageNode,
+} from '@/lib/sessionLineage';
+import { cn } from '@/lib/utils';
+
+interface SessionBranchGraphDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+type ComparisonState =
+    | { status: 'idle' }
+    | { status: 'loading'; leftId: string; rightId: string }
+    | { status: 'ready'; leftId: string; rightId: string; rows: BranchDiffComparison[] }
+    | { status: 'error'; message: string };
+
+const EDGE_LABELS: Record<string, string> = {
+    fork: 'Fork',
+    edit: 'Edited fork',
+    'edit-archive': 'Before edit',
+    continue: 'Continued',
+    subagent: 'Sub-agent',
+};
+
+const getEdgeLabel = (node: SessionLineageNode): string | null => {
+    if (node.edge === 'root') return null;
+    if (node.edge === 'subagent') return EDGE_LABELS.subagent;
+    return EDGE_LABELS[node.origin?.reason ?? 'fork'] ?? EDGE_LABELS.fork;
+};
+
+export const SessionBranchGraphDialog: React.FC<SessionBranchGraphDialogProps> = ({ open, onOpenChange }) => {
+    const currentSessionId = useSessionStore((state) => state.currentSessionId);
+    const sessions = useSessionStore((state) => state.sessions);
+    const setCurrentSession = useSessionStore((state) => state.setCurrentSession);
+    const deleteSession = useSessionStore((state) => state.deleteSession);
+    const getDirectoryForSession = useSessionStore((state) => state.getDirectoryForSession);
+    const forks = useSessionLineageStore((state) => state.forks);
+
+    const [compareIds, setCompareIds] = React.useState<string[]>([]);
+    const [pruneConfirmId, setPruneConfirmId] = React.useState<string | null>(null);
+    const [pruningId, setPruningId] = React.useState<string | null>(null);
+    const [comparison, setComparison] = React.useState<ComparisonState>({ status: 'idle' });
+    const [selectedFile, setSelectedFile] = React.useState<string | null>(null);
+
+    const lineage = React.useMemo(
+        () => (currentSessionId ? buildSessionLineage(currentSessionId, sessions, forks) : null),
+        [currentSessionId, forks, sessions]
+    );
+
+    const titleById = React.useMemo(() => {
+        const map = new Map<string, string>();
+        for (const session of sessions) {
+            map.set(session.id, session.title || 'Untitled Session');
+        }
+        return map;
+    }, [sessions]);
+
+    React.useEffect(() => {
+        if (!open) {
+            setCompareIds([]);
+            setPruneConfirmId(null);
+            setComparison({ status: 'idle' });
+            setSelectedFile(null);
+        }
+    }, [open]);
+
+    const toggleCompare = (sessionId: string) => {
+        setCompareIds((prev) => {
+            if (prev.includes(sessionId)) {
+                return prev.filter((id) => id !== sessionId);
+            }
+            // Keep the most recent two selections
+            return [...prev, sessionId].slice(-2);
+        });
+    };
+
+    const handleNavigate = (sessionId: string) => {
+        void setCurrentSession(sessionId);
+        onOpenChange(false);
+    };
+
+    const fetchDiff = (sessionId: string) => {
+        const directory = getDirectoryForSession(sessionId);
+        return directory
+            ? opencodeClient.withDirectory(directory, () => opencodeClient.getSessionDiff(sessionId))
+            : opencodeClient.getSessionDiff(sessionId);
+    };
+
+    const handleCompare = async () => {
+        const [leftId, rightId] = compareIds;
+        if (!leftId || !rightId) return;
+        setComparison({ status: 'loading', leftId, rightId });
+        setSelectedFile(null);
+        try {
+            const [left, right] = await Promise.all([fetchDiff(leftId), fetchDiff(rightId)]);
+            const rows = compareBranchDiffs(left, right);
+            setComparison({ status: 'ready', leftId, rightId, rows });
+            setSelectedFile(rows.find((row) => !row.identical)?.file ?? rows[0]?.file ?? null);
+        } catch (error) {
+            setComparison({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const handlePrune = async (node: SessionLineageNode) => {
+        // Children first, so a failure part-way never leaves orphaned descendants behind a deleted parent
+        const ids = flattenLineage(node).map((entry) => entry.session.id).reverse();
+        setPruningId(node.session.id);
+        try {
+            const deleted: string[] = [];
+            for (const id of ids) {
+                if (await deleteSession(id)) {
+                    deleted.push(id);
+                }
+            }
+            setCompareIds((prev) => prev.filter((id) => !deleted.includes(id)));
+            if (deleted.length === ids.length) {
+                toast.success(ids.length === 1 ? 'Branch pruned' : `Pruned ${ids.length} sessions`);
+            } else {
+                toast.error('Some sessions could not be deleted');
+            }
+        } finally {
+            setPruningId(null);
+            setPruneConfirmId(null);
+        }
+    };
+
+    const renderNode = (node: SessionLineageNode, depth: number): React.ReactNode => {
+        const { session } = node;
+        const isCurrent = session.id === currentSessionId;
+        const subtreeIds = flattenLineage(node).map((entry) => entry.session.id);
+        const canPrune = node.edge !== 'root' && !subtreeIds.includes(currentSessionId ?? '');
+        const edgeLabel = getEdgeLabel(node);
+        const summary = session.summary;
+
+        return (
+            <div key={session.id} className={cn(depth > 0 && 'ml-4 border-l border-border/60 pl-3')}>
+                <div
+                    className={cn(
+                        'group relative flex items-start gap-2 rounded-md px-2 py-1.5 transition-colors hover:bg-interactive-hover/30',
+                        isCurrent && 'bg-interactive-selection/40',
+                        depth > 0 && "before:absolute before:-left-3 before:top-4 before:h-px before:w-3 before:bg-border/60 before:content-['']"
+                    )}
+                >
+                    <div className="pt-0.5">
+                        <Checkbox
+                            checked={compareIds.includes(session.id)}
+                            onChange={() => toggleCompare(session.id)}
+                            ariaLabel="Select for comparison"
+                        />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-1.5 min-w-0">
+                            {node.edge === 'subagent' ? (
+                                <RiRobot2Line className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                            ) : (
+                                <RiGitBranchLine className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                            )}
+                            <button
+                                type="button"
+                                className="truncate typography-ui-label text-foreground hover:underline text-left"
+                                onClick={() => handleNavigate(session.id)}
+                            >
+                                {session.title || 'Untitled Session'}
+                            </button>
+                            {edgeLabel && (
+                                <span className="flex-shrink-0 rounded bg-muted px-1 typography-micro text-muted-foreground">
+                                    {edgeLabel}
+                                </span>
+                            )}
+                            {isCurrent && (
+                                <span className="flex-shrink-0 rounded bg-primary/10 px-1 typography-micro text-primary">
+                                    Current
+                                </span>
+                            )}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-x-2 typography-micro text-muted-foreground">
+                            {node.origin?.messageId && (
+                                <span className="truncate max-w-[24rem]">
+                                    branched at “{node.origin.messagePreview || node.origin.messageId.slice(-8)}”
+                                </span>
+                            )}
+                            {session.revert && (
+                                <span
+                                    className="inline-flex items-center gap-0.5 text-[color:var(--status-warning)]"
+                                    title="Messages after the revert point are hidden and are discarded on the next prompt"
+                                >
+                                    <RiArrowGoBackLine className="h-3 w-3" />
+                                    reverted segment
+                                </span>
+                            )}
+                            {summary && (summary.additions > 0 || summary.deletions > 0) && (
+                                <span>
+                                    <span className="text-[color:var(--status-success)]">+{summary.additions}</span>
+                                    /
+                                    <span className="text-destructive">-{summary.deletions}</span>
+                                    {' '}in {summary.files} {summary.files === 1 ? 'file' : 'files'}
+                                </span>
+                            )}
+                            <span>{new Date(session.time.updated).toLocaleString()}</span>
+                        </div>
+                    </div>
+                    {canPrune && (
+                        pruneConfirmId === session.id ? (
+                            <div className="flex flex-shrink-0 items-center gap-1">
+                                <Button
+                                    size="sm"
+                                    variant="destructive"
+                                    className="h-6 px-2"
+                                    disabled={pruningId !== null}
+                                    onClick={() => void handlePrune(node)}
+                                >
+                                    {pruningId === session.id ? <RiLoader4Line className="h-3.5 w-3.5 animate-spin" /> : null}
+                                    Prune {subtreeIds.length > 1 ? `${subtreeIds.length} sessions` : 'branch'}
+                                </Button>
+                                <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => setPruneConfirmId(null)}>
+                                    Cancel
+                                </Button>
+                            </div>
+                        ) : (
+                            <button
+                                type="button"
+                                aria-label="Prune branch"
+                                title="Delete this branch and everything that branched from it"
+                                className="hidden h-6 w-6 flex-shrink-0 items-center justify-center text-muted-foreground hover:text-destructive group-hover:flex"
+                                onClick={() => setPruneConfirmId(session.id)}
+                            >
+                                <RiDeleteBinLine className="h-4 w-4" />
+                            </button>
+                        )
+                    )}
+                </div>
+                {node.children.map((child) => renderNode(child, depth + 1))}
+            </div>
+        );
+    };
+
+    const renderComparison = () => {
+        if (comparison.status === 'loading') {
+            return (
+                <div className="flex flex-1 items-center justify-center gap-2 text-muted-foreground">
+                    <RiLoader4Line className="h-4 w-4 animate-spin" />
+                    Loading diffs…
+                </div>
+            );
+        }
+        if (comparison.status === 'error') {
+            return <div className="py-8 text-center text-destructive">{comparison.message}</div>;
+        }
+        if (comparison.status !== 'ready') {
+            return null;
+        }
+        if (comparison.rows.length === 0) {
+            return <div className="py-8 text-center text-muted-foreground">Neither branch changed any files</div>;
+        }
+
+        const selected = comparison.rows.find((row) => row.file === selectedFile) ?? null;
+        return (
+            <div className="flex flex-1 min-h-0 gap-3">
+                <div className="w-64 flex-shrink-0 overflow-y-auto border-r border-border pr-2">
+                    {comparison.rows.map((row) => (
+                        <button
+                            key={row.file}
+                            type="button"
+                            className={cn(
+                                'flex w-full flex-col items-start rounded px-2 py-1 text-left transition-colors',
+                                row.file === selectedFile ? 'bg-interactive-selection' : 'hover:bg-interactive-hover/30'
+                            )}
+                            onClick={() => setSelectedFile(row.file)}
+                        >
+                            <span className={cn('w-full truncate typography-meta', row.identical ? 'text-muted-foreground' : 'text-foreground')}>
+                                {row.file}
+                            </span>
+                            <span className="typography-micro text-muted-foreground">
+                                {row.identical
+                                    ? 'same in both'
+                                    : `${row.left ? `+${row.left.additions}/-${row.left.deletions}` : 'untouched'} vs ${row.right ? `+${row.right.additions}/-${row.right.deletions}` : 'untouched'}`}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+                <div className="flex-1 min-w-0 overflow-auto">
+                    {selected && (selected.identical ? (
+                        <div className="py-8 text-center text-muted-foreground">Both branches end with the same content</div>
+                    ) : (
+                        <PierreDiffViewer
+                            original={selected.leftContent}
+                            modified={selected.rightContent}
+                            language={getLanguageFromExtension(selected.file) || 'text'}
+                            fileName={selected.file}
+                            renderSideBySide
+                            layout="inline"
+                        />
+                    ))}
+                </div>
+            </div>
+        );
+    };
+
+    const isComparing = comparison.status !== 'idle';
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-5xl h-[80vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <RiGitBranchLine className="h-5 w-5" />
+                        Branch Graph
+                    </DialogTitle>
+                    <DialogDescription>
+                        {isComparing && comparison.status !== 'error'
+                            ? `Final diff of “${titleById.get(comparison.leftId) ?? comparison.leftId}” against “${titleById.get(comparison.rightId) ?? comparison.rightId}”`
+                            : 'Forks, reverts and sub-agent sessions related to this conversation'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center gap-2">
+                    {isComparing ? (
+                        <Button size="sm" variant="ghost" onClick={() => setComparison({ status: 'idle' })}>
+                            <RiArrowLeftLine className="h-4 w-4" />
+                            Back to graph
+                        </Button>
+                    ) : (
+                        <>
+                            <span className="typography-meta text-muted-foreground">
+                                {compareIds.length < 2 ? 'Select two branches to compare their final diffs' : 'Two branches selected'}
+                            </span>
+                            <Button size="sm" variant="outline" className="ml-auto" disabled={compareIds.length < 2} onClick={() => void handleCompare()}>
+                                Compare diffs
+                            </Button>
+                        </>
+                    )}
+                </div>
+
+                {isComparing ? (
+                    renderComparison()
+                ) : (
+                    <div className="flex-1 overflow-y-auto">
+                        {lineage ? renderNode(lineage, 0) : (
+                            <div className="py-8 text-center text-muted-foreground">No session selected</div>
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui';
+import { RiChatNewLine, RiRefreshLine } from '@remixicon/react';
+import { useSessionStore } from '@/stores/useSessionStore';
+import { useTodoStore } from '@/stores/useTodoStore';
+import { useUIStore } from '@/stores/useUIStore';
+import { buildSessionSummary } from '@/lib/sessionSummary';
+
+interface SessionSummaryDialogProps {
+    sessionId: string | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export const SessionSummaryDialog: React.FC<SessionSummaryDialogProps> = ({ sessionId, open, onOpenChange }) => {
+    const [summary, setSummary] = React.useState('');
+    const [isGenerating, setIsGenerating] = React.useState(false);
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const continueSessionWithSummary = useSessionStore((state) => state.continueSessionWithSummary);
+    const setActiveMainTab = useUIStore((state) => state.setActiveMainTab);
+
+    const generate = React.useCallback(async () => {
+        if (!sessionId) return;
+        setIsGenerating(true);
+        try {
+            await useTodoStore.getState().loadTodos(sessionId);
+        } catch {
+            // Summary is still useful without todos
+        }
+        const { sessions, messages } = useSessionStore.getState();
+        const session = sessions.find((s) => s.id === sessionId);
+        setSummary(buildSessionSummary({
+            title: session?.title || 'Untitled Session',
+            directory: (session as { directory?: string | null } | undefined)?.directory,
+            messages: messages.get(sessionId) || [],
+            todos: useTodoStore.getState().getTodosForSession(sessionId),
+        }));
+        setIsGenerating(false);
+    }, [sessionId]);
+
+    React.useEffect(() => {
+        if (open) {
+            void generate();
+        }
+    }, [open, generate]);
+
+    const handleContinue = async () => {
+        if (!sessionId || !summary.trim()) return;
+        setIsSubmitting(true);
+        try {
+            const created = await continueSessionWithSummary(sessionId, summary);
+            if (!created) {
+                throw new Error('Failed to create session');
+            }
+            setActiveMainTab('chat');
+            onOpenChange(false);
+        } catch (error) {
+            toast.error('Failed to continue in a new session', {
+                description: error instanceof Error ? error.message : undefined,
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(next) => !isSubmitting && onOpenChange(next)}>
+            <DialogContent className="max-w-2xl w-[calc(100vw-2rem)]">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <RiChatNewLine className="h-5 w-5" />
+                        Continue in new session
+                    </DialogTitle>
+                    <DialogDescription>
+                        Starts a new session seeded with this summary instead of the full history. Edit it before sending.
+                    </DialogDescription>
+                </DialogHeader>
+                <Textarea
+                    value={summary}
+                    onChange={(event) => setSummary(event.target.value)}
+                    disabled={isGenerating || isSubmitting}
+                    className="min-h-72 max-h-[55vh] font-mono typography-meta"
+                    aria-label="Session summary"
+                />
+                <DialogFooter className="gap-2 sm:justify-between">
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => void generate()}
+                        disabled={isGenerating || isSubmitting}
+                    >
+                        <RiRefreshLine className="h-4 w-4" />
+                        Regenerate
+                    </Button>
+                    <div className="flex items-center gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                            Cancel
+                        </Button>
+                        <Button
+                            type="button"
+                            size="sm"
+                            onClick={() => void handleContinue()}
+                            disabled={isGenerating || isSubmitting || !summary.trim()}
+                        >
+                            {isSubmitting ? 'Starting…' : 'Start new session'}
+                        </Button>
+                    </div>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -7,9 +7,19 @@ import {
     DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from '@/components/ui';
+import { exportSession, type SessionExportFormat } from '@/lib/sessionExport';
+import { SessionBranchGraphDialog } from './SessionBranchGraphDialog';
 import { useSessionStore } from '@/stores/useSessionStore';
 import { useMessageStore } from '@/stores/messageStore';
-import { RiLoader4Line, RiSearchLine, RiTimeLine, RiGitBranchLine, RiArrowGoBackLine } from '@remixicon/react';
+import { RiLoader4Line, RiSearchLine, RiTimeLine, RiGitBranchLine, RiArrowGoBackLine, RiDownload2Line } from '@remixicon/react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import type { Part } from '@opencode-ai/sdk/v2';
 
@@ -46,6 +56,7 @@ export const TimelineDialog: React.FC<TimelineDialogProps> = ({ open, onOpenChan
 
     const [forkingMessageId, setForkingMessageId] = React.useState<string | null>(null);
     const [searchQuery, setSearchQuery] = React.useState('');
+    const [isBranchGraphOpen, setBranchGraphOpen] = React.useState(false);
 
     // Filter user messages (reversed for newest first)
     const userMessages = React.useMemo(() => {
@@ -77,129 +88,167 @@ export const TimelineDialog: React.FC<TimelineDialogProps> = ({ open, onOpenChan
         }
     };
 
+    const handleExport = (format: SessionExportFormat) => {
+        if (!currentSessionId) return;
+        void exportSession(currentSessionId, format).catch((error) => {
+            toast.error('Failed to export session', {
+                description: error instanceof Error ? error.message : String(error),
+            });
+        });
+    };
+
     if (!currentSessionId) return null;
 
     return (
-        <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="max-w-2xl max-h-[70vh] flex flex-col">
-                <DialogHeader>
-                    <DialogTitle className="flex items-center gap-2">
-                        <RiTimeLine className="h-5 w-5" />
-                        Conversation Timeline
-                    </DialogTitle>
-                    <DialogDescription>
-                        Navigate to any point in the conversation or fork a new session
-                    </DialogDescription>
-                </DialogHeader>
-
-                <div className="relative mt-2">
-                    <RiSearchLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                    <Input
-                        placeholder="Search messages..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="pl-9 w-full"
-                    />
-                </div>
-
-                <div className="flex-1 overflow-y-auto">
-                    {filteredMessages.length === 0 ? (
-                        <div className="text-center text-muted-foreground py-8">
-                            {searchQuery ? 'No messages found' : 'No messages in this session yet'}
+        <>
+            <Dialog open={open} onOpenChange={onOpenChange}>
+                <DialogContent className="max-w-2xl max-h-[70vh] flex flex-col">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <RiTimeLine className="h-5 w-5" />
+                            Conversation Timeline
+                        </DialogTitle>
+                        <DialogDescription>
+                            Navigate to any point in the conversation or fork a new session
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="mt-2 flex items-center gap-2">
+                        <div className="relative flex-1">
+                            <RiSearchLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Search messages..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="pl-9 w-full"
+                            />
                         </div>
-                    ) : (
-                        filteredMessages.map((message) => {
-                            const preview = getMessagePreview(message.parts);
-                            const timestamp = message.info.time.created;
-                            const relativeTime = formatRelativeTime(timestamp);
-                            const messageNumber = userMessages.length - userMessages.indexOf(message);
-
-                            return (
-                                <div
-                                    key={message.info.id}
-                                    className="group flex items-center gap-2 py-1.5 hover:bg-interactive-hover/30 rounded transition-colors cursor-pointer"
-                                    onClick={() => {
-                                        onScrollToMessage?.(message.info.id);
-                                        onOpenChange(false);
-                                    }}
-                                >
-                                    <span className="typography-meta text-muted-foreground w-5 text-right flex-shrink-0">
-                                        {messageNumber}.
-                                    </span>
-                                    <p className="flex-1 min-w-0 typography-small text-foreground truncate ml-0.5">
-                                        {preview || '[No text content]'}
-                                        {preview && preview.length >= 80 && '…'}
-                                    </p>
-
-                                    <div className="flex-shrink-0 h-5 flex items-center mr-2">
-                                        <span className="typography-meta text-muted-foreground whitespace-nowrap group-hover:hidden">
-                                            {relativeTime}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                                onOpenChange(false);
+                                setBranchGraphOpen(true);
+                            }}
+                        >
+                            <RiGitBranchLine className="h-4 w-4" />
+                            Branch graph
+                        </Button>
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="outline" size="sm">
+                                    <RiDownload2Line className="h-4 w-4" />
+                                    Export
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => handleExport('markdown')}>Markdown</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => handleExport('html')}>HTML</DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto">
+                        {filteredMessages.length === 0 ? (
+                            <div className="text-center text-muted-foreground py-8">
+                                {searchQuery ? 'No messages found' : 'No messages in this session yet'}
+                            </div>
+                        ) : (
+                            filteredMessages.map((message) => {
+                                const preview = getMessagePreview(message.parts);
+                                const timestamp = message.info.time.created;
+                                const relativeTime = formatRelativeTime(timestamp);
+                                const messageNumber = userMessages.length - userMessages.indexOf(message);
+
+                                return (
+                                    <div
+                                        key={message.info.id}
+                                        className="group flex items-center gap-2 py-1.5 hover:bg-interactive-hover/30 rounded transition-colors cursor-pointer"
+                                        onClick={() => {
+                                            onScrollToMessage?.(message.info.id);
+                                            onOpenChange(false);
+                                        }}
+                                    >
+                                        <span className="typography-meta text-muted-foreground w-5 text-right flex-shrink-0">
+                                            {messageNumber}.
                                         </span>
+                                        <p className="flex-1 min-w-0 typography-small text-foreground truncate ml-0.5">
+                                            {preview || '[No text content]'}
+                                            {preview && preview.length >= 80 && '…'}
+                                        </p>
+
+                                        <div className="flex-shrink-0 h-5 flex items-center mr-2">
+                                            <span className="typography-meta text-muted-foreground whitespace-nowrap group-hover:hidden">
+                                                {relativeTime}
+                                            </span>
 
-                                        <div className="hidden group-hover:flex gap-1">
-                                            <Tooltip delayDuration={1000}>
-                                                <TooltipTrigger asChild>
-                                                    <button
-                                                        type="button"
-                                                        className="h-5 w-5 flex items-center justify-center text-muted-foreground hover:text-foreground transition-colors"
-                                                        onClick={async (e) => {
-                                                            e.stopPropagation();
-                                                            await revertToMessage(currentSessionId, message.info.id);
-                                                            onOpenChange(false);
-                                                        }}
-                                                    >
-                                                        <RiArrowGoBackLine className="h-4 w-4" />
-                                                    </button>
-                                                </TooltipTrigger>
-                                                <TooltipContent sideOffset={6}>Revert from here</TooltipContent>
-                                            </Tooltip>
-
-                                            <Tooltip delayDuration={1000}>
-                                                <TooltipTrigger asChild>
-                                                    <button
-                                                        type="button"
-                                                        className="h-5 w-5 flex items-center justify-center text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
-                                                        onClick={(e) => {
-                                                            e.stopPropagation();
-                                                            handleFork(message.info.id);
-                                                        }}
-                                                        disabled={forkingMessageId === message.info.id}
-                                                    >
-                                                        {forkingMessageId === message.info.id ? (
-                                                            <RiLoader4Line className="h-4 w-4 animate-spin" />
-                                                        ) : (
-                                                            <RiGitBranchLine className="h-4 w-4" />
-                                                        )}
-                                                    </button>
-                                                </TooltipTrigger>
-                                                <TooltipContent sideOffset={6}>Fork from here</TooltipContent>
-                                            </Tooltip>
+                                            <div className="hidden group-hover:flex gap-1">
+                                                <Tooltip delayDuration={1000}>
+                                                    <TooltipTrigger asChild>
+                                                        <button
+                                                            type="button"
+                                                            className="h-5 w-5 flex items-center justify-center text-muted-foreground hover:text-foreground transition-colors"
+                                                            onClick={async (e) => {
+                                                                e.stopPropagation();
+                                                                await revertToMessage(currentSessionId, message.info.id);
+                                                                onOpenChange(false);
+                                                            }}
+                                                        >
+                                                            <RiArrowGoBackLine className="h-4 w-4" />
+                                                        </button>
+                                                    </TooltipTrigger>
+                                                    <TooltipContent sideOffset={6}>Revert from here</TooltipContent>
+                                                </Tooltip>
+
+                                                <Tooltip delayDuration={1000}>
+                                                    <TooltipTrigger asChild>
+                                                        <button
+                                                            type="button"
+                                                            className="h-5 w-5 flex items-center justify-center text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                handleFork(message.info.id);
+                                                            }}
+                                                            disabled={forkingMessageId === message.info.id}
+                                                        >
+                                                            {forkingMessageId === message.info.id ? (
+                                                                <RiLoader4Line className="h-4 w-4 animate-spin" />
+                                                            ) : (
+                                                                <RiGitBranchLine className="h-4 w-4" />
+                                                            )}
+                                                        </button>
+                                                    </TooltipTrigger>
+                                                    <TooltipContent sideOffset={6}>Fork from here</TooltipContent>
+                                                </Tooltip>
+                                            </div>
                                         </div>
                                     </div>
-                                </div>
-                            );
-                        })
-                    )}
-                </div>
-
-                <div className="mt-4 p-3 bg-muted/30 rounded-lg">
-                    <p className="typography-meta text-muted-foreground font-medium mb-2">Actions</p>
-                    <div className="flex flex-col gap-1.5 typography-meta text-muted-foreground">
-                        <div className="flex items-center gap-2">
-                            <span>Click on a message to scroll to it in the conversation</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                            <RiArrowGoBackLine className="h-4 w-4 flex-shrink-0" />
-                            <span>Undo to this point (message text will populate input)</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                            <RiGitBranchLine className="h-4 w-4 flex-shrink-0" />
-                            <span>Create a new session starting from here</span>
+                                );
+                            })
+                        )}
+                    </div>
+
+                    <div className="mt-4 p-3 bg-muted/30 rounded-lg">
+                        <p className="typography-meta text-muted-foreground font-medium mb-2">Actions</p>
+                        <div className="flex flex-col gap-1.5 typography-meta text-muted-foreground">
+                            <div className="flex items-center gap-2">
+                                <span>Click on a message to scroll to it in the conversation</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <RiArrowGoBackLine className="h-4 w-4 flex-shrink-0" />
+                                <span>Undo to this point (message text will populate input)</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <RiGitBranchLine className="h-4 w-4 flex-shrink-0" />
+                                <span>Create a new session starting from here</span>
+                            </div>
                         </div>
                     </div>
-                </div>
-            </DialogContent>
-        </Dialog>
+                </DialogContent>
+            </Dialog>
+            <SessionBranchGraphDialog open={isBranchGraphOpen} onOpenChange={setBranchGraphOpen} />
+        </>
     );
 };
 
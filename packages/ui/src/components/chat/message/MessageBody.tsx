@@ -14,7 +14,7 @@ import { isEmptyTextPart, extractTextContent } from './partUtils';
 import { FadeInOnReveal } from './FadeInOnReveal';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
-import { RiCheckLine, RiFileCopyLine, RiChatNewLine, RiArrowGoBackLine, RiGitBranchLine, RiHourglassLine, RiVolumeUpLine, RiStopLine } from '@remixicon/react';
+import { RiCheckLine, RiFileCopyLine, RiChatNewLine, RiArrowGoBackLine, RiGitBranchLine, RiLinkM, RiPencilLine, RiHourglassLine, RiVolumeUpLine, RiStopLine } from '@remixicon/react';
 import { ArrowsMerge } from '@/components/icons/ArrowsMerge';
 import type { ContentChangeReason } from '@/hooks/useChatScrollManager';
 
@@ -281,6 +281,8 @@ interface MessageBodyProps {
     turnGroupingContext?: TurnGroupingContext;
     onRevert?: () => void;
     onFork?: () => void;
+    onEdit?: () => void;
+    onCopyLink?: () => void;
     errorMessage?: string;
 }
 
@@ -296,7 +298,9 @@ const UserMessageBody: React.FC<{
     agentMention?: AgentMentionInfo;
     onRevert?: () => void;
     onFork?: () => void;
-}> = ({ messageId, parts, isMobile, hasTouchInput, hasTextContent, onCopyMessage, copiedMessage, onShowPopup, agentMention, onRevert, onFork }) => {
+    onEdit?: () => void;
+    onCopyLink?: () => void;
+}> = ({ messageId, parts, isMobile, hasTouchInput, hasTextContent, onCopyMessage, copiedMessage, onShowPopup, agentMention, onRevert, onFork, onEdit, onCopyLink }) => {
     const [copyHintVisible, setCopyHintVisible] = React.useState(false);
     const copyHintTimeoutRef = React.useRef<number | null>(null);
 
@@ -412,7 +416,7 @@ const UserMessageBody: React.FC<{
                 })}
             </div>
             <MessageFilesDisplay files={parts} onShowPopup={onShowPopup} compact />
-            {(canCopyMessage && hasCopyableText) || onRevert || onFork ? (
+            {(canCopyMessage && hasCopyableText) || onRevert || onFork || onEdit || onCopyLink ? (
                 <div className={cn(
                     "absolute top-full left-0 right-0 z-10 group/user-actions",
                     isMobile ? "pt-2 pb-3" : "pt-5"
@@ -425,6 +429,27 @@ const UserMessageBody: React.FC<{
                                 : "pointer-events-none opacity-0 transition-opacity duration-150 group-hover/message:pointer-events-auto group-hover/message:opacity-100 group-hover/user-actions:pointer-events-auto group-hover/user-actions:opacity-100"
                         )}
                     >
+                    {onEdit && (
+                        <Tooltip delayDuration={1000}>
+                            <TooltipTrigger asChild>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 text-muted-foreground bg-transparent hover:text-foreground hover:!bg-transparent active:!bg-transparent focus-visible:!bg-transparent focus-visible:ring-2 focus-visible:ring-primary/50"
+                                    aria-label="Edit and resend message"
+                                    onPointerDown={(event) => event.stopPropagation()}
+                                    onClick={(event) => {
+                                        event.stopPropagation();
+                                        onEdit();
+                                    }}
+                                >
+                                    <RiPencilLine className="h-3 w-3" />
+                                </Button>
+                            </TooltipTrigger>
+                            <TooltipContent sideOffset={6}>Edit and resend</TooltipContent>
+                        </Tooltip>
+                    )}
                     {onRevert && (
                         <Tooltip delayDuration={1000}>
                             <TooltipTrigger asChild>
@@ -466,6 +491,27 @@ const UserMessageBody: React.FC<{
                             <TooltipContent sideOffset={6}>Fork from here</TooltipContent>
                         </Tooltip>
                     )}
+                    {onCopyLink && (
+                        <Tooltip delayDuration={1000}>
+                            <TooltipTrigger asChild>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6 text-muted-foreground bg-transparent hover:text-foreground hover:!bg-transparent active:!bg-transparent focus-visible:!bg-transparent focus-visible:ring-2 focus-visible:ring-primary/50"
+                                    aria-label="Copy link to message"
+                                    onPointerDown={(event) => event.stopPropagation()}
+                                    onClick={(event) => {
+                                        event.stopPropagation();
+                                        onCopyLink();
+                                    }}
+                                >
+                                    <RiLinkM className="h-3 w-3" />
+                                </Button>
+                            </TooltipTrigger>
+                            <TooltipContent sideOffset={6}>Copy link to message</TooltipContent>
+                        </Tooltip>
+                    )}
                     {canCopyMessage && hasCopyableText && (
                         <Tooltip delayDuration={1000}>
                             <TooltipTrigger asChild>
@@ -524,6 +570,7 @@ const AssistantMessageBody: React.FC<Omit<MessageBodyProps, 'isUser'>> = ({
     onAuxiliaryContentComplete,
     showReasoningTraces = false,
     turnGroupingContext,
+    onCopyLink,
     errorMessage,
 }) => {
 
@@ -1027,6 +1074,7 @@ const AssistantMessageBody: React.FC<Omit<MessageBodyProps, 'isUser'>> = ({
                             onShowPopup={onShowPopup}
                             onContentChange={onContentChange}
                             diffStats={turnGroupingContext.diffStats}
+                            turnId={turnGroupingContext.turnId}
                         />
                     ),
                 });
@@ -1300,6 +1348,24 @@ const AssistantMessageBody: React.FC<Omit<MessageBodyProps, 'isUser'>> = ({
                       <TooltipContent sideOffset={6}>Copy answer</TooltipContent>
                   </Tooltip>
               )}
+              {onCopyLink && (
+                  <Tooltip delayDuration={1000}>
+                      <TooltipTrigger asChild>
+                          <Button
+                              type="button"
+                              size="icon"
+                              variant="ghost"
+                              className="h-8 w-8 text-muted-foreground bg-transparent hover:text-foreground hover:!bg-transparent active:!bg-transparent focus-visible:!bg-transparent focus-visible:ring-2 focus-visible:ring-primary/50"
+                              aria-label="Copy link to message"
+                              onPointerDown={(event) => event.stopPropagation()}
+                              onClick={onCopyLink}
+                          >
+                              <RiLinkM className="h-3.5 w-3.5" />
+                          </Button>
+                      </TooltipTrigger>
+                      <TooltipContent sideOffset={6}>Copy link to message</TooltipContent>
+                  </Tooltip>
+              )}
               <Tooltip delayDuration={1000}>
                   <TooltipTrigger asChild>
                       <Button
@@ -1457,6 +1523,8 @@ const MessageBody: React.FC<MessageBodyProps> = ({ isUser, ...props }) => {
                 agentMention={props.agentMention}
                 onRevert={props.onRevert}
                 onFork={props.onFork}
+                onEdit={props.onEdit}
+                onCopyLink={props.onCopyLink}
             />
         );
     }
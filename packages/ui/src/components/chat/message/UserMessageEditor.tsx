@@ -0,0 +1,143 @@
+import React from 'react';
+import type { Part } from '@opencode-ai/sdk/v2';
+import { RiAttachment2, RiCloseLine } from '@remixicon/react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import type { AttachedFile, EditedUserMessage } from '@/stores/types/sessionTypes';
+import type { AgentMentionInfo } from './types';
+
+interface UserMessageEditorProps {
+    parts: Part[];
+    agentMention?: AgentMentionInfo;
+    isSubmitting: boolean;
+    onCancel: () => void;
+    onSubmit: (edit: EditedUserMessage) => void;
+}
+
+const getEditableText = (parts: Part[]): string =>
+    parts
+        .filter((part) => part.type === 'text' && !part.synthetic && !part.ignored)
+        .map((part) => (part as { text?: string }).text || '')
+        .join('\n')
+        .trim();
+
+// The original url (data: or file://) is sent back unchanged, so the attachment needs no re-reading
+const toAttachedFile = (part: Part): AttachedFile | null => {
+    if (part.type !== 'file') {
+        return null;
+    }
+    const filename = part.filename || part.url.split('/').pop() || 'file';
+    return {
+        id: part.id,
+        file: new File([], filename, { type: part.mime }),
+        dataUrl: part.url,
+        mimeType: part.mime,
+        filename,
+        size: 0,
+        source: 'local',
+    };
+};
+
+export const UserMessageEditor: React.FC<UserMessageEditorProps> = ({ parts, agentMention, isSubmitting, onCancel, onSubmit }) => {
+    const [text, setText] = React.useState(() => getEditableText(parts));
+    const [attachments, setAttachments] = React.useState<AttachedFile[]>(
+        () => parts.map(toAttachedFile).filter((file): file is AttachedFile => file !== null)
+    );
+    const [forkInstead, setForkInstead] = React.useState(false);
+    const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+    React.useEffect(() => {
+        const textarea = textareaRef.current;
+        if (textarea) {
+            textarea.focus();
+            textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        }
+    }, []);
+
+    const canSubmit = !isSubmitting && (text.trim().length > 0 || attachments.length > 0);
+
+    const handleSubmit = () => {
+        if (!canSubmit) return;
+        onSubmit({
+            text,
+            attachments,
+            // Only keep the agent mention while its token is still in the text
+            agentMentionName: agentMention && text.includes(agentMention.token) ? agentMention.name : undefined,
+            mode: forkInstead ? 'fork' : 'revert',
+        });
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (event.key === 'Escape') {
+            event.preventDefault();
+            onCancel();
+            return;
+        }
+        if (event.key === 'Enter' && (event.metaKey || event.ctrlKey)) {
+            event.preventDefault();
+            handleSubmit();
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2" onClick={(event) => event.stopPropagation()}>
+            <Textarea
+                ref={textareaRef}
+                value={text}
+                onChange={(event) => setText(event.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={isSubmitting}
+                className="min-h-20 max-h-80 bg-background"
+                aria-label="Edit message"
+            />
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {attachments.map((file) => (
+                        <span
+                            key={file.id}
+                            className="inline-flex max-w-full items-center gap-1 rounded-md border border-border/60 bg-background/60 px-1.5 py-0.5 typography-meta"
+                        >
+                            <RiAttachment2 className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                            <span className="truncate">{file.filename}</span>
+                            <button
+                                type="button"
+                                aria-label={`Remove ${file.filename}`}
+                                className="text-muted-foreground hover:text-foreground"
+                                disabled={isSubmitting}
+                                onClick={() => setAttachments((prev) => prev.filter((entry) => entry.id !== file.id))}
+                            >
+                                <RiCloseLine className="h-3 w-3" />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="flex items-center gap-1.5">
+                    <Checkbox
+                        checked={forkInstead}
+                        onChange={setForkInstead}
+                        disabled={isSubmitting}
+                        ariaLabel="Fork into a new session instead of reverting"
+                    />
+                    <span
+                        className="typography-meta text-muted-foreground cursor-pointer select-none"
+                        onClick={() => !isSubmitting && setForkInstead(!forkInstead)}
+                    >
+                        Fork into a new session
+                    </span>
+                </div>
+                <div className="ml-auto flex items-center gap-1">
+                    <Button type="button" size="sm" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+                        Cancel
+                    </Button>
+                    <Button type="button" size="sm" onClick={handleSubmit} disabled={!canSubmit}>
+                        {isSubmitting ? 'Sending…' : 'Send'}
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
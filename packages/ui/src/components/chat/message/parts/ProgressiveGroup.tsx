@@ -1,6 +1,8 @@
 import React from 'react';
-import { RiArrowDownSLine, RiArrowRightSLine, RiStackLine } from '@remixicon/react';
+import { RiArrowDownSLine, RiArrowRightSLine, RiExternalLinkLine, RiStackLine } from '@remixicon/react';
 import { cn } from '@/lib/utils';
+import { RuntimeAPIContext } from '@/contexts/runtimeAPIContext';
+import { useSessionStore } from '@/stores/useSessionStore';
 import type { TurnActivityPart } from '../../hooks/useTurnGrouping';
 import type { ToolPart as ToolPartType } from '@opencode-ai/sdk/v2';
 import type { ContentChangeReason } from '@/hooks/useChatScrollManager';
@@ -29,6 +31,7 @@ interface ProgressiveGroupProps {
     onShowPopup: (content: ToolPopupContent) => void;
     onContentChange?: (reason?: ContentChangeReason) => void;
     diffStats?: DiffStats;
+    turnId?: string;
 }
 
 const sortPartsByTime = (parts: TurnActivityPart[]): TurnActivityPart[] => {
@@ -71,7 +74,15 @@ const ProgressiveGroup: React.FC<ProgressiveGroupProps> = ({
     onToggleTool,
     onContentChange,
     diffStats,
+    turnId,
 }) => {
+    const runtime = React.useContext(RuntimeAPIContext);
+    const currentSessionId = useSessionStore((state) => state.currentSessionId);
+    const currentSessionDirectory = useSessionStore((state) =>
+        state.sessions.find((session) => session.id === state.currentSessionId)?.directory ?? null
+    );
+    const vscodeApi = runtime?.runtime.isVSCode ? runtime.vscode : undefined;
+
     const previousExpandedRef = React.useRef<boolean | undefined>(isExpanded);
     // Track if we just expanded from collapsed state
     const [justExpandedFromCollapsed, setJustExpandedFromCollapsed] = React.useState(false);
@@ -194,6 +205,20 @@ const ProgressiveGroup: React.FC<ProgressiveGroupProps> = ({
                                     -{Math.max(0, diffStats.deletions)}
                                 </span>
                             </span>
+                            {vscodeApi && currentSessionId && (
+                                <button
+                                    type="button"
+                                    className="flex items-center gap-1 flex-shrink-0 leading-none hover:text-foreground"
+                                    title="Open this turn's changes in the VS Code diff editor"
+                                    onClick={(event) => {
+                                        event.stopPropagation();
+                                        void vscodeApi.executeCommand('openchamber.openSessionChanges', currentSessionId, turnId, currentSessionDirectory);
+                                    }}
+                                >
+                                    <RiExternalLinkLine className="h-3 w-3" />
+                                    <span>Open changes</span>
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
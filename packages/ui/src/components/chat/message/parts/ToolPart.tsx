@@ -26,6 +26,7 @@ import {
     detectLanguageFromOutput,
     formatInputForDisplay,
     parseReadToolOutput,
+    extractToolDiffSides,
 } from '../toolRenderers';
 
 type ToolStateWithMetadata = ToolStateUnion & { metadata?: Record<string, unknown>; input?: Record<string, unknown>; output?: string; error?: string; time?: { start: number; end?: number } };
@@ -773,6 +774,18 @@ const ToolExpandedContent: React.FC<ToolExpandedContentProps> = React.memo(({
     const outputString = typeof rawOutput === 'string' ? rawOutput : '';
 
     const diffContent = typeof metadata?.diff === 'string' ? (metadata.diff as string) : null;
+    const runtime = React.useContext(RuntimeAPIContext);
+    const editorApi = runtime?.runtime.isVSCode ? runtime.editor : undefined;
+    const handleOpenDiffInEditor = React.useCallback(() => {
+        const sides = extractToolDiffSides(metadata, input, diffContent);
+        if (!editorApi || !sides) {
+            return;
+        }
+        void editorApi.openDiff(
+            { type: 'content', path: sides.path, content: sides.before },
+            { type: 'content', path: sides.path, content: sides.after }
+        );
+    }, [diffContent, editorApi, input, metadata]);
     const writeFilePath = part.tool === 'write'
         ? typeof input?.filePath === 'string'
             ? input.filePath
@@ -961,9 +974,24 @@ const ToolExpandedContent: React.FC<ToolExpandedContentProps> = React.memo(({
         }
 
         if ((part.tool === 'edit' || part.tool === 'multiedit' || part.tool === 'apply_patch') && diffContent) {
-            return renderScrollableBlock(
-                <DiffPreview diff={diffContent} syntaxTheme={syntaxTheme} input={input} />,
-                { className: 'p-1' }
+            return (
+                <>
+                    {renderScrollableBlock(
+                        <DiffPreview diff={diffContent} syntaxTheme={syntaxTheme} input={input} />,
+                        { className: 'p-1' }
+                    )}
+                    {editorApi && (
+                        <button
+                            type="button"
+                            className="flex items-center gap-2 typography-meta text-primary hover:text-primary/80 w-full pt-1"
+                            onPointerDown={(event) => event.stopPropagation()}
+                            onClick={handleOpenDiffInEditor}
+                        >
+                            <RiExternalLinkLine className="h-3.5 w-3.5 flex-shrink-0" />
+                            <span className="typography-meta text-primary font-medium">Open in VS Code diff</span>
+                        </button>
+                    )}
+                </>
             );
         }
 
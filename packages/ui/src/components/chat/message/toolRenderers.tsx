@@ -522,6 +522,81 @@ export const parseDiffToUnified = (diffText: string): UnifiedDiffHunk[] => {
     return hunks;
 };
 
+export interface ToolDiffSides {
+    path: string;
+    before: string;
+    after: string;
+}
+
+const readFileDiff = (value: unknown): ToolDiffSides | null => {
+    if (!value || typeof value !== 'object') {
+        return null;
+    }
+    const candidate = value as { file?: unknown; filePath?: unknown; before?: unknown; after?: unknown };
+    const path = typeof candidate.file === 'string' ? candidate.file : typeof candidate.filePath === 'string' ? candidate.filePath : null;
+    if (!path || typeof candidate.before !== 'string' || typeof candidate.after !== 'string') {
+        return null;
+    }
+    return { path, before: candidate.before, after: candidate.after };
+};
+
+/**
+ * Before/after content for an edit tool, for opening in an external diff editor.
+ * Prefers the full-file snapshots OpenCode records in metadata; otherwise rebuilds
+ * the changed regions from the unified diff (hunks only, not the whole file).
+ */
+export const extractToolDiffSides = (
+    metadata: Record<string, unknown> | undefined,
+    input: Record<string, unknown> | undefined,
+    diffText: string | null
+): ToolDiffSides | null => {
+    const fromFileDiff = readFileDiff(metadata?.filediff);
+    if (fromFileDiff) {
+        return fromFileDiff;
+    }
+    const files = Array.isArray(metadata?.files) ? metadata.files : [];
+    const fromFiles = files.length === 1 ? readFileDiff(files[0]) : null;
+    if (fromFiles) {
+        return fromFiles;
+    }
+
+    if (!diffText) {
+        return null;
+    }
+    const inputPath = input?.filePath ?? input?.file_path ?? input?.path;
+    let path = typeof inputPath === 'string' ? inputPath : '';
+    const before: string[] = [];
+    const after: string[] = [];
+    for (const line of diffText.split('\n')) {
+        if (line.startsWith('Index:')) {
+            path = path || line.slice('Index:'.length).trim();
+            continue;
+        }
+        if (line.startsWith('===') || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) {
+            continue;
+        }
+        if (line.startsWith('@@')) {
+            if (before.length > 0 || after.length > 0) {
+                before.push('');
+                after.push('');
+            }
+            continue;
+        }
+        if (line.startsWith('-')) {
+            before.push(line.substring(1));
+        } else if (line.startsWith('+')) {
+            after.push(line.substring(1));
+        } else if (line.startsWith(' ')) {
+            before.push(line.substring(1));
+            after.push(line.substring(1));
+        }
+    }
+    if (!path || (before.length === 0 && after.length === 0)) {
+        return null;
+    }
+    return { path, before: before.join('\n'), after: after.join('\n') };
+};
+
 export const parseDiffToLines = (diffText: string): SideBySideDiffHunk[] => {
     const lines = diffText.split('\n');
     let currentFile = '';
@@ -3,6 +3,7 @@ import type { Message, Part } from '@opencode-ai/sdk/v2';
 import { RiCheckLine, RiFileCopyLine } from '@remixicon/react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 
+import { CONTEXT_ACTIONS_THRESHOLD, ContextLimitActions } from '@/components/chat/ContextLimitActions';
 import { deriveMessageRole } from '@/components/chat/message/messageRole';
 import { useThemeSystem } from '@/contexts/useThemeSystem';
 import { generateSyntaxTheme } from '@/lib/theme/syntaxThemeGenerator';
@@ -448,6 +449,17 @@ export const ContextPanelContent: React.FC = () => {
           <div className="mt-1.5 typography-micro font-medium tabular-nums text-foreground/80">
             {viewModel.usagePercent.toFixed(1)}% used
           </div>
+          {viewModel.usagePercent >= CONTEXT_ACTIONS_THRESHOLD && (
+            <div className="mt-2 typography-micro text-muted-foreground">
+              Context is nearly full. Compact it, or continue in a new session seeded with a summary.
+            </div>
+          )}
+          <ContextLimitActions
+            sessionId={currentSessionId}
+            percentage={viewModel.usagePercent}
+            variant="buttons"
+            className="mt-3"
+          />
         </div>
 
         {/* ── Stat grid ── */}
@@ -27,6 +27,7 @@ import { useProjectsStore } from '@/stores/useProjectsStore';
 import { useGitHubAuthStore } from '@/stores/useGitHubAuthStore';
 import { useRuntimeAPIs } from '@/hooks/useRuntimeAPIs';
 import { ContextUsageDisplay } from '@/components/ui/ContextUsageDisplay';
+import { ContextLimitActions } from '@/components/chat/ContextLimitActions';
 import { useDeviceInfo } from '@/lib/device';
 import { cn, hasModifier, formatDirectoryName } from '@/lib/utils';
 import { useDiffFileCount } from '@/components/views/DiffView';
@@ -1701,6 +1702,9 @@ export const Header: React.FC = () => {
       {!showProjectTabs && <div className="flex-1" />}
 
       <div className="flex items-center gap-1 pr-3 shrink-0">
+        {showDesktopHeaderContextUsage && stableDesktopContextUsage && (
+          <ContextLimitActions sessionId={currentSessionId} percentage={stableDesktopContextUsage.percentage} />
+        )}
         {showDesktopHeaderContextUsage && stableDesktopContextUsage && (
           <ContextUsageDisplay
             totalTokens={stableDesktopContextUsage.totalTokens}
@@ -2155,6 +2159,9 @@ export const Header: React.FC = () => {
             isMobile={true}
           />
         )}
+        {!isSessionSwitcherOpen && contextUsage && contextUsage.totalTokens > 0 && activeMainTab === 'chat' && (
+          <ContextLimitActions sessionId={currentSessionId} percentage={contextUsage.percentage} />
+        )}
         {isSessionSwitcherOpen && (
           <span className="typography-ui-label font-semibold text-foreground">Sessions</span>
         )}
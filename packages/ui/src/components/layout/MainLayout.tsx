@@ -7,6 +7,8 @@ import { RightSidebarTabs } from './RightSidebarTabs';
 import { ContextPanel } from './ContextPanel';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
 import { CommandPalette } from '../ui/CommandPalette';
+import { SessionSearchDialog } from '../session/SessionSearchDialog';
+import { ImportedSessionsDialog } from '../session/ImportedSessionsDialog';
 import { HelpDialog } from '../ui/HelpDialog';
 import { OpenCodeStatusDialog } from '../ui/OpenCodeStatusDialog';
 import { SessionSidebar } from '@/components/session/SessionSidebar';
@@ -497,6 +499,8 @@ export const MainLayout: React.FC = () => {
                 )}
             >
                 <CommandPalette />
+                <SessionSearchDialog />
+                <ImportedSessionsDialog />
                 <HelpDialog />
                 <OpenCodeStatusDialog />
                 <SessionDialogs />
@@ -1,12 +1,17 @@
 import React from 'react';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
 import { SessionSidebar } from '@/components/session/SessionSidebar';
-import { ChatView, SettingsView } from '@/components/views';
+import { SessionSearchDialog } from '@/components/session/SessionSearchDialog';
+import { ImportedSessionsDialog } from '@/components/session/ImportedSessionsDialog';
+import { ChatView, DiffView, SettingsView, TerminalView } from '@/components/views';
+import { BottomTerminalDock } from './BottomTerminalDock';
 import { useSessionStore } from '@/stores/useSessionStore';
 import { useConfigStore } from '@/stores/useConfigStore';
 import { ContextUsageDisplay } from '@/components/ui/ContextUsageDisplay';
+import { ContextLimitActions } from '@/components/chat/ContextLimitActions';
 import { McpDropdown } from '@/components/mcp/McpDropdown';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,9 +26,12 @@ import { UsageProgressBar } from '@/components/sections/usage/UsageProgressBar';
 import { PaceIndicator } from '@/components/sections/usage/PaceIndicator';
 import { formatPercent, formatWindowLabel, QUOTA_PROVIDERS, calculatePace, calculateExpectedUsagePercent } from '@/lib/quota';
 import { useQuotaAutoRefresh, useQuotaStore } from '@/stores/useQuotaStore';
+import { useUIStore } from '@/stores/useUIStore';
+import { useProjectsStore } from '@/stores/useProjectsStore';
 import { updateDesktopSettings } from '@/lib/persistence';
+import { openSessionTab, requestScrollToMessage } from '@/lib/sessionLinks';
 import type { UsageWindow } from '@/types';
-import { RiAddLine, RiArrowLeftLine, RiRefreshLine, RiRobot2Line, RiSettings3Line, RiTimerLine } from '@remixicon/react';
+import { RiAddLine, RiArrowLeftLine, RiCheckLine, RiFolder3Line, RiRefreshLine, RiRobot2Line, RiSearchLine, RiSettings3Line, RiShieldKeyholeLine, RiTerminalBoxLine, RiTimerLine } from '@remixicon/react';
 
 const formatTime = (timestamp: number | null) => {
   if (!timestamp) return '-';
@@ -68,6 +76,27 @@ export const VSCodeLayout: React.FC = () => {
     return null;
   }, []);
 
+  // Set when the editor panel was opened from a deep link to a specific message
+  const initialMessageId = React.useMemo<string | null>(() => {
+    const configured =
+      typeof window !== 'undefined'
+        ? (window as unknown as { __VSCODE_CONFIG__?: { initialMessageId?: unknown } }).__VSCODE_CONFIG__?.initialMessageId
+        : null;
+    return typeof configured === 'string' && configured.trim().length > 0 ? configured.trim() : null;
+  }, []);
+
+  // Tab and diff file requested by a deep link (`tab=diff&file=…`)
+  const initialView = React.useMemo<{ tab: string | null; file: string | null }>(() => {
+    const config =
+      typeof window !== 'undefined'
+        ? (window as unknown as { __VSCODE_CONFIG__?: { initialTab?: unknown; initialFile?: unknown } }).__VSCODE_CONFIG__
+        : undefined;
+    return {
+      tab: typeof config?.initialTab === 'string' ? config.initialTab : null,
+      file: typeof config?.initialFile === 'string' && config.initialFile.trim().length > 0 ? config.initialFile.trim() : null,
+    };
+  }, []);
+
   const hasAppliedInitialSession = React.useRef(false);
 
   const bootDraftOpen = React.useMemo(() => {
@@ -202,6 +231,21 @@ export const VSCodeLayout: React.FC = () => {
     return () => window.removeEventListener('openchamber:connection-status', handler as EventListener);
   }, []);
 
+  // Restricted Mode: the extension keeps OpenCode stopped until the workspace is trusted
+  const [workspaceTrusted, setWorkspaceTrusted] = React.useState<boolean>(
+    () => (typeof window !== 'undefined'
+      ? (window as { __OPENCHAMBER_WORKSPACE_TRUSTED__?: boolean }).__OPENCHAMBER_WORKSPACE_TRUSTED__ !== false
+      : true)
+  );
+  React.useEffect(() => {
+    const handler = (event: Event) => {
+      const detail = (event as CustomEvent<{ trusted?: boolean }>).detail;
+      setWorkspaceTrusted(detail?.trusted !== false);
+    };
+    window.addEventListener('openchamber:workspace-trust', handler as EventListener);
+    return () => window.removeEventListener('openchamber:workspace-trust', handler as EventListener);
+  }, []);
+
   // Listen for navigation events from VS Code extension title bar buttons
   React.useEffect(() => {
     const handler = (event: Event) => {
@@ -307,8 +351,14 @@ export const VSCodeLayout: React.FC = () => {
     }
 
     hasAppliedInitialSession.current = true;
-    void useSessionStore.getState().setCurrentSession(initialSessionId);
-  }, [connectionStatus, hasInitializedOnce, initialSessionId, openNewSessionDraft, sessions, viewMode]);
+    void (async () => {
+      await useSessionStore.getState().setCurrentSession(initialSessionId);
+      openSessionTab(initialView.tab, initialView.file);
+      if (initialMessageId) {
+        requestScrollToMessage(initialMessageId);
+      }
+    })();
+  }, [connectionStatus, hasInitializedOnce, initialMessageId, initialSessionId, initialView, openNewSessionDraft, sessions, viewMode]);
 
   // Hydrate messages when viewing chat
   React.useEffect(() => {
@@ -354,6 +404,11 @@ export const VSCodeLayout: React.FC = () => {
     return () => observer.disconnect();
   }, []);
 
+  const isBottomTerminalOpen = useUIStore((state) => state.isBottomTerminalOpen);
+  const isDiffOpen = useUIStore((state) => state.activeMainTab === 'diff');
+  const setActiveMainTab = useUIStore((state) => state.setActiveMainTab);
+  const setSessionSearchOpen = useUIStore((state) => state.setSessionSearchOpen);
+  const openSessionSearch = React.useCallback(() => setSessionSearchOpen(true), [setSessionSearchOpen]);
   const usesMobileLayout = containerWidth > 0 && containerWidth < MOBILE_WIDTH_THRESHOLD;
   const usesExpandedLayout = containerWidth >= EXPANDED_LAYOUT_THRESHOLD;
 
@@ -365,21 +420,65 @@ export const VSCodeLayout: React.FC = () => {
     }
   }, [usesExpandedLayout, currentView, viewMode]);
 
+  const chatPane = (
+    <>
+      <div className="flex-1 overflow-hidden">
+        <ErrorBoundary>
+          {isDiffOpen ? (
+            // Opened from a `tab=diff` deep link; the chat stays one click away
+            <div className="flex h-full flex-col">
+              <div className="flex items-center gap-2 border-b border-border px-2 py-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1"
+                  onClick={() => setActiveMainTab('chat')}
+                >
+                  <RiArrowLeftLine className="h-4 w-4" />
+                  Back to chat
+                </Button>
+                <span className="typography-meta text-muted-foreground">Changes</span>
+              </div>
+              <div className="flex-1 min-h-0 overflow-hidden">
+                <DiffView />
+              </div>
+            </div>
+          ) : (
+            <ChatView />
+          )}
+        </ErrorBoundary>
+      </div>
+      <BottomTerminalDock isOpen={isBottomTerminalOpen} isMobile={usesMobileLayout}>
+        <ErrorBoundary>
+          <TerminalView />
+        </ErrorBoundary>
+      </BottomTerminalDock>
+    </>
+  );
+
+  if (!workspaceTrusted) {
+    return (
+      <div ref={containerRef} className="h-full w-full bg-background text-foreground flex flex-col">
+        <RestrictedModeState />
+      </div>
+    );
+  }
+
   return (
     <div ref={containerRef} className="h-full w-full bg-background text-foreground flex flex-col">
+      <SessionSearchDialog />
+      <ImportedSessionsDialog />
       {viewMode === 'editor' ? (
         // Editor mode: just chat, no sidebar
         <div className="flex flex-col h-full">
           <VSCodeHeader
             title={sessions.find((session) => session.id === currentSessionId)?.title || 'Chat'}
             showMcp
+            showTerminalToggle
             showContextUsage
           />
-          <div className="flex-1 overflow-hidden">
-            <ErrorBoundary>
-              <ChatView />
-            </ErrorBoundary>
-          </div>
+          {chatPane}
         </div>
       ) : currentView === 'settings' ? (
         // Settings view
@@ -408,14 +507,12 @@ export const VSCodeLayout: React.FC = () => {
               title={newSessionDraftOpen && !currentSessionId
                 ? 'New session'
                 : sessions.find((session) => session.id === currentSessionId)?.title || 'Chat'}
+              onSearch={openSessionSearch}
               showMcp
+              showTerminalToggle
               showContextUsage
             />
-            <div className="flex-1 overflow-hidden">
-              <ErrorBoundary>
-                <ChatView />
-              </ErrorBoundary>
-            </div>
+            {chatPane}
           </div>
         </div>
       ) : (
@@ -425,6 +522,7 @@ export const VSCodeLayout: React.FC = () => {
           <div className={cn('flex flex-col h-full', currentView !== 'sessions' && 'hidden')}>
             <VSCodeHeader
               title="Sessions"
+              onSearch={openSessionSearch}
             />
             <div className="flex-1 overflow-hidden">
               <SessionSidebar
@@ -445,14 +543,11 @@ export const VSCodeLayout: React.FC = () => {
               showBack
               onBack={handleBackToSessions}
               showMcp
+              showTerminalToggle
               showContextUsage
               showRateLimits
             />
-            <div className="flex-1 overflow-hidden">
-              <ErrorBoundary>
-                <ChatView />
-              </ErrorBoundary>
-            </div>
+            {chatPane}
           </div>
         </>
       )}
@@ -460,24 +555,101 @@ export const VSCodeLayout: React.FC = () => {
   );
 };
 
+const RestrictedModeState: React.FC = () => {
+  const runtimeApis = useRuntimeAPIs();
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center gap-3 px-6 text-center">
+      <RiShieldKeyholeLine className="h-8 w-8 text-muted-foreground" />
+      <div className="typography-ui-header font-semibold">Restricted Mode</div>
+      <p className="typography-meta text-muted-foreground max-w-[280px]">
+        This workspace is not trusted. The agent, shell commands, worktree setup scripts and skill installs stay disabled until you trust it.
+      </p>
+      <Button
+        size="sm"
+        onClick={() => {
+          void runtimeApis.vscode?.executeCommand('openchamber.trustWorkspace');
+        }}
+      >
+        Trust workspace
+      </Button>
+    </div>
+  );
+};
+
+// Multi-root workspaces: switch which workspace folder the chat and session list are scoped to
+const WorkspaceFolderPicker: React.FC = () => {
+  const projects = useProjectsStore((state) => state.projects);
+  const activeProjectId = useProjectsStore((state) => state.activeProjectId);
+  const setActiveProject = useProjectsStore((state) => state.setActiveProject);
+  const openNewSessionDraft = useSessionStore((state) => state.openNewSessionDraft);
+
+  if (projects.length < 2) {
+    return null;
+  }
+
+  const activeProject = projects.find((project) => project.id === activeProjectId) ?? projects[0];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className="inline-flex h-7 max-w-[40%] items-center gap-1 rounded-md px-1.5 text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          aria-label="Select workspace folder"
+          title={activeProject.path}
+        >
+          <RiFolder3Line className="h-4 w-4 flex-shrink-0" />
+          <span className="typography-meta truncate">{activeProject.label || activeProject.path}</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-[220px]">
+        <DropdownMenuLabel className="typography-ui-header font-semibold text-foreground">Workspace folder</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {projects.map((project) => (
+          <DropdownMenuItem
+            key={project.id}
+            onSelect={() => {
+              if (project.id === activeProject.id) return;
+              setActiveProject(project.id);
+              // Sessions belong to a folder; start fresh in the newly selected one
+              openNewSessionDraft({ directoryOverride: project.path });
+            }}
+            className="flex items-center gap-2"
+            title={project.path}
+          >
+            <RiCheckLine className={cn('h-4 w-4 flex-shrink-0', project.id === activeProject.id ? 'opacity-100' : 'opacity-0')} />
+            <span className="truncate">{project.label || project.path}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
 interface VSCodeHeaderProps {
   title: string;
   showBack?: boolean;
   onBack?: () => void;
   onNewSession?: () => void;
+  onSearch?: () => void;
   onSettings?: () => void;
   onAgentManager?: () => void;
   showMcp?: boolean;
+  showTerminalToggle?: boolean;
   showContextUsage?: boolean;
   showRateLimits?: boolean;
 }
 
-const VSCodeHeader: React.FC<VSCodeHeaderProps> = ({ title, showBack, onBack, onNewSession, onSettings, onAgentManager, showMcp, showContextUsage, showRateLimits }) => {
+const VSCodeHeader: React.FC<VSCodeHeaderProps> = ({ title, showBack, onBack, onNewSession, onSearch, onSettings, onAgentManager, showMcp, showTerminalToggle, showContextUsage, showRateLimits }) => {
   const { getCurrentModel } = useConfigStore();
   const getContextUsage = useSessionStore((state) => state.getContextUsage);
+  const currentSessionId = useSessionStore((state) => state.currentSessionId);
   const quotaResults = useQuotaStore((state) => state.results);
   const fetchAllQuotas = useQuotaStore((state) => state.fetchAllQuotas);
   const isQuotaLoading = useQuotaStore((state) => state.isLoading);
+  const isBottomTerminalOpen = useUIStore((state) => state.isBottomTerminalOpen);
+  const toggleBottomTerminal = useUIStore((state) => state.toggleBottomTerminal);
   const quotaLastUpdated = useQuotaStore((state) => state.lastUpdated);
   const quotaDisplayMode = useQuotaStore((state) => state.displayMode);
   const dropdownProviderIds = useQuotaStore((state) => state.dropdownProviderIds);
@@ -544,6 +716,17 @@ const VSCodeHeader: React.FC<VSCodeHeaderProps> = ({ title, showBack, onBack, on
         </button>
       )}
       <h1 className="text-sm font-medium truncate flex-1" title={title}>{title}</h1>
+      <WorkspaceFolderPicker />
+      {onSearch && (
+        <button
+          onClick={onSearch}
+          className="inline-flex h-9 w-9 items-center justify-center p-2 text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          aria-label="Search sessions"
+          title="Search sessions"
+        >
+          <RiSearchLine className="h-5 w-5" />
+        </button>
+      )}
       {onNewSession && (
         <button
           onClick={onNewSession}
@@ -567,6 +750,19 @@ const VSCodeHeader: React.FC<VSCodeHeaderProps> = ({ title, showBack, onBack, on
           headerIconButtonClass="inline-flex h-9 w-9 items-center justify-center p-2 text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
         />
       )}
+      {showTerminalToggle && (
+        <button
+          onClick={toggleBottomTerminal}
+          className={cn(
+            'inline-flex h-9 w-9 items-center justify-center p-2 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+            isBottomTerminalOpen ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+          )}
+          aria-label={isBottomTerminalOpen ? 'Close terminal' : 'Open terminal'}
+          aria-pressed={isBottomTerminalOpen}
+        >
+          <RiTerminalBoxLine className="h-5 w-5" />
+        </button>
+      )}
       {showRateLimits && (
         <DropdownMenu
           onOpenChange={(open) => {
@@ -726,6 +922,9 @@ const VSCodeHeader: React.FC<VSCodeHeaderProps> = ({ title, showBack, onBack, on
           size="compact"
         />
       )}
+      {showContextUsage && contextUsage && contextUsage.totalTokens > 0 && (
+        <ContextLimitActions sessionId={currentSessionId} percentage={contextUsage.percentage} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,301 @@
+import React from 'react';
+import { ScrollableOverlay } from '@/components/ui/ScrollableOverlay';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui';
+import { cn } from '@/lib/utils';
+import { saveExportFile } from '@/lib/sessionExport';
+import {
+  aggregateSpend,
+  createEmptyUsage,
+  addUsage,
+  getRangeStartDay,
+  getTopSessions,
+  getTotalTokens,
+  resolveProject,
+  spendRowsToCsv,
+  toDayKey,
+  type SpendGroupBy,
+  type SpendGroupRow,
+  type SpendUsage,
+} from '@/lib/spendAnalytics';
+import { useProjectsStore } from '@/stores/useProjectsStore';
+import { useSessionStore } from '@/stores/useSessionStore';
+import { useSpendAnalyticsStore } from '@/stores/useSpendAnalyticsStore';
+import { RiDownload2Line } from '@remixicon/react';
+
+type ChartMetric = 'cost' | 'tokens';
+
+const TOP_SESSIONS_LIMIT = 10;
+const TOP_GROUPS_IN_CHART = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const GROUP_LABELS: Record<SpendGroupBy, string> = {
+  day: 'Day',
+  project: 'Project',
+  agent: 'Agent',
+  model: 'Model',
+  provider: 'Provider',
+};
+
+const formatMoney = (value: number): string => {
+  if (!Number.isFinite(value) || value <= 0) return '$0.00';
+  if (value < 0.01) return `$${value.toFixed(4)}`;
+  return `$${value.toFixed(2)}`;
+};
+
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000_000) return `${(tokens / 1_000_000_000).toFixed(1)}B`;
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+};
+
+const getMetricValue = (usage: SpendUsage, metric: ChartMetric): number =>
+  metric === 'cost' ? usage.cost : getTotalTokens(usage);
+
+const formatMetric = (value: number, metric: ChartMetric): string =>
+  metric === 'cost' ? formatMoney(value) : formatTokens(value);
+
+// Days without activity still get a bar so the chart keeps a true time axis
+const fillMissingDays = (rows: SpendGroupRow[], startDay: string | null): SpendGroupRow[] => {
+  const firstDay = startDay ?? rows[0]?.key;
+  if (!firstDay) return rows;
+  const byDay = new Map(rows.map((row) => [row.key, row]));
+  const [year, month, day] = firstDay.split('-').map(Number);
+  const filled: SpendGroupRow[] = [];
+  const today = toDayKey(Date.now());
+  // Noon avoids skipping or repeating a day across DST changes
+  for (let time = new Date(year, month - 1, day, 12).getTime(); ; time += DAY_MS) {
+    const key = toDayKey(time);
+    filled.push(byDay.get(key) ?? { key, label: key, usage: createEmptyUsage(), sessionCount: 0 });
+    if (key >= today) break;
+  }
+  return filled;
+};
+
+export const AnalyticsPage: React.FC = () => {
+  const records = useSpendAnalyticsStore((state) => state.records);
+  const groupBy = useSpendAnalyticsStore((state) => state.groupBy);
+  const range = useSpendAnalyticsStore((state) => state.range);
+  const status = useSpendAnalyticsStore((state) => state.status);
+  const progress = useSpendAnalyticsStore((state) => state.progress);
+  const ensureAggregates = useSpendAnalyticsStore((state) => state.ensureAggregates);
+  const rebuildAggregates = useSpendAnalyticsStore((state) => state.rebuildAggregates);
+  const projects = useProjectsStore((state) => state.projects);
+  const sessionsLoading = useSessionStore((state) => state.isLoading);
+  // Re-aggregate when sessions are added or removed, not on every update of a running one
+  const sessionIdsKey = useSessionStore((state) => state.sessions.map((session) => session.id).join(','));
+  const [metric, setMetric] = React.useState<ChartMetric>('cost');
+
+  React.useEffect(() => {
+    if (sessionsLoading || !sessionIdsKey) return;
+    void ensureAggregates();
+  }, [ensureAggregates, sessionIdsKey, sessionsLoading]);
+
+  const startDay = React.useMemo(() => getRangeStartDay(range), [range]);
+  const recordList = React.useMemo(() => Object.values(records), [records]);
+
+  const rows = React.useMemo(
+    () => aggregateSpend(recordList, groupBy, startDay, projects),
+    [groupBy, projects, recordList, startDay]
+  );
+
+  const totals = React.useMemo(() => {
+    const usage = createEmptyUsage();
+    rows.forEach((row) => addUsage(usage, row.usage));
+    return usage;
+  }, [rows]);
+
+  const topSessions = React.useMemo(
+    () => getTopSessions(recordList, startDay, TOP_SESSIONS_LIMIT),
+    [recordList, startDay]
+  );
+
+  const chartRows = React.useMemo(
+    () => (groupBy === 'day' ? fillMissingDays(rows, startDay) : rows.slice(0, TOP_GROUPS_IN_CHART)),
+    [groupBy, rows, startDay]
+  );
+  const chartMax = Math.max(0, ...chartRows.map((row) => getMetricValue(row.usage, metric)));
+
+  const handleExportCsv = React.useCallback(async () => {
+    try {
+      const fileName = `spend-by-${groupBy}-${range}.csv`;
+      await saveExportFile(fileName, spendRowsToCsv(rows, groupBy), 'text/csv');
+    } catch (error) {
+      toast.error('Failed to export spend', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [groupBy, range, rows]);
+
+  const isLoading = status === 'loading';
+
+  return (
+    <ScrollableOverlay keyboardAvoid outerClassName="h-full" className="w-full">
+      <div className="mx-auto max-w-3xl space-y-6 p-6">
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <h1 className="typography-ui-header font-semibold text-lg">Spend by {GROUP_LABELS[groupBy].toLowerCase()}</h1>
+            <p className="typography-meta text-muted-foreground">
+              {isLoading
+                ? `Aggregating sessions ${progress.done}/${progress.total}...`
+                : `${recordList.length} sessions · cached locally, only changed sessions are re-read`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => void rebuildAggregates()} disabled={isLoading}>
+              Rebuild
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => void handleExportCsv()} disabled={rows.length === 0}>
+              <RiDownload2Line className="h-4 w-4" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+          {([
+            { label: 'Cost', value: formatMoney(totals.cost) },
+            { label: 'Input', value: formatTokens(totals.input) },
+            { label: 'Output', value: formatTokens(totals.output) },
+            { label: 'Reasoning', value: formatTokens(totals.reasoning) },
+            { label: 'Cache Read', value: formatTokens(totals.cacheRead) },
+            { label: 'Cache Write', value: formatTokens(totals.cacheWrite) },
+          ] as const).map((item) => (
+            <div key={item.label} className="rounded-lg bg-[var(--surface-elevated)]/70 px-3 py-2.5">
+              <div className="typography-micro text-muted-foreground/70">{item.label}</div>
+              <div className="mt-0.5 typography-ui-label tabular-nums text-foreground">{item.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="rounded-lg border border-[var(--interactive-border)] bg-[var(--surface-elevated)]/60 p-4 text-muted-foreground">
+            <p className="typography-body">{isLoading ? 'Reading session history...' : 'No spend recorded in this period.'}</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="typography-ui-header font-semibold text-foreground">
+                  {groupBy === 'day' ? 'Daily spend' : `Top ${GROUP_LABELS[groupBy].toLowerCase()}s`}
+                </h2>
+                <div className="flex items-center gap-1">
+                  {(['cost', 'tokens'] as const).map((value) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      className="h-7"
+                      variant={metric === value ? 'secondary' : 'ghost'}
+                      onClick={() => setMetric(value)}
+                    >
+                      {value === 'cost' ? 'Cost' : 'Tokens'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {groupBy === 'day' ? (
+                <div className="flex h-40 items-end gap-px rounded-lg bg-[var(--surface-elevated)]/70 px-3 pb-2 pt-3">
+                  {chartRows.map((row) => {
+                    const value = getMetricValue(row.usage, metric);
+                    return (
+                      <div
+                        key={row.key}
+                        className="flex h-full min-w-0 flex-1 items-end"
+                        title={`${row.label}: ${formatMetric(value, metric)}`}
+                      >
+                        <div
+                          className="w-full rounded-t-sm bg-[var(--primary-base)]"
+                          style={{ height: chartMax > 0 ? `${Math.max(value > 0 ? 2 : 0, (value / chartMax) * 100)}%` : 0 }}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  {chartRows.map((row) => {
+                    const value = getMetricValue(row.usage, metric);
+                    return (
+                      <div key={row.key} className="space-y-0.5">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <span className="typography-micro truncate text-foreground">{row.label}</span>
+                          <span className="typography-micro tabular-nums text-muted-foreground">{formatMetric(value, metric)}</span>
+                        </div>
+                        <div className="flex h-1 w-full overflow-hidden rounded-full bg-[var(--surface-subtle)]">
+                          <div
+                            className="rounded-full bg-[var(--primary-base)]"
+                            style={{ width: chartMax > 0 ? `${(value / chartMax) * 100}%` : 0 }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h2 className="typography-ui-header font-semibold text-foreground">Breakdown</h2>
+              <div className="overflow-x-auto rounded-lg bg-[var(--surface-elevated)]/70">
+                <table className="w-full typography-micro">
+                  <thead className="text-muted-foreground/70">
+                    <tr className="text-left">
+                      <th className="px-3 py-2 font-normal">{GROUP_LABELS[groupBy]}</th>
+                      <th className="px-3 py-2 text-right font-normal">Cost</th>
+                      <th className="px-3 py-2 text-right font-normal">Input</th>
+                      <th className="px-3 py-2 text-right font-normal">Output</th>
+                      <th className="px-3 py-2 text-right font-normal">Reasoning</th>
+                      <th className="px-3 py-2 text-right font-normal">Cache</th>
+                      <th className="px-3 py-2 text-right font-normal">Sessions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="tabular-nums text-foreground">
+                    {(groupBy === 'day' ? [...rows].reverse() : rows).map((row) => (
+                      <tr key={row.key} className="border-t border-[var(--surface-subtle)]">
+                        <td className="max-w-[14rem] truncate px-3 py-1.5">{row.label}</td>
+                        <td className="px-3 py-1.5 text-right">{formatMoney(row.usage.cost)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatTokens(row.usage.input)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatTokens(row.usage.output)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatTokens(row.usage.reasoning)}</td>
+                        <td className="px-3 py-1.5 text-right">{formatTokens(row.usage.cacheRead + row.usage.cacheWrite)}</td>
+                        <td className="px-3 py-1.5 text-right">{row.sessionCount}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h2 className="typography-ui-header font-semibold text-foreground">Most expensive sessions</h2>
+              <div className="space-y-1">
+                {topSessions.map((session, index) => (
+                  <div
+                    key={session.sessionId}
+                    className="flex items-center gap-3 rounded-lg bg-[var(--surface-elevated)]/70 px-3 py-2"
+                  >
+                    <span className="typography-micro w-4 flex-shrink-0 tabular-nums text-muted-foreground/70">{index + 1}</span>
+                    <div className="min-w-0 flex-1">
+                      <div className="typography-ui-label truncate text-foreground">{session.title}</div>
+                      <div className="typography-micro truncate text-muted-foreground/70">
+                        {resolveProject(session.directory, projects).label}
+                        {' · '}
+                        {formatTokens(getTotalTokens(session.usage))} tokens
+                      </div>
+                    </div>
+                    <span className={cn('typography-ui-label flex-shrink-0 tabular-nums', session.usage.cost > 0 ? 'text-foreground' : 'text-muted-foreground')}>
+                      {formatMoney(session.usage.cost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </ScrollableOverlay>
+  );
+};
@@ -0,0 +1,124 @@
+import React from 'react';
+import { ScrollableOverlay } from '@/components/ui/ScrollableOverlay';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDeviceInfo } from '@/lib/device';
+import { isVSCodeRuntime } from '@/lib/desktop';
+import { cn } from '@/lib/utils';
+import type { SpendGroupBy, SpendRange } from '@/lib/spendAnalytics';
+import { useSpendAnalyticsStore } from '@/stores/useSpendAnalyticsStore';
+import {
+  RiCalendar2Line,
+  RiCpuLine,
+  RiFolder3Line,
+  RiRefreshLine,
+  RiRobot2Line,
+  RiStackLine,
+  type RemixiconComponentType,
+} from '@remixicon/react';
+
+interface AnalyticsSidebarProps {
+  onItemSelect?: () => void;
+}
+
+const GROUP_OPTIONS: Array<{ id: SpendGroupBy; label: string; icon: RemixiconComponentType }> = [
+  { id: 'day', label: 'By day', icon: RiCalendar2Line },
+  { id: 'project', label: 'By project', icon: RiFolder3Line },
+  { id: 'agent', label: 'By agent', icon: RiRobot2Line },
+  { id: 'model', label: 'By model', icon: RiCpuLine },
+  { id: 'provider', label: 'By provider', icon: RiStackLine },
+];
+
+const RANGE_OPTIONS: Array<{ id: SpendRange; label: string }> = [
+  { id: '7d', label: '7 days' },
+  { id: '30d', label: '30 days' },
+  { id: '90d', label: '90 days' },
+  { id: 'all', label: 'All time' },
+];
+
+export const AnalyticsSidebar: React.FC<AnalyticsSidebarProps> = ({ onItemSelect }) => {
+  const groupBy = useSpendAnalyticsStore((state) => state.groupBy);
+  const range = useSpendAnalyticsStore((state) => state.range);
+  const status = useSpendAnalyticsStore((state) => state.status);
+  const setGroupBy = useSpendAnalyticsStore((state) => state.setGroupBy);
+  const setRange = useSpendAnalyticsStore((state) => state.setRange);
+  const ensureAggregates = useSpendAnalyticsStore((state) => state.ensureAggregates);
+  const { isMobile } = useDeviceInfo();
+
+  const isVSCode = React.useMemo(() => isVSCodeRuntime(), []);
+  const bgClass = isVSCode ? 'bg-background' : 'bg-sidebar';
+  const isLoading = status === 'loading';
+
+  const handleRangeChange = React.useCallback((value: string) => {
+    const option = RANGE_OPTIONS.find((entry) => entry.id === value);
+    if (option) {
+      setRange(option.id);
+    }
+  }, [setRange]);
+
+  return (
+    <div className={cn('flex h-full flex-col', bgClass)}>
+      <div className={cn('border-b px-3', isMobile ? 'mt-2 py-3' : 'py-3')}>
+        <div className="flex items-center justify-between gap-2">
+          <span className="typography-meta text-muted-foreground">Period</span>
+          <div className="flex items-center gap-2">
+            <Select value={range} onValueChange={handleRangeChange}>
+              <SelectTrigger size="sm" className="min-w-[100px]">
+                <SelectValue placeholder="Period" />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id} className="pr-2 [&>span:first-child]:hidden">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 -my-1 text-muted-foreground overflow-hidden"
+              onClick={() => void ensureAggregates()}
+              aria-label="Refresh spend"
+              title="Refresh spend"
+              disabled={isLoading}
+            >
+              <RiRefreshLine className={cn('size-4', isLoading && 'animate-spin')} />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ScrollableOverlay outerClassName="flex-1 min-h-0" className="space-y-1 px-3 py-2 overflow-x-hidden">
+        {GROUP_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          const isSelected = option.id === groupBy;
+          return (
+            <div
+              key={option.id}
+              className={cn(
+                'group relative flex items-center rounded-md px-1.5 py-1 transition-all duration-200',
+                isSelected ? 'bg-interactive-selection' : 'hover:bg-interactive-hover'
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  setGroupBy(option.id);
+                  onItemSelect?.();
+                }}
+                className="flex min-w-0 flex-1 items-center gap-2 rounded-sm text-left focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+              >
+                <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                <span className="typography-ui-label font-normal truncate flex-1 min-w-0 text-foreground">
+                  {option.label}
+                </span>
+              </button>
+            </div>
+          );
+        })}
+      </ScrollableOverlay>
+    </div>
+  );
+};
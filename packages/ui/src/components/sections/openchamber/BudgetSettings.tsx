@@ -0,0 +1,176 @@
+import React from 'react';
+import { RiInformationLine } from '@remixicon/react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { BudgetPolicy, ProjectDailyLimits, SessionBudgetLimits } from '@/lib/budgets';
+import { useBudgetStore } from '@/stores/useBudgetStore';
+
+const POLICY_OPTIONS: Array<{ value: BudgetPolicy; label: string; description: string }> = [
+  { value: 'warn', label: 'Warn', description: 'Show a warning and let the agent continue' },
+  { value: 'pause', label: 'Pause queue', description: 'Hold queued messages until you resume' },
+  { value: 'abort', label: 'Abort', description: 'Stop the running turn and hold queued messages' },
+];
+
+const SESSION_LIMIT_ROWS: Array<{ key: keyof SessionBudgetLimits; label: string; description: string; isCost?: boolean }> = [
+  { key: 'maxCost', label: 'Max cost', description: 'USD spent by one session', isCost: true },
+  { key: 'maxTokens', label: 'Max tokens', description: 'Input, output and reasoning tokens' },
+  { key: 'maxToolCalls', label: 'Max tool calls', description: 'Tool calls made by one session' },
+];
+
+const PROJECT_LIMIT_ROWS: Array<{ key: keyof ProjectDailyLimits; label: string; description: string; isCost?: boolean }> = [
+  { key: 'maxCost', label: 'Daily cost', description: 'USD per project per day', isCost: true },
+  { key: 'maxTokens', label: 'Daily tokens', description: 'Tokens per project per day' },
+];
+
+export const BudgetSettings: React.FC = () => {
+  const policy = useBudgetStore((state) => state.policy);
+  const sessionLimits = useBudgetStore((state) => state.sessionLimits);
+  const projectDailyLimits = useBudgetStore((state) => state.projectDailyLimits);
+  const setPolicy = useBudgetStore((state) => state.setPolicy);
+  const setSessionLimit = useBudgetStore((state) => state.setSessionLimit);
+  const setProjectDailyLimit = useBudgetStore((state) => state.setProjectDailyLimit);
+
+  const handlePolicyChange = React.useCallback((value: string) => {
+    const option = POLICY_OPTIONS.find((entry) => entry.value === value);
+    if (option) {
+      setPolicy(option.value);
+    }
+  }, [setPolicy]);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h3 className="typography-ui-header font-semibold text-foreground">Session Limits</h3>
+            <Tooltip delayDuration={1000}>
+              <TooltipTrigger asChild>
+                <RiInformationLine className="h-3.5 w-3.5 text-muted-foreground/60 cursor-help" />
+              </TooltipTrigger>
+              <TooltipContent sideOffset={8} className="max-w-xs">
+                Checked every time an assistant message updates.<br />
+                Leave a field empty for no limit.
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        </div>
+        <div className="space-y-3">
+          {SESSION_LIMIT_ROWS.map((row) => (
+            <LimitRow
+              key={row.key}
+              label={row.label}
+              description={row.description}
+              isCost={row.isCost}
+              value={sessionLimits[row.key]}
+              onChange={(value) => setSessionLimit(row.key, value)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-border/40 pt-6 space-y-4">
+        <div className="space-y-1">
+          <h3 className="typography-ui-header font-semibold text-foreground">Daily Caps</h3>
+          <p className="typography-meta text-muted-foreground">
+            Shared by every session in a project and reset at local midnight. Only spend seen by this app counts.
+          </p>
+        </div>
+        <div className="space-y-3">
+          {PROJECT_LIMIT_ROWS.map((row) => (
+            <LimitRow
+              key={row.key}
+              label={row.label}
+              description={row.description}
+              isCost={row.isCost}
+              value={projectDailyLimits[row.key]}
+              onChange={(value) => setProjectDailyLimit(row.key, value)}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-border/40 pt-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex flex-col">
+            <span className="typography-ui-header font-semibold text-foreground">Policy</span>
+            <span className="typography-meta text-muted-foreground">
+              {POLICY_OPTIONS.find((option) => option.value === policy)?.description}
+            </span>
+          </div>
+          <Select value={policy} onValueChange={handlePolicyChange}>
+            <SelectTrigger className="w-[160px]" aria-label="Budget policy">
+              <SelectValue placeholder="Policy" />
+            </SelectTrigger>
+            <SelectContent>
+              {POLICY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface LimitRowProps {
+  label: string;
+  description: string;
+  isCost?: boolean;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}
+
+const LimitRow: React.FC<LimitRowProps> = ({ label, description, isCost, value, onChange }) => {
+  const [draft, setDraft] = React.useState(value === null ? '' : String(value));
+
+  React.useEffect(() => {
+    setDraft(value === null ? '' : String(value));
+  }, [value]);
+
+  // Commit on blur so a half-typed number does not trip the limit mid-edit
+  const commit = React.useCallback(() => {
+    const trimmed = draft.trim();
+    if (trimmed === '') {
+      onChange(null);
+      return;
+    }
+    const parsed = Number(trimmed);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setDraft(value === null ? '' : String(value));
+      return;
+    }
+    onChange(isCost ? Math.round(parsed * 100) / 100 : Math.round(parsed));
+  }, [draft, value, isCost, onChange]);
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex flex-col">
+        <span className="typography-ui-label text-foreground">{label}</span>
+        <span className="typography-meta text-muted-foreground">{description}</span>
+      </div>
+      <div className="flex items-center gap-1">
+        {isCost && <span className="typography-meta text-muted-foreground">$</span>}
+        <input
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step={isCost ? 0.5 : 1}
+          value={draft}
+          placeholder="No limit"
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.currentTarget.blur();
+            }
+          }}
+          aria-label={label}
+          className="h-8 w-28 rounded-lg border border-border bg-background px-2 text-right typography-ui-label text-foreground placeholder:text-muted-foreground/60 focus:border-ring focus:outline-none focus:ring-2 focus:ring-ring/50"
+        />
+      </div>
+    </div>
+  );
+};
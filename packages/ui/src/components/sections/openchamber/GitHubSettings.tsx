@@ -121,6 +121,27 @@ export const GitHubSettings: React.FC = () => {
     }
   }, [openExternal, runtimeGitHub]);
 
+  const signInWithEditor = React.useCallback(async () => {
+    if (!runtimeGitHub?.authSignInWithEditor) return;
+    setIsBusy(true);
+    try {
+      stopPolling();
+      setFlow(null);
+      const result = await runtimeGitHub.authSignInWithEditor();
+      if (!result.connected) {
+        toast.error(result.error || 'GitHub sign-in was cancelled');
+        return;
+      }
+      toast.success('GitHub connected');
+      await refreshStatus(runtimeGitHub, { force: true });
+    } catch (error) {
+      console.error('Failed to sign in with VS Code GitHub account:', error);
+      toast.error('Failed to sign in with VS Code GitHub account');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshStatus, runtimeGitHub, stopPolling]);
+
   const pollOnce = React.useCallback(async (deviceCode: string) => {
     if (runtimeGitHub) {
       return runtimeGitHub.authComplete(deviceCode) as Promise<DeviceFlowCompleteResponse>;
@@ -250,6 +271,7 @@ export const GitHubSettings: React.FC = () => {
   const connected = Boolean(status?.connected);
   const user = status?.user;
   const accounts = status?.accounts ?? [];
+  const canSignInWithEditor = Boolean(runtimeGitHub?.authSignInWithEditor);
 
   return (
     <div className="space-y-6">
@@ -299,14 +321,26 @@ export const GitHubSettings: React.FC = () => {
       ) : (
         <div className="flex items-center justify-between gap-3 rounded-lg border bg-background/50 px-3 py-2">
           <div className="typography-ui-label text-foreground">Not connected</div>
-          <Button onClick={startConnect} disabled={isBusy}>
-            Connect
-          </Button>
+          <div className="flex items-center gap-2">
+            {canSignInWithEditor ? (
+              <Button variant="outline" onClick={signInWithEditor} disabled={isBusy}>
+                Use VS Code account
+              </Button>
+            ) : null}
+            <Button onClick={startConnect} disabled={isBusy}>
+              Connect
+            </Button>
+          </div>
         </div>
       )}
 
       {connected ? (
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-2">
+          {canSignInWithEditor ? (
+            <Button variant="ghost" onClick={signInWithEditor} disabled={isBusy}>
+              Add VS Code account
+            </Button>
+          ) : null}
           <Button variant="ghost" onClick={startConnect} disabled={isBusy}>
             Add account
           </Button>
@@ -117,7 +117,7 @@ export const NotificationSettings: React.FC = () => {
     }
   };
 
-  const canShowNotifications = isDesktop || (isBrowser && typeof Notification !== 'undefined' && Notification.permission === 'granted');
+  const canShowNotifications = isDesktop || isVSCode || (isBrowser && typeof Notification !== 'undefined' && Notification.permission === 'granted');
 
   const updateTemplate = (
     event: 'completion' | 'error' | 'question' | 'subtask',
@@ -737,7 +737,7 @@ export const NotificationSettings: React.FC = () => {
             Delivery
           </h3>
           <p className="typography-ui text-muted-foreground">
-            VS Code runtime handles notifications separately.
+            Notifications appear as native VS Code notifications with quick actions to open the session or answer permission requests.
           </p>
         </div>
       )}
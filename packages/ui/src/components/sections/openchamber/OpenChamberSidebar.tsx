@@ -8,7 +8,7 @@ import { AboutSettings } from './AboutSettings';
 import { reloadOpenCodeConfiguration } from '@/stores/useAgentsStore';
 import { cn } from '@/lib/utils';
 
-export type OpenChamberSection = 'visual' | 'chat' | 'shortcuts' | 'sessions' | 'git' | 'github' | 'notifications' | 'voice';
+export type OpenChamberSection = 'visual' | 'chat' | 'shortcuts' | 'sessions' | 'budgets' | 'git' | 'github' | 'notifications' | 'voice';
 
 interface OpenChamberSidebarProps {
   selectedSection: OpenChamberSection;
@@ -45,6 +45,11 @@ const OPENCHAMBER_SECTION_GROUPS: SectionGroup[] = [
     label: 'Sessions',
     items: ['Defaults', 'Zen Model', 'Retention'],
   },
+  {
+    id: 'budgets',
+    label: 'Budgets',
+    items: ['Session Limits', 'Daily Caps', 'Policy'],
+  },
   {
     id: 'git',
     label: 'Git',
@@ -767,11 +767,11 @@ export const OpenChamberVisualSettings: React.FC<OpenChamberVisualSettingsProps>
                             onChange={setPersistChatDraft}
                         />
                         <span className="typography-ui-header font-semibold text-foreground">
-                            Persist chat input draft
+                            Persist chat input drafts
                         </span>
                     </label>
                     <p className="typography-meta text-muted-foreground pl-5">
-                        Save your typed message across page reloads and session switches.
+                        Keep a separate unsent draft for each session, including attachments, across page reloads.
                     </p>
                 </div>
             )}
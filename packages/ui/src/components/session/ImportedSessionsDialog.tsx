@@ -0,0 +1,186 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui';
+import { SimpleMarkdownRenderer } from '@/components/chat/MarkdownRenderer';
+import { RiArchiveLine, RiDeleteBinLine, RiDownload2Line, RiUpload2Line } from '@remixicon/react';
+import { useUIStore } from '@/stores/useUIStore';
+import { useImportedSessionsStore } from '@/stores/useImportedSessionsStore';
+import { exportSessionData, renderMessageMarkdown, type SessionExportFormat } from '@/lib/sessionExport';
+import { cn } from '@/lib/utils';
+
+const formatDate = (timestamp: number | undefined) =>
+  typeof timestamp === 'number' && timestamp > 0 ? new Date(timestamp).toLocaleString() : '';
+
+export const ImportedSessionsDialog: React.FC = () => {
+  const isOpen = useUIStore((state) => state.isImportedSessionsOpen);
+  const setOpen = useUIStore((state) => state.setImportedSessionsOpen);
+
+  const imports = useImportedSessionsStore((state) => state.imports);
+  const isLoaded = useImportedSessionsStore((state) => state.isLoaded);
+  const loadImports = useImportedSessionsStore((state) => state.loadImports);
+  const importFile = useImportedSessionsStore((state) => state.importFile);
+  const removeImport = useImportedSessionsStore((state) => state.removeImport);
+
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (isOpen && !isLoaded) {
+      void loadImports();
+    }
+  }, [isLoaded, isOpen, loadImports]);
+
+  const selected = imports.find((record) => record.id === selectedId) ?? imports[0] ?? null;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const record = await importFile(file);
+      setSelectedId(record.id);
+      toast.success('Session imported', { description: record.data.session.title || file.name });
+    } catch (error) {
+      toast.error('Import failed', { description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const handleExport = async (format: SessionExportFormat) => {
+    if (!selected) return;
+    try {
+      await exportSessionData(selected.data, format);
+    } catch (error) {
+      toast.error('Export failed', { description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogContent className="max-w-5xl h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RiArchiveLine className="h-5 w-5" />
+            Imported Sessions
+          </DialogTitle>
+          <DialogDescription>
+            Read-only archives restored from JSON session exports
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <RiUpload2Line className="h-4 w-4" />
+            Import JSON export…
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        <div className="flex flex-1 min-h-0 gap-3">
+          <div className="w-60 flex-shrink-0 overflow-y-auto border-r border-border pr-2">
+            {imports.length === 0 ? (
+              <div className="py-8 text-center typography-meta text-muted-foreground">
+                {isLoaded ? 'No imported sessions' : 'Loading…'}
+              </div>
+            ) : (
+              imports.map((record) => (
+                <div
+                  key={record.id}
+                  className={cn(
+                    'group flex items-start gap-1 rounded px-2 py-1.5 cursor-pointer transition-colors',
+                    record.id === selected?.id ? 'bg-interactive-selection' : 'hover:bg-interactive-hover/30'
+                  )}
+                  onClick={() => setSelectedId(record.id)}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate typography-ui-label text-foreground">
+                      {record.data.session.title || 'Untitled Session'}
+                    </div>
+                    <div className="typography-micro text-muted-foreground">
+                      {record.data.messages.length} messages · imported {new Date(record.importedAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    aria-label="Remove imported session"
+                    className="h-5 w-5 flex-shrink-0 items-center justify-center text-muted-foreground hover:text-foreground hidden group-hover:flex"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      void removeImport(record.id);
+                    }}
+                  >
+                    <RiDeleteBinLine className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selected ? (
+              <>
+                <div className="flex flex-wrap items-center gap-2 pb-2 border-b border-border">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate typography-ui-header font-semibold">
+                        {selected.data.session.title || 'Untitled Session'}
+                      </span>
+                      <span className="flex-shrink-0 rounded bg-muted px-1.5 typography-micro text-muted-foreground">
+                        Read-only
+                      </span>
+                    </div>
+                    <div className="truncate typography-meta text-muted-foreground">
+                      {[selected.data.session.directory, `exported ${formatDate(selected.data.exportedAt)}`].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => handleExport('markdown')}>
+                    <RiDownload2Line className="h-4 w-4" />
+                    Markdown
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleExport('html')}>
+                    <RiDownload2Line className="h-4 w-4" />
+                    HTML
+                  </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto py-2 pr-2 space-y-4">
+                  {selected.data.todos.length > 0 && (
+                    <SimpleMarkdownRenderer
+                      content={`**Todos**\n\n${selected.data.todos.map((todo) => `- ${todo.status === 'completed' ? '[x]' : '[ ]'} ${todo.content}`).join('\n')}`}
+                    />
+                  )}
+                  {selected.data.messages.map((message) => (
+                    <div
+                      key={message.info.id}
+                      className={cn(
+                        'rounded-lg px-3 py-2',
+                        message.info.role === 'user' && 'bg-[var(--surface-elevated)]'
+                      )}
+                    >
+                      <SimpleMarkdownRenderer content={renderMessageMarkdown(message)} />
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="flex flex-1 items-center justify-center typography-meta text-muted-foreground">
+                Import a JSON session export to view it here
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,405 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RiChatAi3Line, RiLoader4Line, RiSearchLine } from '@remixicon/react';
+import { useUIStore } from '@/stores/useUIStore';
+import { useSessionStore } from '@/stores/useSessionStore';
+import { useProjectsStore } from '@/stores/useProjectsStore';
+import { useDirectoryStore } from '@/stores/useDirectoryStore';
+import { useSessionSearchStore } from '@/stores/useSessionSearchStore';
+import {
+  searchSessionIndex,
+  type SessionSearchHit,
+  type SessionSearchKind,
+  type SessionSearchResult,
+} from '@/lib/sessionSearch';
+import { requestScrollToMessage } from '@/lib/sessionLinks';
+import { formatDirectoryName, cn } from '@/lib/utils';
+
+const ALL = '__all__';
+const SEARCH_DEBOUNCE_MS = 150;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const KIND_LABELS: Record<SessionSearchKind, string> = {
+  title: 'Title',
+  user: 'Prompt',
+  assistant: 'Reply',
+  tool: 'Tool',
+};
+
+const normalizePath = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const normalized = value.replace(/\\/g, '/');
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+};
+
+const isWithin = (directory: string, root: string) => directory === root || directory.startsWith(`${root}/`);
+
+// Parse a yyyy-mm-dd date input as local midnight
+const parseDateInput = (value: string): number | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day).getTime();
+};
+
+function formatRelativeTime(timestamp: number): string {
+  if (!timestamp) return '';
+  const diffMins = Math.floor((Date.now() - timestamp) / 60000);
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
+
+const HighlightedSnippet: React.FC<{ hit: SessionSearchHit }> = ({ hit }) => {
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  hit.highlights.forEach(([start, end], index) => {
+    if (start > cursor) {
+      segments.push(hit.snippet.slice(cursor, start));
+    }
+    segments.push(
+      <mark key={index} className="rounded-sm bg-primary/20 px-0.5 text-foreground">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < hit.snippet.length) {
+    segments.push(hit.snippet.slice(cursor));
+  }
+  return <>{segments}</>;
+};
+
+type SearchTarget = { result: SessionSearchResult; hit: SessionSearchHit | null };
+
+export const SessionSearchDialog: React.FC = () => {
+  const isOpen = useUIStore((state) => state.isSessionSearchOpen);
+  const setOpen = useUIStore((state) => state.setSessionSearchOpen);
+  const setActiveMainTab = useUIStore((state) => state.setActiveMainTab);
+
+  const projects = useProjectsStore((state) => state.projects);
+  const activeProjectId = useProjectsStore((state) => state.activeProjectId);
+  const setActiveProjectIdOnly = useProjectsStore((state) => state.setActiveProjectIdOnly);
+  const availableWorktreesByProject = useSessionStore((state) => state.availableWorktreesByProject);
+  const setCurrentSession = useSessionStore((state) => state.setCurrentSession);
+
+  const entries = useSessionSearchStore((state) => state.entries);
+  const version = useSessionSearchStore((state) => state.version);
+  const status = useSessionSearchStore((state) => state.status);
+  const progress = useSessionSearchStore((state) => state.progress);
+  const ensureIndex = useSessionSearchStore((state) => state.ensureIndex);
+
+  const [query, setQuery] = React.useState('');
+  const [debouncedQuery, setDebouncedQuery] = React.useState('');
+  const [projectId, setProjectId] = React.useState<string>(ALL);
+  const [agent, setAgent] = React.useState<string>(ALL);
+  const [model, setModel] = React.useState<string>(ALL);
+  const [fromDate, setFromDate] = React.useState('');
+  const [toDate, setToDate] = React.useState('');
+  const [hasEdits, setHasEdits] = React.useState(false);
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const listRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      void ensureIndex();
+    }
+  }, [ensureIndex, isOpen]);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Each project also owns the sessions of its worktrees
+  const projectRoots = React.useMemo(() => {
+    const roots = new Map<string, string[]>();
+    for (const project of projects) {
+      const projectPath = normalizePath(project.path);
+      if (!projectPath) continue;
+      const worktrees = availableWorktreesByProject.get(projectPath) ?? [];
+      roots.set(project.id, [
+        projectPath,
+        ...worktrees.map((worktree) => normalizePath(worktree.path)).filter((path): path is string => Boolean(path)),
+      ]);
+    }
+    return roots;
+  }, [availableWorktreesByProject, projects]);
+
+  const findProjectId = React.useCallback((directory: string | null) => {
+    const normalized = normalizePath(directory);
+    if (!normalized) return null;
+    for (const [id, roots] of projectRoots) {
+      if (roots.some((root) => isWithin(normalized, root))) {
+        return id;
+      }
+    }
+    return null;
+  }, [projectRoots]);
+
+  // Index entries are mutated in place; `version` is what signals a change
+  const { agentOptions, modelOptions } = React.useMemo(() => {
+    void version;
+    const agents = new Set<string>();
+    const models = new Set<string>();
+    for (const entry of entries.values()) {
+      entry.agents.forEach((name) => agents.add(name));
+      entry.models.forEach((name) => models.add(name));
+    }
+    return {
+      agentOptions: [...agents].sort((a, b) => a.localeCompare(b)),
+      modelOptions: [...models].sort((a, b) => a.localeCompare(b)),
+    };
+  }, [entries, version]);
+
+  const results = React.useMemo(() => {
+    void version;
+    const roots = projectId === ALL ? null : projectRoots.get(projectId) ?? [];
+    const from = parseDateInput(fromDate);
+    const to = parseDateInput(toDate);
+    return searchSessionIndex(entries.values(), debouncedQuery, {
+      matchesDirectory: roots
+        ? (directory) => {
+          const normalized = normalizePath(directory);
+          return Boolean(normalized && roots.some((root) => isWithin(normalized, root)));
+        }
+        : null,
+      from,
+      to: to === null ? null : to + DAY_MS - 1,
+      agent: agent === ALL ? null : agent,
+      model: model === ALL ? null : model,
+      hasEdits,
+    });
+  }, [agent, debouncedQuery, entries, fromDate, hasEdits, model, projectId, projectRoots, toDate, version]);
+
+  const targets = React.useMemo(() => results.flatMap<SearchTarget>((result) => (
+    result.hits.length > 0
+      ? result.hits.map((hit) => ({ result, hit }))
+      : [{ result, hit: null }]
+  )), [results]);
+
+  React.useEffect(() => {
+    setActiveIndex(0);
+  }, [targets]);
+
+  React.useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-search-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const openTarget = React.useCallback((target: SearchTarget) => {
+    const { result, hit } = target;
+    const targetProjectId = findProjectId(result.directory);
+    if (targetProjectId && targetProjectId !== activeProjectId) {
+      setActiveProjectIdOnly(targetProjectId);
+    }
+    const currentDirectory = useDirectoryStore.getState().currentDirectory;
+    if (result.directory && normalizePath(result.directory) !== normalizePath(currentDirectory)) {
+      useDirectoryStore.getState().setDirectory(result.directory, { showOverlay: false });
+    }
+
+    setActiveMainTab('chat');
+    if (useSessionStore.getState().currentSessionId !== result.sessionId) {
+      void setCurrentSession(result.sessionId);
+    }
+    if (hit?.messageId) {
+      requestScrollToMessage(hit.messageId);
+    }
+    setOpen(false);
+  }, [activeProjectId, findProjectId, setActiveMainTab, setActiveProjectIdOnly, setCurrentSession, setOpen]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, Math.max(0, targets.length - 1)));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter') {
+      const target = targets[activeIndex];
+      if (target) {
+        event.preventDefault();
+        openTarget(target);
+      }
+    }
+  };
+
+  const projectLabel = React.useCallback((directory: string | null) => {
+    const id = findProjectId(directory);
+    const project = id ? projects.find((entry) => entry.id === id) : null;
+    return project?.label || formatDirectoryName(project?.path ?? directory);
+  }, [findProjectId, projects]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogContent className="max-w-3xl max-h-[75vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RiSearchLine className="h-5 w-5" />
+            Search Sessions
+          </DialogTitle>
+          <DialogDescription>
+            Search titles, prompts, replies and tool inputs across all projects
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative mt-2">
+          <RiSearchLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder='Search sessions... (use "quotes" for phrases)'
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            className="pl-9 w-full"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger size="sm" className="w-auto max-w-[12rem]">
+              <SelectValue placeholder="Project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.label || formatDirectoryName(project.path)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={agent} onValueChange={setAgent}>
+            <SelectTrigger size="sm" className="w-auto max-w-[10rem]">
+              <SelectValue placeholder="Agent" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any agent</SelectItem>
+              {agentOptions.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={model} onValueChange={setModel}>
+            <SelectTrigger size="sm" className="w-auto max-w-[14rem]">
+              <SelectValue placeholder="Model" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Any model</SelectItem>
+              {modelOptions.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1 typography-meta text-muted-foreground">
+            <Input
+              type="date"
+              aria-label="Updated from"
+              value={fromDate}
+              onChange={(event) => setFromDate(event.target.value)}
+              className="h-7 w-[8.5rem] px-2 typography-meta"
+            />
+            <span>–</span>
+            <Input
+              type="date"
+              aria-label="Updated until"
+              value={toDate}
+              onChange={(event) => setToDate(event.target.value)}
+              className="h-7 w-[8.5rem] px-2 typography-meta"
+            />
+          </div>
+
+          <label className="flex items-center gap-1.5 typography-meta text-muted-foreground cursor-pointer">
+            <Checkbox checked={hasEdits} onChange={setHasEdits} ariaLabel="Only sessions with file edits" />
+            <span>Has edits</span>
+          </label>
+        </div>
+
+        {status === 'indexing' && (
+          <div className="flex items-center gap-2 typography-meta text-muted-foreground">
+            <RiLoader4Line className="h-3.5 w-3.5 animate-spin" />
+            <span>Indexing sessions… {progress.done}/{progress.total}</span>
+          </div>
+        )}
+
+        <div ref={listRef} className="flex-1 min-h-0 overflow-y-auto">
+          {results.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              {status === 'indexing' ? 'Indexing…' : debouncedQuery.trim() ? 'No matching sessions' : 'No sessions'}
+            </div>
+          ) : (
+            results.map((result) => {
+              const sessionTargets = result.hits.length > 0 ? result.hits : [null];
+              const firstIndex = targets.findIndex((target) => target.result === result);
+              return (
+                <div key={result.sessionId} className="py-1.5">
+                  <div className="flex items-center gap-2 px-2">
+                    <RiChatAi3Line className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="flex-1 min-w-0 truncate typography-ui-label text-foreground">
+                      {result.title || 'Untitled Session'}
+                    </span>
+                    <span className="flex-shrink-0 typography-meta text-muted-foreground">
+                      {projectLabel(result.directory)} · {formatRelativeTime(result.updated)}
+                    </span>
+                  </div>
+                  {sessionTargets.map((hit, offset) => {
+                    const index = firstIndex + offset;
+                    return (
+                      <button
+                        key={hit?.documentId ?? 'session'}
+                        type="button"
+                        data-search-index={index}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => openTarget({ result, hit })}
+                        className={cn(
+                          'flex w-full items-start gap-2 rounded px-2 py-1 pl-8 text-left transition-colors',
+                          index === activeIndex ? 'bg-interactive-selection' : 'hover:bg-interactive-hover/30'
+                        )}
+                      >
+                        {hit ? (
+                          <>
+                            <span className="mt-0.5 flex-shrink-0 rounded bg-muted px-1 typography-micro text-muted-foreground">
+                              {KIND_LABELS[hit.kind]}
+                            </span>
+                            <span className="min-w-0 flex-1 typography-small text-muted-foreground break-words line-clamp-2">
+                              <HighlightedSnippet hit={hit} />
+                            </span>
+                          </>
+                        ) : (
+                          <span className="typography-small text-muted-foreground">Open session</span>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
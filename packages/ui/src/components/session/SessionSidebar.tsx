@@ -1,7 +1,10 @@
 import React from 'react';
 import type { Session } from '@opencode-ai/sdk/v2';
+import { useShallow } from 'zustand/react/shallow';
 import { toast } from '@/components/ui';
 import { copyTextToClipboard } from '@/lib/clipboard';
+import { copySessionLink } from '@/lib/sessionLinks';
+import { exportSession, type SessionExportFormat } from '@/lib/sessionExport';
 import { isDesktopLocalOriginActive, isDesktopShell, isTauriShell } from '@/lib/desktop';
 import {
   DndContext,
@@ -43,6 +46,7 @@ import {
   RiCheckLine,
   RiCloseLine,
   RiDeleteBinLine,
+  RiDownload2Line,
   RiErrorWarningLine,
   RiFileCopyLine,
   RiFolderAddLine,
@@ -52,13 +56,16 @@ import {
   RiGitRepositoryLine,
   RiNodeTree,
   RiStickyNoteLine,
+  RiLinkM,
   RiLinkUnlinkM,
 
   RiGithubLine,
 
   RiMore2Line,
   RiPencilAiLine,
+  RiPencilLine,
   RiPushpinLine,
+  RiSearchLine,
   RiShare2Line,
   RiShieldLine,
   RiUnpinLine,
@@ -86,6 +93,7 @@ import { GitHubPullRequestPickerDialog } from './GitHubPullRequestPickerDialog';
 import { ProjectNotesTodoPanel } from './ProjectNotesTodoPanel';
 import { BranchPickerDialog } from './BranchPickerDialog';
 import { useSessionFoldersStore } from '@/stores/useSessionFoldersStore';
+import { hasUnsentDraftText, useComposerDraftStore } from '@/stores/useComposerDraftStore';
 import { SessionFolderItem } from './SessionFolderItem';
 
 const ATTENTION_DIAMOND_INDICES = new Set([1, 3, 4, 5, 7]);
@@ -682,6 +690,7 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
 
   const setActiveMainTab = useUIStore((state) => state.setActiveMainTab);
   const deviceInfo = useDeviceInfo();
+  const setSessionSearchOpen = useUIStore((state) => state.setSessionSearchOpen);
   const setSessionSwitcherOpen = useUIStore((state) => state.setSessionSwitcherOpen);
   const openMultiRunLauncher = useUIStore((state) => state.openMultiRunLauncher);
   const notifyOnSubtasks = useUIStore((state) => state.notifyOnSubtasks);
@@ -713,6 +722,11 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
   const sessionMemoryState = useSessionStore((state) => state.sessionMemoryState);
   const sessionStatus = useSessionStore((state) => state.sessionStatus);
   const sessionAttentionStates = useSessionStore((state) => state.sessionAttentionStates);
+  // Shallow-compared id list so typing in the composer doesn't re-render the sidebar
+  const draftSessionIdList = useComposerDraftStore(
+    useShallow((state) => Object.keys(state.drafts).filter((key) => hasUnsentDraftText(state.drafts[key]))),
+  );
+  const draftSessionIds = React.useMemo(() => new Set(draftSessionIdList), [draftSessionIdList]);
   const permissions = useSessionStore((state) => state.permissions);
   const worktreeMetadata = useSessionStore((state) => state.worktreeMetadata);
   const availableWorktreesByProject = useSessionStore((state) => state.availableWorktreesByProject);
@@ -1083,6 +1097,24 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
       });
   }, []);
 
+  const handleCopySessionLink = React.useCallback((sessionId: string) => {
+    void copySessionLink(sessionId).then((copied) => {
+      if (copied) {
+        toast.success('Session link copied');
+      } else {
+        toast.error('Failed to copy link');
+      }
+    });
+  }, []);
+
+  const handleExportSession = React.useCallback((sessionId: string, format: SessionExportFormat) => {
+    void exportSession(sessionId, format).catch((error) => {
+      toast.error('Failed to export session', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, []);
+
   const handleUnshareSession = React.useCallback(
     async (sessionId: string) => {
       const result = await unshareSession(sessionId);
@@ -1852,6 +1884,8 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
       const sessionTitle = session.title || 'Untitled Session';
       const hasChildren = node.children.length > 0;
       const isPinnedSession = pinnedSessionIds.has(session.id);
+      // The active session's draft is already visible in the composer
+      const hasUnsentDraft = session.id !== currentSessionId && draftSessionIds.has(session.id);
       const isExpanded = expandedParents.has(session.id);
       const isSubtaskSession = Boolean((session as Session & { parentID?: string | null }).parentID);
       const rawNeedsAttention = sessionAttentionStates.get(session.id)?.needsAttention === true;
@@ -2028,6 +2062,12 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
                     {sessionTitle}
                   </div>
 
+                  {hasUnsentDraft ? (
+                    <span className="flex-shrink-0 text-muted-foreground" title="Unsent draft" aria-label="Unsent draft">
+                      <RiPencilLine className="h-3 w-3" />
+                    </span>
+                  ) : null}
+
                   {pendingPermissionCount > 0 ? (
                     <span
                       className="inline-flex items-center gap-1 rounded bg-destructive/10 px-1 py-0.5 text-[0.7rem] text-destructive flex-shrink-0"
@@ -2172,6 +2212,27 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
                         </DropdownMenuItem>
                       </>
                     )}
+                    <DropdownMenuItem onClick={() => handleCopySessionLink(session.id)} className="[&>svg]:mr-1">
+                      <RiLinkM className="mr-1 h-4 w-4" />
+                      Copy link to session
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="[&>svg]:mr-1">
+                        <RiDownload2Line className="h-4 w-4" />
+                        Export session
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="min-w-[160px]">
+                        <DropdownMenuItem onClick={() => handleExportSession(session.id, 'markdown')}>
+                          Markdown
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExportSession(session.id, 'json')}>
+                          JSON
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExportSession(session.id, 'html')}>
+                          HTML
+                        </DropdownMenuItem>
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
                     {/* Move to folder submenu */}
                     {sessionDirectory ? (() => {
                       const scopeFolders = getFoldersForScope(sessionDirectory);
@@ -2262,6 +2323,7 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
       sessionMemoryState,
       sessionStatus,
       sessionAttentionStates,
+      draftSessionIds,
       permissions,
       currentSessionId,
       expandedParents,
@@ -2276,6 +2338,8 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
       togglePinnedSession,
       handleShareSession,
       handleCopyShareUrl,
+      handleCopySessionLink,
+      handleExportSession,
       handleUnshareSession,
       handleDeleteSession,
       copiedSessionId,
@@ -2732,6 +2796,19 @@ export const SessionSidebar: React.FC<SessionSidebarProps> = ({
             <div className="-ml-1 flex h-8 items-center">
               {activeProjectForHeader ? (
               <div className="flex h-8 -translate-y-px items-center gap-1.5 rounded-md pl-0 pr-1">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    onClick={() => setSessionSearchOpen(true)}
+                    className={headerActionButtonClass}
+                    aria-label="Search sessions"
+                  >
+                    <RiSearchLine className="h-4.5 w-4.5" />
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent side="bottom" sideOffset={4}><p>Search sessions</p></TooltipContent>
+              </Tooltip>
               {stableActiveProjectIsRepo ? (
                 <>
               <Tooltip>
@@ -15,7 +15,7 @@ import { useDirectoryStore } from '@/stores/useDirectoryStore';
 import { useConfigStore } from '@/stores/useConfigStore';
 import { useThemeSystem } from '@/contexts/useThemeSystem';
 import { useDeviceInfo } from '@/lib/device';
-import { RiAddLine, RiChatAi3Line, RiCheckLine, RiCodeLine, RiComputerLine, RiGitBranchLine, RiLayoutLeftLine, RiLayoutRightLine, RiMoonLine, RiQuestionLine, RiSettings3Line, RiSunLine, RiTerminalBoxLine, RiTimeLine } from '@remixicon/react';
+import { RiAddLine, RiArchiveLine, RiChatAi3Line, RiCheckLine, RiCodeLine, RiComputerLine, RiGitBranchLine, RiLayoutLeftLine, RiLayoutRightLine, RiMoonLine, RiQuestionLine, RiSearchLine, RiSettings3Line, RiSunLine, RiTerminalBoxLine, RiTimeLine } from '@remixicon/react';
 import { createWorktreeSession } from '@/lib/worktreeSessionCreator';
 import { formatShortcutForDisplay, getEffectiveShortcutCombo } from '@/lib/shortcuts';
 
@@ -28,6 +28,8 @@ export const CommandPalette: React.FC = () => {
     setSettingsDialogOpen,
     setSessionSwitcherOpen,
     setTimelineDialogOpen,
+    setSessionSearchOpen,
+    setImportedSessionsOpen,
     toggleSidebar,
     toggleRightSidebar,
     setRightSidebarOpen,
@@ -107,6 +109,16 @@ export const CommandPalette: React.FC = () => {
     handleClose();
   };
 
+  const handleSearchSessions = () => {
+    setSessionSearchOpen(true);
+    handleClose();
+  };
+
+  const handleOpenImportedSessions = () => {
+    setImportedSessionsOpen(true);
+    handleClose();
+  };
+
   const handleOpenSettings = () => {
     setSettingsDialogOpen(true);
     handleClose();
@@ -229,6 +241,15 @@ export const CommandPalette: React.FC = () => {
             <span>Open Timeline</span>
             <CommandShortcut>{shortcut('open_timeline')}</CommandShortcut>
           </CommandItem>
+          <CommandItem onSelect={handleSearchSessions}>
+            <RiSearchLine className="mr-2 h-4 w-4" />
+            <span>Search Sessions</span>
+            <CommandShortcut>{shortcut('open_session_search')}</CommandShortcut>
+          </CommandItem>
+          <CommandItem onSelect={handleOpenImportedSessions}>
+            <RiArchiveLine className="mr-2 h-4 w-4" />
+            <span>Import Session / Imported Sessions</span>
+          </CommandItem>
           <CommandItem onSelect={handleOpenSettings}>
             <RiSettings3Line className="mr-2 h-4 w-4" />
             <span>Open Settings</span>
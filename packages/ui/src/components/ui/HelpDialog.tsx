@@ -20,6 +20,7 @@ import {
   RiLayoutRightLine,
   RiPaletteLine,
   RiQuestionLine,
+  RiSearchLine,
   RiSettings3Line,
   RiStackLine,
   RiText,
@@ -194,6 +195,12 @@ export const HelpDialog: React.FC = () => {
           icon: RiTimeLine,
           keys: '',
         },
+        {
+          id: 'open_session_search',
+          description: "Search Sessions",
+          icon: RiSearchLine,
+          keys: '',
+        },
         {
           id: 'toggle_services_menu',
           description: 'Toggle Services Menu',
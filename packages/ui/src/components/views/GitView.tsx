@@ -219,7 +219,7 @@ interface GitViewProps {
 }
 
 export const GitView: React.FC<GitViewProps> = ({ mode = 'full' }) => {
-  const { git } = useRuntimeAPIs();
+  const { git, runtime, editor } = useRuntimeAPIs();
   const currentDirectory = useEffectiveDirectory();
   const { currentSessionId, worktreeMetadata: worktreeMap } = useSessionStore();
   const worktreeMetadata = currentSessionId
@@ -483,6 +483,20 @@ export const GitView: React.FC<GitViewProps> = ({ mode = 'full' }) => {
     });
   }, []);
 
+  const handleOpenCommitFileDiff = React.useCallback((hash: string, file: CommitFileEntry) => {
+    if (!editor || !currentDirectory) {
+      return;
+    }
+    const fileName = file.path.split('/').pop() || file.path;
+    void editor
+      .openDiff(
+        { type: 'git', directory: currentDirectory, ref: `${hash}^`, path: file.path },
+        { type: 'git', directory: currentDirectory, ref: hash, path: file.path },
+        `${fileName} (${hash.slice(0, 8)})`
+      )
+      .catch(() => toast.error('Failed to open diff'));
+  }, [currentDirectory, editor]);
+
   const handleToggleCommit = React.useCallback((hash: string) => {
     setExpandedCommitHashes((prev) => {
       const next = new Set(prev);
@@ -1838,6 +1852,7 @@ export const GitView: React.FC<GitViewProps> = ({ mode = 'full' }) => {
               commitFilesMap={commitFilesMap}
               loadingCommitHashes={loadingCommitHashes}
               onCopyHash={handleCopyCommitHash}
+              onOpenFileDiff={runtime.isVSCode && editor ? handleOpenCommitFileDiff : undefined}
               showHeader={false}
             />
           </div>
@@ -27,6 +27,8 @@ import { ProvidersSidebar } from '@/components/sections/providers/ProvidersSideb
 import { ProvidersPage } from '@/components/sections/providers/ProvidersPage';
 import { UsageSidebar } from '@/components/sections/usage/UsageSidebar';
 import { UsagePage } from '@/components/sections/usage/UsagePage';
+import { AnalyticsSidebar } from '@/components/sections/analytics/AnalyticsSidebar';
+import { AnalyticsPage } from '@/components/sections/analytics/AnalyticsPage';
 import { GitIdentitiesSidebar } from '@/components/sections/git-identities/GitIdentitiesSidebar';
 import { GitIdentitiesPage } from '@/components/sections/git-identities/GitIdentitiesPage';
 import { OpenChamberPage } from '@/components/sections/openchamber/OpenChamberPage';
@@ -310,6 +312,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onClose, forceMobile
         return <ProvidersSidebar onItemSelect={handleMobileSidebarClick} />;
       case 'usage':
         return <UsageSidebar onItemSelect={handleMobileSidebarClick} />;
+      case 'analytics':
+        return <AnalyticsSidebar onItemSelect={handleMobileSidebarClick} />;
       case 'git-identities':
         return <GitIdentitiesSidebar onItemSelect={handleMobileSidebarClick} />;
       default:
@@ -331,6 +335,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({ onClose, forceMobile
         return <ProvidersPage />;
       case 'usage':
         return <UsagePage />;
+      case 'analytics':
+        return <AnalyticsPage />;
       case 'git-identities':
         return <GitIdentitiesPage />;
       case 'settings':
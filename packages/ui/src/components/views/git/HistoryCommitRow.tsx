@@ -12,6 +12,7 @@ interface HistoryCommitRowProps {
   files: CommitFileEntry[];
   isLoadingFiles: boolean;
   onCopyHash: (hash: string) => void;
+  onOpenFileDiff?: (hash: string, file: CommitFileEntry) => void;
 }
 
 function formatCommitDate(date: string) {
@@ -52,6 +53,7 @@ export const HistoryCommitRow: React.FC<HistoryCommitRowProps> = ({
   files,
   isLoadingFiles,
   onCopyHash,
+  onOpenFileDiff,
 }) => {
   return (
     <li>
@@ -130,9 +132,20 @@ export const HistoryCommitRow: React.FC<HistoryCommitRowProps> = ({
                   >
                     {file.changeType}
                   </span>
-                  <span className="truncate text-foreground min-w-0" title={file.path}>
-                    {file.path}
-                  </span>
+                  {onOpenFileDiff && !file.isBinary ? (
+                    <button
+                      type="button"
+                      className="truncate text-foreground min-w-0 text-left hover:underline"
+                      title={`Open diff for ${file.path}`}
+                      onClick={() => onOpenFileDiff(entry.hash, file)}
+                    >
+                      {file.path}
+                    </button>
+                  ) : (
+                    <span className="truncate text-foreground min-w-0" title={file.path}>
+                      {file.path}
+                    </span>
+                  )}
                   {!file.isBinary && (
                     <span className="shrink-0">
                       <span style={{ color: 'var(--status-success)' }}>
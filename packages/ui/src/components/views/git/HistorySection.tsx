@@ -32,6 +32,7 @@ interface HistorySectionProps {
   commitFilesMap: Map<string, CommitFileEntry[]>;
   loadingCommitHashes: Set<string>;
   onCopyHash: (hash: string) => void;
+  onOpenFileDiff?: (hash: string, file: CommitFileEntry) => void;
   showHeader?: boolean;
 }
 
@@ -45,6 +46,7 @@ export const HistorySection: React.FC<HistorySectionProps> = ({
   commitFilesMap,
   loadingCommitHashes,
   onCopyHash,
+  onOpenFileDiff,
   showHeader = true,
 }) => {
   const [isOpen, setIsOpen] = React.useState(true);
@@ -72,6 +74,7 @@ export const HistorySection: React.FC<HistorySectionProps> = ({
               files={commitFilesMap.get(entry.hash) ?? []}
               isLoadingFiles={loadingCommitHashes.has(entry.hash)}
               onCopyHash={onCopyHash}
+              onOpenFileDiff={onOpenFileDiff}
             />
           ))}
         </ul>
@@ -1,7 +1,7 @@
-import { RiBrainAi3Line, RiChatAi3Line, RiCommandLine, RiGitBranchLine, RiSettings3Line, RiStackLine, RiBookLine, RiBarChart2Line } from '@remixicon/react';
+import { RiBrainAi3Line, RiChatAi3Line, RiCommandLine, RiGitBranchLine, RiSettings3Line, RiStackLine, RiBookLine, RiBarChart2Line, RiMoneyDollarCircleLine } from '@remixicon/react';
 import type { ComponentType } from 'react';
 
-export type SidebarSection = 'sessions' | 'agents' | 'commands' | 'skills' | 'providers' | 'usage' | 'git-identities' | 'settings';
+export type SidebarSection = 'sessions' | 'agents' | 'commands' | 'skills' | 'providers' | 'usage' | 'analytics' | 'git-identities' | 'settings';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export type IconComponent = ComponentType<any>;
@@ -50,6 +50,12 @@ export const SIDEBAR_SECTIONS: SidebarSectionConfig[] = [
         description: 'Monitor API quota and usage across providers.',
         icon: RiBarChart2Line,
     },
+    {
+        id: 'analytics',
+        label: 'Spend',
+        description: 'Cost and token spend across sessions by day, project, agent and model.',
+        icon: RiMoneyDollarCircleLine,
+    },
     {
         id: 'git-identities',
         label: 'Git Identities',
@@ -13,6 +13,10 @@ import type { QuestionRequest } from '@/types/question';
 import { useProjectsStore } from '@/stores/useProjectsStore';
 import { streamDebugEnabled } from '@/stores/utils/streamDebug';
 import { handleTodoUpdatedEvent } from '@/stores/useTodoStore';
+import { handleSessionSearchEvent } from '@/stores/useSessionSearchStore';
+import { handleBudgetMessageEvent, handleBudgetToolPartEvent } from '@/stores/useBudgetStore';
+import { pruneComposerDrafts } from '@/stores/useComposerDraftStore';
+import { useSessionLineageStore } from '@/stores/useSessionLineageStore';
 import { useMcpStore } from '@/stores/useMcpStore';
 import { useContextStore } from '@/stores/contextStore';
 import { getRegisteredRuntimeAPIs } from '@/contexts/runtimeAPIRegistry';
@@ -630,6 +634,8 @@ export const useEventStream = () => {
       }
     }
 
+    handleSessionSearchEvent(event.type, props);
+
     switch (event.type) {
       case 'server.connected':
         checkConnection();
@@ -783,6 +789,9 @@ export const useEventStream = () => {
         const sessionId = resolvedSessionId;
         const messageId = resolvedMessageId;
 
+        // Before the trimmed-message check: tool calls count toward budgets whether or not the message is displayed
+        handleBudgetToolPartEvent(sessionId, messageId, part);
+
         lastMessageEventBySessionRef.current.set(sessionId, Date.now());
         const pendingTimer = pendingMessageStallTimersRef.current.get(sessionId);
         if (pendingTimer) {
@@ -1226,6 +1235,10 @@ export const useEventStream = () => {
           break;
         }
 
+        if ((messageExt as { role?: unknown }).role === 'assistant') {
+          handleBudgetMessageEvent(sessionId, message as unknown as Message);
+        }
+
         const existingMessage = getMessageFromStore(sessionId, messageId);
         const existingLen = computeTextLength(existingMessage?.parts || []);
         const existingStopMarker = (existingMessage?.info as { finish?: string } | undefined)?.finish === 'stop';
@@ -1401,6 +1414,8 @@ export const useEventStream = () => {
             : null;
         if (sessionId) {
           removeSessionFromStore(sessionId);
+          pruneComposerDrafts([sessionId]);
+          useSessionLineageStore.getState().removeSessions([sessionId]);
         }
         break;
       }
@@ -118,6 +118,13 @@ export const useKeyboardShortcuts = () => {
         return;
       }
 
+      if (eventMatchesShortcut(e, combo('open_session_search'))) {
+        e.preventDefault();
+        const { isSessionSearchOpen, setSessionSearchOpen } = useUIStore.getState();
+        setSessionSearchOpen(!isSessionSearchOpen);
+        return;
+      }
+
       if (eventMatchesShortcut(e, combo('open_settings'))) {
         e.preventDefault();
         const { isSettingsDialogOpen } = useUIStore.getState();
@@ -5,6 +5,7 @@ import { parseRoute, updateBrowserURL, hasRouteParams } from '@/lib/router';
 import type { RouteState, AppRouteState } from '@/lib/router';
 import type { SidebarSection } from '@/constants/sidebar';
 import type { MainTab } from '@/stores/useUIStore';
+import { requestScrollToMessage } from '@/lib/sessionLinks';
 
 /**
  * Check if running in VS Code webview context.
@@ -86,6 +87,11 @@ export function useRouter(): void {
         if (route.diffFile && (route.tab === 'diff' || !route.tab)) {
           navigateToDiff(route.diffFile);
         }
+
+        // 5. Scroll to a linked message once the chat has rendered it
+        if (route.messageId && (route.tab === 'chat' || !route.tab)) {
+          requestScrollToMessage(route.messageId);
+        }
       } finally {
         isApplyingRouteRef.current = false;
       }
@@ -272,6 +278,9 @@ export function navigateToRoute(route: Partial<RouteState>): void {
     if (route.diffFile) {
       useUIStore.getState().navigateToDiff(route.diffFile);
     }
+    if (route.messageId) {
+      requestScrollToMessage(route.messageId);
+    }
     return;
   }
 
@@ -292,6 +301,9 @@ export function navigateToRoute(route: Partial<RouteState>): void {
   if (route.diffFile) {
     params.set('file', route.diffFile);
   }
+  if (route.messageId) {
+    params.set('message', route.messageId);
+  }
 
   const search = params.toString();
   const url = search ? `${window.location.pathname}?${search}` : window.location.pathname;
@@ -311,6 +323,9 @@ export function navigateToRoute(route: Partial<RouteState>): void {
   if (route.diffFile) {
     useUIStore.getState().navigateToDiff(route.diffFile);
   }
+  if (route.messageId) {
+    requestScrollToMessage(route.messageId);
+  }
 }
 
 /**
@@ -585,9 +585,18 @@ export interface ToolsAPI {
   getAvailableTools(): Promise<string[]>;
 }
 
+/**
+ * One side of an editor diff: a file path on disk, in-memory content (e.g. from a tool part),
+ * or a file at a git ref. `path` names the file for display and syntax highlighting.
+ */
+export type EditorDiffSource =
+  | string
+  | { type: 'content'; content: string; path: string }
+  | { type: 'git'; directory: string; ref: string; path: string };
+
 export interface EditorAPI {
   openFile(path: string, line?: number, column?: number): Promise<void>;
-  openDiff(original: string, modified: string, label?: string): Promise<void>;
+  openDiff(original: EditorDiffSource, modified: EditorDiffSource, label?: string): Promise<void>;
 }
 
 export interface VSCodeAPI {
@@ -883,6 +892,8 @@ export interface GitHubAPI {
   authComplete(deviceCode: string): Promise<GitHubDeviceFlowComplete>;
   authDisconnect(): Promise<{ removed: boolean }>;
   authActivate(accountId: string): Promise<GitHubAuthStatus>;
+  /** Sign in with the account already known to the host editor (VS Code's GitHub auth provider). */
+  authSignInWithEditor?(): Promise<GitHubDeviceFlowComplete>;
   me?(): Promise<GitHubUserSummary>;
 
   prStatus(directory: string, branch: string, remote?: string): Promise<GitHubPullRequestStatus>;
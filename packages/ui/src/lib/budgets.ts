@@ -0,0 +1,95 @@
+/**
+ * Spend guardrails. Session limits cover the whole session; project caps cover one calendar day
+ * across every session in the project. A null limit is not enforced.
+ */
+
+// 'warn' only notifies, 'pause' stops queued messages from auto-sending, 'abort' stops the running turn as well
+export type BudgetPolicy = 'warn' | 'pause' | 'abort';
+
+export interface SessionBudgetLimits {
+  maxCost: number | null;
+  maxTokens: number | null;
+  maxToolCalls: number | null;
+}
+
+export interface ProjectDailyLimits {
+  maxCost: number | null;
+  maxTokens: number | null;
+}
+
+export interface BudgetUsage {
+  cost: number;
+  // input + output + reasoning; cache reads are excluded since a long session re-reads its context every turn
+  tokens: number;
+  toolCalls: number;
+}
+
+export type BudgetLimitKind =
+  | 'sessionCost'
+  | 'sessionTokens'
+  | 'sessionToolCalls'
+  | 'projectDailyCost'
+  | 'projectDailyTokens';
+
+export interface BudgetBreach {
+  kind: BudgetLimitKind;
+  limit: number;
+  value: number;
+  policy: BudgetPolicy;
+  // Set for project caps so raising the limit applies to the right project
+  projectKey?: string;
+  projectLabel?: string;
+  at: number;
+}
+
+export const DEFAULT_SESSION_BUDGET_LIMITS: SessionBudgetLimits = { maxCost: null, maxTokens: null, maxToolCalls: null };
+export const DEFAULT_PROJECT_DAILY_LIMITS: ProjectDailyLimits = { maxCost: null, maxTokens: null };
+
+export const BUDGET_LIMIT_LABELS: Record<BudgetLimitKind, string> = {
+  sessionCost: 'session cost',
+  sessionTokens: 'session tokens',
+  sessionToolCalls: 'session tool calls',
+  projectDailyCost: 'daily project cost',
+  projectDailyTokens: 'daily project tokens',
+};
+
+export const isCostLimit = (kind: BudgetLimitKind): boolean => kind === 'sessionCost' || kind === 'projectDailyCost';
+
+export const formatBudgetValue = (kind: BudgetLimitKind, value: number): string => {
+  if (isCostLimit(kind)) {
+    return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+  }
+  return Math.round(value).toLocaleString();
+};
+
+const exceeds = (value: number, limit: number | null): limit is number =>
+  typeof limit === 'number' && limit > 0 && value >= limit;
+
+export function findSessionBreach(
+  usage: BudgetUsage,
+  limits: SessionBudgetLimits
+): Pick<BudgetBreach, 'kind' | 'limit' | 'value'> | null {
+  if (exceeds(usage.cost, limits.maxCost)) return { kind: 'sessionCost', limit: limits.maxCost, value: usage.cost };
+  if (exceeds(usage.tokens, limits.maxTokens)) return { kind: 'sessionTokens', limit: limits.maxTokens, value: usage.tokens };
+  if (exceeds(usage.toolCalls, limits.maxToolCalls)) {
+    return { kind: 'sessionToolCalls', limit: limits.maxToolCalls, value: usage.toolCalls };
+  }
+  return null;
+}
+
+export function findProjectDailyBreach(
+  usage: Pick<BudgetUsage, 'cost' | 'tokens'>,
+  limits: ProjectDailyLimits
+): Pick<BudgetBreach, 'kind' | 'limit' | 'value'> | null {
+  if (exceeds(usage.cost, limits.maxCost)) return { kind: 'projectDailyCost', limit: limits.maxCost, value: usage.cost };
+  if (exceeds(usage.tokens, limits.maxTokens)) {
+    return { kind: 'projectDailyTokens', limit: limits.maxTokens, value: usage.tokens };
+  }
+  return null;
+}
+
+/** Doubling keeps one click enough to get past the breach without silently removing the guardrail. */
+export const suggestRaisedLimit = (breach: Pick<BudgetBreach, 'kind' | 'limit' | 'value'>): number => {
+  const raised = Math.max(breach.limit * 2, breach.value * 1.5);
+  return isCostLimit(breach.kind) ? Math.ceil(raised * 100) / 100 : Math.ceil(raised);
+};
@@ -0,0 +1,83 @@
+import type { SessionExport } from '@/lib/sessionExport';
+
+const DB_NAME = 'openchamber-imported-sessions';
+const STORE_NAME = 'imports';
+const DB_VERSION = 1;
+
+export type ImportedSessionRecord = {
+  id: string;
+  importedAt: number;
+  data: SessionExport;
+};
+
+// Transcripts are too large for localStorage; without IndexedDB imports only last for the page lifetime
+const memoryFallback = new Map<string, ImportedSessionRecord>();
+
+const hasIndexedDbSupport = () => typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!hasIndexedDbSupport()) {
+    return Promise.reject(new Error('IndexedDB not supported'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onerror = () => {
+      reject(request.error ?? new Error('Failed to open IndexedDB'));
+    };
+
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+  });
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listImportedSessions = async (): Promise<ImportedSessionRecord[]> => {
+  let records: ImportedSessionRecord[];
+  try {
+    records = await runTransaction<ImportedSessionRecord[]>('readonly', (store) => store.getAll());
+  } catch {
+    records = Array.from(memoryFallback.values());
+  }
+  return records.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const saveImportedSession = async (record: ImportedSessionRecord): Promise<void> => {
+  try {
+    await runTransaction('readwrite', (store) => store.put(record));
+  } catch {
+    memoryFallback.set(record.id, record);
+  }
+};
+
+export const deleteImportedSession = async (id: string): Promise<void> => {
+  memoryFallback.delete(id);
+  try {
+    await runTransaction('readwrite', (store) => store.delete(id));
+  } catch { /* ignored */ }
+};
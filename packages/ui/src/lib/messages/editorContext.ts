@@ -0,0 +1,45 @@
+import type { EditorContextActiveFile, EditorContextSnapshot } from '@/stores/useEditorContextStore';
+
+/**
+ * Short `file:line` label for the active editor, using the selection range when there is one
+ */
+export function getEditorContextLabel(file: EditorContextActiveFile): string {
+  const name = file.relativePath.split('/').pop() || file.relativePath;
+  if (file.selection) {
+    const { startLine, endLine } = file.selection;
+    return startLine === endLine ? `${name}:${startLine}` : `${name}:${startLine}-${endLine}`;
+  }
+  return `${name}:${file.cursorLine}`;
+}
+
+/**
+ * Format the editor snapshot as a context block sent alongside the next prompt.
+ * Returns null when there is no active workspace file to describe.
+ */
+export function formatEditorContext(snapshot: EditorContextSnapshot): string | null {
+  const file = snapshot.activeFile;
+  if (!snapshot.enabled || !file) return null;
+
+  const lines = ['Current editor context:', `- Active file: \`${file.relativePath}\` (cursor at line ${file.cursorLine})`];
+  if (file.visibleRange) {
+    lines.push(`- Visible lines: ${file.visibleRange.startLine}-${file.visibleRange.endLine}`);
+  }
+
+  if (file.selection) {
+    const { startLine, endLine, text, truncated } = file.selection;
+    lines.push(`- Selection: lines ${startLine}-${endLine}`);
+    if (snapshot.includeContent && text) {
+      lines.push(`\`\`\`${file.languageId}\n${text}\n\`\`\``);
+      if (truncated) {
+        lines.push('(selection truncated)');
+      }
+    }
+  }
+
+  const others = snapshot.openEditors.filter((entry) => entry.path !== file.path);
+  if (others.length > 0) {
+    lines.push(`- Other open editors: ${others.map((entry) => `\`${entry.relativePath}\``).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
@@ -3,6 +3,7 @@ import type { FilesAPI, RuntimeAPIs } from "../api/types";
 import { getDesktopHomeDirectory } from "../desktop";
 import type {
   Session,
+  FileDiff,
   Message,
   Part,
   Provider,
@@ -835,6 +836,24 @@ class OpencodeService {
     return response.data;
   }
 
+  async summarizeSession(sessionId: string, providerID: string, modelID: string): Promise<boolean> {
+    const response = await this.client.session.summarize({
+      sessionID: sessionId,
+      ...(this.currentDirectory ? { directory: this.currentDirectory } : {}),
+      providerID,
+      modelID,
+    });
+    return response.data === true;
+  }
+
+  async getSessionDiff(sessionId: string): Promise<FileDiff[]> {
+    const response = await this.client.session.diff({
+      sessionID: sessionId,
+      ...(this.currentDirectory ? { directory: this.currentDirectory } : {}),
+    });
+    return Array.isArray(response.data) ? response.data : [];
+  }
+
   async getSessionStatus(): Promise<
     Record<string, { type: "idle" | "busy" | "retry"; attempt?: number; message?: string; next?: number }>
   > {
@@ -9,12 +9,14 @@
  * - `?tab=<chat|git|diff|terminal|files>` - Active main tab
  * - `?settings=<section>` - Open settings to specific section
  * - `?file=<path>` - Diff view with file selected
+ * - `?message=<id>` - Scroll to a message in the session
  *
  * Examples:
  * - `/?session=abc123` - Open session abc123
  * - `/?tab=git` - Open git tab
  * - `/?settings=providers` - Open settings to providers section
  * - `/?tab=diff&file=src/main.ts` - Open diff view with file
+ * - `/?session=abc123&message=msg456` - Open session abc123 at message msg456
  */
 
 export type { RouteState, RouterContext } from './types';
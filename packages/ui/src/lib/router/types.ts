@@ -14,6 +14,8 @@ export interface RouteState {
   settingsSection: SidebarSection | null;
   /** File path for diff view */
   diffFile: string | null;
+  /** Message ID to scroll to within the session */
+  messageId: string | null;
 }
 
 /**
@@ -51,4 +53,5 @@ export const ROUTE_PARAMS = {
   TAB: 'tab',
   SETTINGS: 'settings',
   FILE: 'file',
+  MESSAGE: 'message',
 } as const;
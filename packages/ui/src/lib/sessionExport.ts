@@ -0,0 +1,352 @@
+import React from 'react';
+import type { Message, Part, Session } from '@opencode-ai/sdk/v2';
+import { opencodeClient } from '@/lib/opencode/client';
+import { getRegisteredRuntimeAPIs } from '@/contexts/runtimeAPIRegistry';
+import { useSessionStore } from '@/stores/useSessionStore';
+
+/**
+ * Session export / import.
+ * JSON exports are lossless and can be imported back as read-only archives;
+ * Markdown and HTML are renderings of the same data for docs, PR descriptions and sharing.
+ */
+
+export const SESSION_EXPORT_FORMAT = 'openchamber.session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type SessionExportFormat = 'markdown' | 'json' | 'html';
+
+export interface SessionExportTodo {
+  id: string;
+  content: string;
+  status: string;
+  priority: string;
+}
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  session: Session;
+  messages: Array<{ info: Message; parts: Part[] }>;
+  todos: SessionExportTodo[];
+}
+
+const FORMAT_FILE_INFO: Record<SessionExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+const MAX_MARKDOWN_OUTPUT_CHARS = 10_000;
+
+// Theme variables copied into HTML exports so they match the app's current look
+const HTML_THEME_VARIABLES = [
+  '--background',
+  '--foreground',
+  '--muted',
+  '--muted-foreground',
+  '--border',
+  '--primary',
+  '--card',
+  '--accent',
+  '--chat-user-message-bg',
+  '--markdown-blockquote-border',
+  '--status-success',
+  '--status-error',
+  '--font-sans',
+  '--font-mono',
+];
+
+export async function fetchSessionExport(sessionId: string): Promise<SessionExport> {
+  const sessionStore = useSessionStore.getState();
+  const directory = sessionStore.getDirectoryForSession(sessionId);
+  const run = <T>(fn: () => Promise<T>) => (directory ? opencodeClient.withDirectory(directory, fn) : fn());
+
+  const knownSession = sessionStore.sessions.find((session) => session.id === sessionId);
+  const [session, messages, todos] = await Promise.all([
+    knownSession ? Promise.resolve(knownSession) : run(() => opencodeClient.getSession(sessionId)),
+    run(() => opencodeClient.getSessionMessages(sessionId)),
+    run(() => opencodeClient.getSessionTodos(sessionId)).catch(() => []),
+  ]);
+
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    session,
+    messages,
+    todos,
+  };
+}
+
+/**
+ * Validate an uploaded JSON export. Throws with a user-facing message when the file is not one.
+ */
+export function parseSessionExport(text: string): SessionExport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const candidate = parsed as Partial<SessionExport> | null;
+  if (!candidate || candidate.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error('The file is not an OpenChamber session export');
+  }
+  if (typeof candidate.version !== 'number' || candidate.version > SESSION_EXPORT_VERSION) {
+    throw new Error('The export was created by a newer version of OpenChamber');
+  }
+  if (!candidate.session || typeof candidate.session.id !== 'string' || !Array.isArray(candidate.messages)) {
+    throw new Error('The export is missing its session or messages');
+  }
+
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: candidate.version,
+    exportedAt: typeof candidate.exportedAt === 'number' ? candidate.exportedAt : Date.now(),
+    session: candidate.session,
+    messages: candidate.messages.filter((message) => message && message.info && Array.isArray(message.parts)),
+    todos: Array.isArray(candidate.todos) ? candidate.todos : [],
+  };
+}
+
+// Fence long enough that backticks inside the content cannot close it
+const fence = (content: string, language = ''): string => {
+  const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n+$/, '')}\n${marker}`;
+};
+
+const clip = (text: string, limit: number): string =>
+  text.length > limit ? `${text.slice(0, limit)}\n… (${text.length - limit} more characters)` : text;
+
+const formatTimestamp = (timestamp: number | undefined): string =>
+  typeof timestamp === 'number' && timestamp > 0 ? new Date(timestamp).toLocaleString() : '';
+
+const describeMessage = (info: Message): string => {
+  if (info.role === 'user') {
+    const model = info.model ? `${info.model.providerID}/${info.model.modelID}` : '';
+    return ['User', info.agent, model].filter(Boolean).join(' · ');
+  }
+  return ['Assistant', info.agent || info.mode, `${info.providerID}/${info.modelID}`].filter(Boolean).join(' · ');
+};
+
+const renderPartMarkdown = (part: Part): string | null => {
+  switch (part.type) {
+    case 'text':
+      return part.synthetic || !part.text.trim() ? null : part.text.trim();
+
+    case 'reasoning':
+      if (!part.text.trim()) return null;
+      return `**Reasoning**\n\n${part.text.trim().split('\n').map((line) => `> ${line}`).join('\n')}`;
+
+    case 'file':
+      return `📎 ${part.filename || part.url}`;
+
+    case 'tool': {
+      const { state } = part;
+      const title = state.status === 'completed' && state.title ? ` — ${state.title}` : '';
+      const sections = [`**Tool: \`${part.tool}\`**${title} (${state.status})`];
+      if (state.input && Object.keys(state.input).length > 0) {
+        sections.push(`Input:\n\n${fence(JSON.stringify(state.input, null, 2), 'json')}`);
+      }
+      const metadata = 'metadata' in state ? (state.metadata as Record<string, unknown> | undefined) : undefined;
+      if (typeof metadata?.diff === 'string' && metadata.diff.trim()) {
+        sections.push(`Diff:\n\n${fence(metadata.diff, 'diff')}`);
+      }
+      if (state.status === 'completed' && state.output?.trim()) {
+        sections.push(`Output:\n\n${fence(clip(state.output, MAX_MARKDOWN_OUTPUT_CHARS))}`);
+      }
+      if (state.status === 'error' && state.error) {
+        sections.push(`Error:\n\n${fence(state.error)}`);
+      }
+      return sections.join('\n\n');
+    }
+
+    case 'patch':
+      return part.files.length > 0 ? `**Changed files:** ${part.files.map((file) => `\`${file}\``).join(', ')}` : null;
+
+    default:
+      return null;
+  }
+};
+
+/** Markdown for a single message: a heading with role, agent and model followed by its parts. */
+export function renderMessageMarkdown(message: { info: Message; parts: Part[] }): string {
+  const body = message.parts
+    .map(renderPartMarkdown)
+    .filter((section): section is string => Boolean(section))
+    .join('\n\n');
+  const time = formatTimestamp(message.info.time?.created);
+  const heading = `### ${describeMessage(message.info)}${time ? ` — ${time}` : ''}`;
+  return body ? `${heading}\n\n${body}` : heading;
+}
+
+const TODO_MARKERS: Record<string, string> = {
+  completed: '[x]',
+  cancelled: '[-]',
+  in_progress: '[~]',
+};
+
+export function renderSessionMarkdown(data: SessionExport): string {
+  const { session } = data;
+  const lines = [`# ${session.title || 'Untitled Session'}`, ''];
+  const details = [
+    session.directory ? `- Directory: \`${session.directory}\`` : null,
+    session.time?.created ? `- Created: ${formatTimestamp(session.time.created)}` : null,
+    session.time?.updated ? `- Updated: ${formatTimestamp(session.time.updated)}` : null,
+    session.summary ? `- Changes: ${session.summary.files} files, +${session.summary.additions} −${session.summary.deletions}` : null,
+    `- Exported: ${formatTimestamp(data.exportedAt)}`,
+  ].filter((line): line is string => Boolean(line));
+  lines.push(...details, '');
+
+  if (data.todos.length > 0) {
+    lines.push('## Todos', '');
+    for (const todo of data.todos) {
+      lines.push(`- ${TODO_MARKERS[todo.status] ?? '[ ]'} ${todo.content}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  for (const message of data.messages) {
+    lines.push(renderMessageMarkdown(message), '', '---', '');
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const readThemeVariables = (): string => {
+  if (typeof document === 'undefined') return '';
+  const styles = getComputedStyle(document.documentElement);
+  return HTML_THEME_VARIABLES
+    .map((name) => [name, styles.getPropertyValue(name).trim()] as const)
+    .filter(([, value]) => value.length > 0)
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(' ');
+};
+
+const HTML_STYLES = `
+body { margin: 0; background: var(--background, #fff); color: var(--foreground, #111); font-family: var(--font-sans, system-ui, sans-serif); line-height: 1.55; }
+main { max-width: 860px; margin: 0 auto; padding: 32px 24px 64px; }
+h1, h2, h3 { line-height: 1.25; }
+h3 { margin-top: 28px; padding: 6px 10px; border-radius: 6px; background: var(--muted, #f4f4f5); font-size: 0.95rem; }
+a { color: var(--primary, #2563eb); }
+hr { border: none; border-top: 1px solid var(--border, #e4e4e7); margin: 24px 0; }
+pre { overflow-x: auto; padding: 12px; border-radius: 6px; border: 1px solid var(--border, #e4e4e7); background: var(--card, #fafafa); font-size: 0.85rem; }
+code { font-family: var(--font-mono, ui-monospace, monospace); }
+:not(pre) > code { padding: 1px 4px; border-radius: 4px; background: var(--muted, #f4f4f5); }
+blockquote { margin: 0; padding-left: 12px; border-left: 3px solid var(--markdown-blockquote-border, var(--border, #e4e4e7)); color: var(--muted-foreground, #71717a); }
+table { border-collapse: collapse; margin: 12px 0; } th, td { border: 1px solid var(--border, #e4e4e7); padding: 4px 8px; text-align: left; }
+img { max-width: 100%; }
+`;
+
+const PLAIN_HTML_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'a', 'strong', 'em', 'del', 'ul', 'ol', 'li', 'blockquote', 'hr',
+  'pre', 'code', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'img',
+] as const;
+
+// Streamdown's own elements carry Tailwind classes and lazy-load code blocks behind Suspense, which
+// renderToStaticMarkup emits as a spinner; plain elements render synchronously and HTML_STYLES covers them
+const plainComponents = Object.fromEntries(
+  PLAIN_HTML_TAGS.map((tag) => [
+    tag,
+    (props: Record<string, unknown>) => {
+      // `node` is the markdown AST node; the language class is kept for readers that highlight code
+      const { node, className, ...rest } = props;
+      void node;
+      return React.createElement(tag, tag === 'code' && typeof className === 'string' ? { ...rest, className } : rest);
+    },
+  ])
+);
+
+/** Single-file HTML: the Markdown rendering converted to static markup with the current theme inlined. */
+export async function renderSessionHtml(data: SessionExport): Promise<string> {
+  const [{ renderToStaticMarkup }, { Streamdown }] = await Promise.all([
+    import('react-dom/server'),
+    import('streamdown'),
+  ]);
+  const body = renderToStaticMarkup(
+    React.createElement(Streamdown, {
+      mode: 'static',
+      components: plainComponents,
+      controls: false,
+      children: renderSessionMarkdown(data),
+    })
+  );
+  const title = escapeHtml(data.session.title || 'Untitled Session');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>:root { ${readThemeVariables()} }${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+export async function renderSessionExport(data: SessionExport, format: SessionExportFormat): Promise<string> {
+  if (format === 'json') {
+    return `${JSON.stringify(data, null, 2)}\n`;
+  }
+  if (format === 'html') {
+    return renderSessionHtml(data);
+  }
+  return renderSessionMarkdown(data);
+}
+
+export function getSessionExportFileName(data: SessionExport, format: SessionExportFormat): string {
+  const slug = (data.session.title || 'session')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'session';
+  return `${slug}.${FORMAT_FILE_INFO[format].extension}`;
+}
+
+/**
+ * Save an exported file. VS Code shows a native save dialog (webviews cannot download files);
+ * elsewhere the browser download is used. Resolves false when the user cancelled.
+ */
+export async function saveExportFile(fileName: string, content: string, mimeType: string): Promise<boolean> {
+  const vscodeApi = getRegisteredRuntimeAPIs()?.vscode;
+  if (vscodeApi) {
+    const saved = await vscodeApi.executeCommand('openchamber.saveSessionExport', fileName, content);
+    return saved === true;
+  }
+
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  URL.revokeObjectURL(url);
+  return true;
+}
+
+export async function saveSessionExportFile(fileName: string, content: string, format: SessionExportFormat): Promise<boolean> {
+  return saveExportFile(fileName, content, FORMAT_FILE_INFO[format].mimeType);
+}
+
+export async function exportSessionData(data: SessionExport, format: SessionExportFormat): Promise<boolean> {
+  const content = await renderSessionExport(data, format);
+  return saveSessionExportFile(getSessionExportFileName(data, format), content, format);
+}
+
+export async function exportSession(sessionId: string, format: SessionExportFormat): Promise<boolean> {
+  return exportSessionData(await fetchSessionExport(sessionId), format);
+}
@@ -0,0 +1,110 @@
+import type { FileDiff, Session } from '@opencode-ai/sdk/v2';
+import type { SessionForkOrigin } from '@/stores/useSessionLineageStore';
+
+export type LineageEdgeKind = 'root' | 'fork' | 'subagent';
+
+export interface SessionLineageNode {
+  session: Session;
+  edge: LineageEdgeKind;
+  origin: SessionForkOrigin | null;
+  children: SessionLineageNode[];
+}
+
+const getParentId = (session: Session, forks: Record<string, SessionForkOrigin>): string | null =>
+  session.parentID ?? forks[session.id]?.sourceSessionId ?? null;
+
+/** Walks sub-agent parents and recorded fork origins up to the oldest session still present. */
+export function findLineageRoot(
+  sessionId: string,
+  sessions: Session[],
+  forks: Record<string, SessionForkOrigin>
+): Session | null {
+  const byId = new Map(sessions.map((session) => [session.id, session]));
+  let current = byId.get(sessionId) ?? null;
+  const visited = new Set<string>();
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    const parentId = getParentId(current, forks);
+    const parent = parentId ? byId.get(parentId) : undefined;
+    if (!parent) break;
+    current = parent;
+  }
+
+  return current;
+}
+
+/** Tree of everything that branched from the lineage root: forks in creation order, then sub-agent sessions. */
+export function buildSessionLineage(
+  sessionId: string,
+  sessions: Session[],
+  forks: Record<string, SessionForkOrigin>
+): SessionLineageNode | null {
+  const root = findLineageRoot(sessionId, sessions, forks);
+  if (!root) return null;
+
+  const childrenByParent = new Map<string, Session[]>();
+  for (const session of sessions) {
+    const parentId = getParentId(session, forks);
+    if (!parentId || parentId === session.id) continue;
+    const list = childrenByParent.get(parentId) ?? [];
+    list.push(session);
+    childrenByParent.set(parentId, list);
+  }
+
+  const visited = new Set<string>();
+  const build = (session: Session, edge: LineageEdgeKind): SessionLineageNode => {
+    visited.add(session.id);
+    const children = (childrenByParent.get(session.id) ?? [])
+      .filter((child) => !visited.has(child.id))
+      .sort((a, b) => {
+        const aIsSubagent = a.parentID ? 1 : 0;
+        const bIsSubagent = b.parentID ? 1 : 0;
+        return aIsSubagent - bIsSubagent || (a.time?.created ?? 0) - (b.time?.created ?? 0);
+      })
+      .map((child) => build(child, child.parentID ? 'subagent' : 'fork'));
+    return {
+      session,
+      edge,
+      origin: edge === 'fork' ? forks[session.id] ?? null : null,
+      children,
+    };
+  };
+
+  return build(root, 'root');
+}
+
+export function flattenLineage(node: SessionLineageNode): SessionLineageNode[] {
+  return [node, ...node.children.flatMap(flattenLineage)];
+}
+
+export interface BranchDiffComparison {
+  file: string;
+  left: FileDiff | null;
+  right: FileDiff | null;
+  // Final content in each branch; a branch that never touched the file still has the shared base version
+  leftContent: string;
+  rightContent: string;
+  identical: boolean;
+}
+
+export function compareBranchDiffs(left: FileDiff[], right: FileDiff[]): BranchDiffComparison[] {
+  const leftByFile = new Map(left.map((diff) => [diff.file, diff]));
+  const rightByFile = new Map(right.map((diff) => [diff.file, diff]));
+  const files = Array.from(new Set([...leftByFile.keys(), ...rightByFile.keys()])).sort();
+
+  return files.map((file) => {
+    const leftDiff = leftByFile.get(file) ?? null;
+    const rightDiff = rightByFile.get(file) ?? null;
+    const leftContent = leftDiff?.after ?? rightDiff?.before ?? '';
+    const rightContent = rightDiff?.after ?? leftDiff?.before ?? '';
+    return {
+      file,
+      left: leftDiff,
+      right: rightDiff,
+      leftContent,
+      rightContent,
+      identical: leftContent === rightContent,
+    };
+  });
+}
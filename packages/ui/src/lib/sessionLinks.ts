@@ -0,0 +1,82 @@
+import { getRegisteredRuntimeAPIs } from '@/contexts/runtimeAPIRegistry';
+import { copyTextToClipboard } from '@/lib/clipboard';
+import { ROUTE_PARAMS } from '@/lib/router/types';
+import { useUIStore } from '@/stores/useUIStore';
+
+/**
+ * Window event asking the chat view to scroll a message into view.
+ * `detail` is `{ messageId: string }`.
+ */
+export const SCROLL_TO_MESSAGE_EVENT = 'openchamber:scroll-to-message';
+
+export type ScrollToMessageDetail = {
+  messageId: string;
+};
+
+// Kept until the chat view picks it up, since links can arrive before the chat has mounted
+let pendingScrollMessageId: string | null = null;
+
+export function requestScrollToMessage(messageId: string): void {
+  if (typeof window === 'undefined' || !messageId) {
+    return;
+  }
+  pendingScrollMessageId = messageId;
+  window.dispatchEvent(
+    new CustomEvent<ScrollToMessageDetail>(SCROLL_TO_MESSAGE_EVENT, { detail: { messageId } })
+  );
+}
+
+export function takePendingScrollToMessage(): string | null {
+  const messageId = pendingScrollMessageId;
+  pendingScrollMessageId = null;
+  return messageId;
+}
+
+/**
+ * Show the tab a session link asked for. Only the Diff tab is honoured (with `file` preselected);
+ * every other link lands on the conversation.
+ */
+export function openSessionTab(tab?: string | null, file?: string | null): void {
+  const ui = useUIStore.getState();
+  if (tab === 'diff') {
+    if (file) {
+      ui.navigateToDiff(file);
+    } else {
+      ui.setActiveMainTab('diff');
+    }
+    return;
+  }
+  ui.setActiveMainTab('chat');
+}
+
+/**
+ * Build a browser URL pointing at a session (and optionally a message in it).
+ */
+export function buildSessionLink(sessionId: string, messageId?: string | null): string {
+  const params = new URLSearchParams();
+  params.set(ROUTE_PARAMS.SESSION, sessionId);
+  if (messageId) {
+    params.set(ROUTE_PARAMS.MESSAGE, messageId);
+  }
+  const base = typeof window !== 'undefined' ? `${window.location.origin}${window.location.pathname}` : '/';
+  return `${base}?${params.toString()}`;
+}
+
+/**
+ * Copy a link to a session or message.
+ * In VS Code the extension builds a `vscode://` deep link and writes it to the clipboard itself.
+ */
+export async function copySessionLink(sessionId: string, messageId?: string | null): Promise<boolean> {
+  const vscodeApi = getRegisteredRuntimeAPIs()?.vscode;
+  if (vscodeApi) {
+    try {
+      await vscodeApi.executeCommand('openchamber.copySessionLink', sessionId, messageId ?? undefined);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  const result = await copyTextToClipboard(buildSessionLink(sessionId, messageId));
+  return result.ok;
+}
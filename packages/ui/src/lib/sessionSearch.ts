@@ -0,0 +1,320 @@
+import type { Message, Part, Session } from '@opencode-ai/sdk/v2';
+
+/**
+ * In-memory full-text index over session titles, user prompts, assistant text and tool inputs.
+ * Entries are built per session from its message history and then kept current from stream events.
+ */
+
+export type SessionSearchKind = 'title' | 'user' | 'assistant' | 'tool';
+
+export interface SessionSearchDocument {
+  id: string;
+  messageId: string | null;
+  kind: SessionSearchKind;
+  text: string;
+  lower: string;
+  time: number;
+}
+
+export interface SessionSearchEntry {
+  sessionId: string;
+  title: string;
+  directory: string | null;
+  parentId: string | null;
+  updated: number;
+  // Session `time.updated` the entry is known to be current with
+  indexedAt: number;
+  agents: Set<string>;
+  models: Set<string>;
+  hasEdits: boolean;
+  documents: Map<string, SessionSearchDocument>;
+  messages: Map<string, { role: 'user' | 'assistant'; time: number }>;
+}
+
+export interface SessionSearchFilters {
+  matchesDirectory?: ((directory: string | null) => boolean) | null;
+  from?: number | null;
+  to?: number | null;
+  agent?: string | null;
+  model?: string | null;
+  hasEdits?: boolean;
+}
+
+export interface SessionSearchHit {
+  documentId: string;
+  messageId: string | null;
+  kind: SessionSearchKind;
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  title: string;
+  directory: string | null;
+  updated: number;
+  hits: SessionSearchHit[];
+}
+
+const TITLE_DOCUMENT_ID = '__title__';
+const MAX_DOCUMENT_CHARS = 20_000;
+const MAX_TOOL_INPUT_CHARS = 2_000;
+const MAX_HITS_PER_SESSION = 3;
+// Long sessions should not outrank focused ones just by volume
+const MAX_SCORED_MATCHES = 10;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+const EDIT_TOOLS = new Set(['edit', 'multiedit', 'write', 'apply_patch', 'patch']);
+const KIND_WEIGHT: Record<SessionSearchKind, number> = { title: 4, user: 3, assistant: 2, tool: 1 };
+
+const createDocument = (
+  id: string,
+  messageId: string | null,
+  kind: SessionSearchKind,
+  text: string,
+  time: number
+): SessionSearchDocument => {
+  const clipped = text.length > MAX_DOCUMENT_CHARS ? text.slice(0, MAX_DOCUMENT_CHARS) : text;
+  return { id, messageId, kind, text: clipped, lower: clipped.toLowerCase(), time };
+};
+
+const formatModel = (providerID?: string, modelID?: string): string | null =>
+  providerID && modelID ? `${providerID}/${modelID}` : null;
+
+const collectToolInputText = (value: unknown, out: string[], depth = 0): void => {
+  if (depth > 3) return;
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectToolInputText(item, out, depth + 1));
+  } else if (value && typeof value === 'object') {
+    Object.values(value as Record<string, unknown>).forEach((item) => collectToolInputText(item, out, depth + 1));
+  }
+};
+
+export function createSessionSearchEntry(session: Session): SessionSearchEntry {
+  const entry: SessionSearchEntry = {
+    sessionId: session.id,
+    title: '',
+    directory: null,
+    parentId: null,
+    updated: 0,
+    indexedAt: 0,
+    agents: new Set(),
+    models: new Set(),
+    hasEdits: false,
+    documents: new Map(),
+    messages: new Map(),
+  };
+  applySessionToEntry(entry, session);
+  return entry;
+}
+
+export function applySessionToEntry(entry: SessionSearchEntry, session: Session): void {
+  entry.title = session.title || '';
+  entry.directory = session.directory || entry.directory;
+  entry.parentId = session.parentID ?? null;
+  entry.updated = session.time?.updated ?? entry.updated;
+  if ((session.summary?.files ?? 0) > 0) {
+    entry.hasEdits = true;
+  }
+  if (entry.title) {
+    entry.documents.set(TITLE_DOCUMENT_ID, createDocument(TITLE_DOCUMENT_ID, null, 'title', entry.title, session.time?.created ?? 0));
+  } else {
+    entry.documents.delete(TITLE_DOCUMENT_ID);
+  }
+}
+
+export function indexMessageInfo(entry: SessionSearchEntry, info: Message): void {
+  const role = info.role === 'user' ? 'user' : 'assistant';
+  const time = info.time?.created ?? 0;
+  const previous = entry.messages.get(info.id);
+  entry.messages.set(info.id, { role, time });
+
+  if (info.role === 'user') {
+    if (info.agent) entry.agents.add(info.agent);
+    const model = formatModel(info.model?.providerID, info.model?.modelID);
+    if (model) entry.models.add(model);
+  } else {
+    const agent = info.agent || info.mode;
+    if (agent) entry.agents.add(agent);
+    const model = formatModel(info.providerID, info.modelID);
+    if (model) entry.models.add(model);
+  }
+
+  // Parts can arrive before their message; re-classify them once the role is known
+  if (previous?.role !== role) {
+    for (const document of entry.documents.values()) {
+      if (document.messageId === info.id && (document.kind === 'user' || document.kind === 'assistant')) {
+        document.kind = role;
+      }
+    }
+  }
+}
+
+export function indexMessagePart(entry: SessionSearchEntry, part: Part): void {
+  const message = entry.messages.get(part.messageID);
+  const time = message?.time ?? Date.now();
+
+  if (part.type === 'text') {
+    if (part.synthetic || !part.text.trim()) {
+      entry.documents.delete(part.id);
+      return;
+    }
+    entry.documents.set(part.id, createDocument(part.id, part.messageID, message?.role ?? 'assistant', part.text, time));
+    return;
+  }
+
+  if (part.type === 'tool') {
+    if (EDIT_TOOLS.has(part.tool) && part.state.status === 'completed') {
+      entry.hasEdits = true;
+    }
+    const inputText: string[] = [];
+    collectToolInputText(part.state.input, inputText);
+    const text = `${part.tool} ${inputText.join(' ')}`.slice(0, MAX_TOOL_INPUT_CHARS);
+    entry.documents.set(part.id, createDocument(part.id, part.messageID, 'tool', text, time));
+  }
+}
+
+export function removeMessageFromEntry(entry: SessionSearchEntry, messageId: string): void {
+  entry.messages.delete(messageId);
+  for (const [id, document] of entry.documents) {
+    if (document.messageId === messageId) {
+      entry.documents.delete(id);
+    }
+  }
+}
+
+export function removePartFromEntry(entry: SessionSearchEntry, partId: string): void {
+  entry.documents.delete(partId);
+}
+
+/**
+ * Split a query into lower-cased terms. Double-quoted phrases are kept as a single term.
+ */
+export function parseSessionSearchQuery(query: string): string[] {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2] ?? '').trim().toLowerCase();
+    if (term && !terms.includes(term)) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+const buildSnippet = (document: SessionSearchDocument, terms: string[]): Pick<SessionSearchHit, 'snippet' | 'highlights'> => {
+  const firstMatch = terms.reduce((best, term) => {
+    const index = document.lower.indexOf(term);
+    return index !== -1 && (best === -1 || index < best) ? index : best;
+  }, -1);
+
+  let start = Math.max(0, firstMatch - SNIPPET_BEFORE);
+  if (start > 0) {
+    const space = document.text.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  const end = Math.min(document.text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < document.text.length ? '…' : '';
+  const body = document.text.slice(start, end).replace(/\s+/g, ' ');
+  const snippet = `${prefix}${body}${suffix}`;
+
+  const lowerSnippet = snippet.toLowerCase();
+  const highlights: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = lowerSnippet.indexOf(term);
+    while (index !== -1) {
+      highlights.push([index, index + term.length]);
+      index = lowerSnippet.indexOf(term, index + term.length);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping ranges so the renderer can slice the snippet linearly
+  const merged: Array<[number, number]> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return { snippet, highlights: merged };
+};
+
+const matchesFilters = (entry: SessionSearchEntry, filters: SessionSearchFilters): boolean => {
+  if (filters.matchesDirectory && !filters.matchesDirectory(entry.directory)) return false;
+  if (typeof filters.from === 'number' && entry.updated < filters.from) return false;
+  if (typeof filters.to === 'number' && entry.updated > filters.to) return false;
+  if (filters.agent && !entry.agents.has(filters.agent)) return false;
+  if (filters.model && !entry.models.has(filters.model)) return false;
+  if (filters.hasEdits && !entry.hasEdits) return false;
+  return true;
+};
+
+/**
+ * Sessions that contain every query term (across title and messages), best matches first.
+ * An empty query lists the filtered sessions by recency.
+ */
+export function searchSessionIndex(
+  entries: Iterable<SessionSearchEntry>,
+  query: string,
+  filters: SessionSearchFilters = {},
+  limit = 50
+): SessionSearchResult[] {
+  const terms = parseSessionSearchQuery(query);
+  const scored: Array<{ result: SessionSearchResult; score: number }> = [];
+
+  for (const entry of entries) {
+    if (!matchesFilters(entry, filters)) continue;
+
+    if (terms.length === 0) {
+      scored.push({
+        result: { sessionId: entry.sessionId, title: entry.title, directory: entry.directory, updated: entry.updated, hits: [] },
+        score: 0,
+      });
+      continue;
+    }
+
+    const found = new Set<string>();
+    const matches: Array<{ document: SessionSearchDocument; matched: number }> = [];
+    for (const document of entry.documents.values()) {
+      let matched = 0;
+      for (const term of terms) {
+        if (document.lower.includes(term)) {
+          matched += 1;
+          found.add(term);
+        }
+      }
+      if (matched > 0) {
+        matches.push({ document, matched });
+      }
+    }
+    if (found.size < terms.length) continue;
+
+    matches.sort((a, b) =>
+      b.matched - a.matched
+      || KIND_WEIGHT[b.document.kind] - KIND_WEIGHT[a.document.kind]
+      || b.document.time - a.document.time
+    );
+    const score = matches.slice(0, MAX_SCORED_MATCHES).reduce((sum, { document, matched }) => sum + matched * KIND_WEIGHT[document.kind], 0);
+    const hits = matches.slice(0, MAX_HITS_PER_SESSION).map(({ document }) => ({
+      documentId: document.id,
+      messageId: document.messageId,
+      kind: document.kind,
+      ...buildSnippet(document, terms),
+    }));
+
+    scored.push({
+      result: { sessionId: entry.sessionId, title: entry.title, directory: entry.directory, updated: entry.updated, hits },
+      score,
+    });
+  }
+
+  scored.sort((a, b) => b.score - a.score || b.result.updated - a.result.updated);
+  return scored.slice(0, limit).map(({ result }) => result);
+}
@@ -0,0 +1,123 @@
+import type { Message, Part } from '@opencode-ai/sdk/v2';
+import type { TodoItem } from '@/stores/useTodoStore';
+
+type SessionMessage = { info: Message; parts: Part[] };
+
+export interface SessionSummaryInput {
+  title: string;
+  directory?: string | null;
+  messages: SessionMessage[];
+  todos: TodoItem[];
+}
+
+const MAX_GOALS = 8;
+const MAX_DECISIONS = 8;
+const MAX_FILES = 40;
+const MAX_ITEM_CHARS = 240;
+const EDIT_TOOLS = new Set(['edit', 'multiedit', 'write', 'apply_patch', 'patch']);
+const PATCH_FILE_HEADER = /^\*\*\* (?:Add|Update|Delete) File: (.+)$/gm;
+
+const clip = (text: string): string => {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_ITEM_CHARS ? `${singleLine.slice(0, MAX_ITEM_CHARS - 1)}…` : singleLine;
+};
+
+const getVisibleText = (parts: Part[]): string =>
+  parts
+    .filter((part) => part.type === 'text' && !part.synthetic && !part.ignored)
+    .map((part) => (part as { text?: string }).text || '')
+    .join('\n')
+    .trim();
+
+// First paragraph of the reply is usually the conclusion; the rest is supporting detail
+const getLeadParagraph = (text: string): string => text.split(/\n\s*\n/).find((block) => block.trim().length > 0) ?? '';
+
+const toRelativePath = (filePath: string, directory?: string | null): string => {
+  if (!directory) return filePath;
+  const base = directory.endsWith('/') ? directory : `${directory}/`;
+  return filePath.startsWith(base) ? filePath.slice(base.length) : filePath;
+};
+
+const collectTouchedFiles = (part: Part, out: Set<string>): void => {
+  if (part.type !== 'tool' || !EDIT_TOOLS.has(part.tool) || part.state.status !== 'completed') {
+    return;
+  }
+  const input = (part.state.input ?? {}) as Record<string, unknown>;
+  for (const key of ['filePath', 'file_path', 'path']) {
+    const value = input[key];
+    if (typeof value === 'string' && value.trim()) {
+      out.add(value.trim());
+      return;
+    }
+  }
+  const patchText = input.patchText ?? input.patch_text ?? input.patch;
+  if (typeof patchText === 'string') {
+    for (const match of patchText.matchAll(PATCH_FILE_HEADER)) {
+      out.add(match[1].trim());
+    }
+  }
+};
+
+/** Markdown hand-off for continuing a long session in a fresh one; meant to be edited before it is sent. */
+export function buildSessionSummary({ title, directory, messages, todos }: SessionSummaryInput): string {
+  const goals: string[] = [];
+  const decisions: string[] = [];
+  const files = new Set<string>();
+  let lastAssistantText = '';
+
+  const flushTurn = () => {
+    if (lastAssistantText) {
+      decisions.push(clip(getLeadParagraph(lastAssistantText)));
+      lastAssistantText = '';
+    }
+  };
+
+  for (const message of messages) {
+    if (message.info.role === 'user') {
+      flushTurn();
+      const text = getVisibleText(message.parts);
+      // Commands such as /compact are not goals
+      if (text && !text.startsWith('/')) {
+        goals.push(clip(text));
+      }
+      continue;
+    }
+
+    const text = getVisibleText(message.parts);
+    if (text) {
+      lastAssistantText = text;
+    }
+    message.parts.forEach((part) => collectTouchedFiles(part, files));
+  }
+  flushTurn();
+
+  const openTodos = todos.filter((todo) => todo.status === 'pending' || todo.status === 'in_progress');
+  const fileList = Array.from(files, (file) => toRelativePath(file, directory)).sort();
+
+  const lines: string[] = [
+    `Continuing from the session "${title}". Summary of where it left off:`,
+    '',
+    '## Goals',
+    ...(goals.length > 0 ? goals.slice(-MAX_GOALS).map((goal) => `- ${goal}`) : ['- (none recorded)']),
+    '',
+    '## Decisions and progress',
+    ...(decisions.length > 0 ? decisions.slice(-MAX_DECISIONS).map((decision) => `- ${decision}`) : ['- (none recorded)']),
+    '',
+    '## Files touched',
+    ...(fileList.length > 0 ? fileList.slice(0, MAX_FILES).map((file) => `- \`${file}\``) : ['- (none)']),
+  ];
+  if (fileList.length > MAX_FILES) {
+    lines.push(`- …and ${fileList.length - MAX_FILES} more`);
+  }
+  lines.push(
+    '',
+    '## Open todos',
+    ...(openTodos.length > 0
+      ? openTodos.map((todo) => `- [ ] ${todo.content}${todo.status === 'in_progress' ? ' (in progress)' : ''}`)
+      : ['- (none)']),
+    '',
+    'Continue from here. Ask before redoing work that is already listed as done.',
+  );
+
+  return lines.join('\n');
+}
@@ -237,6 +237,13 @@ const SHORTCUT_ACTIONS: ReadonlyArray<ShortcutAction> = [
     description: 'Open the timeline dialog',
     customizable: true,
   },
+  {
+    id: 'open_session_search',
+    defaultCombo: 'mod+shift+k',
+    label: 'Search sessions',
+    description: 'Search titles and messages across all sessions',
+    customizable: true,
+  },
   {
     id: 'open_help',
     defaultCombo: 'mod+.',
@@ -0,0 +1,235 @@
+import type { Message, Part, Session } from '@opencode-ai/sdk/v2';
+import type { ProjectEntry } from '@/lib/api/types';
+
+export type SpendGroupBy = 'day' | 'project' | 'agent' | 'model' | 'provider';
+export type SpendRange = '7d' | '30d' | '90d' | 'all';
+
+export interface SpendUsage {
+  cost: number;
+  input: number;
+  output: number;
+  reasoning: number;
+  cacheRead: number;
+  cacheWrite: number;
+  messages: number;
+}
+
+// Usage of one session split by day and by the agent/model that produced it
+export interface SpendBucket extends SpendUsage {
+  day: string;
+  agent: string;
+  providerID: string;
+  modelID: string;
+}
+
+export interface SessionSpendRecord {
+  sessionId: string;
+  title: string;
+  directory: string | null;
+  // session.time.updated when the record was built; newer sessions are re-fetched
+  updatedAt: number;
+  buckets: SpendBucket[];
+}
+
+export interface SpendGroupRow {
+  key: string;
+  label: string;
+  usage: SpendUsage;
+  sessionCount: number;
+}
+
+export interface SessionSpendRow {
+  sessionId: string;
+  title: string;
+  directory: string | null;
+  usage: SpendUsage;
+}
+
+export const SPEND_RANGE_DAYS: Record<SpendRange, number | null> = { '7d': 7, '30d': 30, '90d': 90, all: null };
+
+const UNKNOWN = 'unknown';
+
+export const createEmptyUsage = (): SpendUsage => ({
+  cost: 0,
+  input: 0,
+  output: 0,
+  reasoning: 0,
+  cacheRead: 0,
+  cacheWrite: 0,
+  messages: 0,
+});
+
+export const addUsage = (target: SpendUsage, value: SpendUsage): SpendUsage => {
+  target.cost += value.cost;
+  target.input += value.input;
+  target.output += value.output;
+  target.reasoning += value.reasoning;
+  target.cacheRead += value.cacheRead;
+  target.cacheWrite += value.cacheWrite;
+  target.messages += value.messages;
+  return target;
+};
+
+export const getTotalTokens = (usage: SpendUsage): number =>
+  usage.input + usage.output + usage.reasoning + usage.cacheRead + usage.cacheWrite;
+
+const toNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0);
+
+/** Local calendar day, so a late-night session is counted on the day the user saw it. */
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export function buildSessionSpendRecord(session: Session, messages: Array<{ info: Message; parts: Part[] }>): SessionSpendRecord {
+  const buckets = new Map<string, SpendBucket>();
+
+  for (const { info } of messages) {
+    if (info.role !== 'assistant') continue;
+    const day = toDayKey(info.time?.created ?? session.time?.created ?? Date.now());
+    const agent = info.agent || info.mode || UNKNOWN;
+    const providerID = info.providerID || UNKNOWN;
+    const modelID = info.modelID || UNKNOWN;
+    const key = `${day}\u0000${agent}\u0000${providerID}\u0000${modelID}`;
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { day, agent, providerID, modelID, ...createEmptyUsage() };
+      buckets.set(key, bucket);
+    }
+    addUsage(bucket, {
+      cost: toNumber(info.cost),
+      input: toNumber(info.tokens?.input),
+      output: toNumber(info.tokens?.output),
+      reasoning: toNumber(info.tokens?.reasoning),
+      cacheRead: toNumber(info.tokens?.cache?.read),
+      cacheWrite: toNumber(info.tokens?.cache?.write),
+      messages: 1,
+    });
+  }
+
+  return {
+    sessionId: session.id,
+    title: session.title || 'Untitled Session',
+    directory: session.directory || null,
+    updatedAt: session.time?.updated ?? 0,
+    buckets: Array.from(buckets.values()),
+  };
+}
+
+const basename = (path: string): string => path.replace(/\/+$/, '').split('/').pop() || path;
+
+/** Longest registered project containing the directory; unregistered directories group under their own name. */
+export const resolveProject = (directory: string | null, projects: ProjectEntry[]): { key: string; label: string } => {
+  if (!directory) {
+    return { key: UNKNOWN, label: 'Unknown project' };
+  }
+  let match: ProjectEntry | null = null;
+  let matchLength = -1;
+  for (const project of projects) {
+    const base = project.path.replace(/\/+$/, '');
+    if ((directory === base || directory.startsWith(`${base}/`)) && base.length > matchLength) {
+      match = project;
+      matchLength = base.length;
+    }
+  }
+  return match
+    ? { key: match.path, label: match.label || basename(match.path) }
+    : { key: directory, label: basename(directory) };
+};
+
+export const getRangeStartDay = (range: SpendRange, now = Date.now()): string | null => {
+  const days = SPEND_RANGE_DAYS[range];
+  return days === null ? null : toDayKey(now - (days - 1) * 24 * 60 * 60 * 1000);
+};
+
+const bucketGroup = (
+  bucket: SpendBucket,
+  record: SessionSpendRecord,
+  groupBy: SpendGroupBy,
+  projects: ProjectEntry[]
+): { key: string; label: string } => {
+  switch (groupBy) {
+    case 'day':
+      return { key: bucket.day, label: bucket.day };
+    case 'project':
+      return resolveProject(record.directory, projects);
+    case 'agent':
+      return { key: bucket.agent, label: bucket.agent };
+    case 'provider':
+      return { key: bucket.providerID, label: bucket.providerID };
+    case 'model': {
+      const key = `${bucket.providerID}/${bucket.modelID}`;
+      return { key, label: key };
+    }
+  }
+};
+
+/** Days come back oldest first for charting; every other grouping is sorted by cost, then tokens. */
+export function aggregateSpend(
+  records: SessionSpendRecord[],
+  groupBy: SpendGroupBy,
+  startDay: string | null,
+  projects: ProjectEntry[]
+): SpendGroupRow[] {
+  const rows = new Map<string, SpendGroupRow & { sessions: Set<string> }>();
+
+  for (const record of records) {
+    for (const bucket of record.buckets) {
+      if (startDay && bucket.day < startDay) continue;
+      const { key, label } = bucketGroup(bucket, record, groupBy, projects);
+      let row = rows.get(key);
+      if (!row) {
+        row = { key, label, usage: createEmptyUsage(), sessionCount: 0, sessions: new Set() };
+        rows.set(key, row);
+      }
+      addUsage(row.usage, bucket);
+      row.sessions.add(record.sessionId);
+    }
+  }
+
+  const result = Array.from(rows.values(), ({ sessions, ...row }) => ({ ...row, sessionCount: sessions.size }));
+  return groupBy === 'day'
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => b.usage.cost - a.usage.cost || getTotalTokens(b.usage) - getTotalTokens(a.usage));
+}
+
+export function getTopSessions(records: SessionSpendRecord[], startDay: string | null, limit: number): SessionSpendRow[] {
+  return records
+    .map((record) => {
+      const usage = createEmptyUsage();
+      for (const bucket of record.buckets) {
+        if (!startDay || bucket.day >= startDay) {
+          addUsage(usage, bucket);
+        }
+      }
+      return { sessionId: record.sessionId, title: record.title, directory: record.directory, usage };
+    })
+    .filter((row) => row.usage.messages > 0)
+    .sort((a, b) => b.usage.cost - a.usage.cost || getTotalTokens(b.usage) - getTotalTokens(a.usage))
+    .slice(0, limit);
+}
+
+const escapeCsv = (value: string | number): string => {
+  // Labels are user-controlled (project names, agents); a leading =, +, - or @ would run as a spreadsheet formula
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function spendRowsToCsv(rows: SpendGroupRow[], groupBy: SpendGroupBy): string {
+  const header = [groupBy, 'cost_usd', 'input_tokens', 'output_tokens', 'reasoning_tokens', 'cache_read_tokens', 'cache_write_tokens', 'assistant_messages', 'sessions'];
+  const lines = rows.map((row) => [
+    row.label,
+    row.usage.cost.toFixed(6),
+    row.usage.input,
+    row.usage.output,
+    row.usage.reasoning,
+    row.usage.cacheRead,
+    row.usage.cacheWrite,
+    row.usage.messages,
+    row.sessionCount,
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...lines].join('\n');
+}
@@ -12,6 +12,7 @@ interface FileActions {
     addServerFile: (path: string, name: string, content?: string) => Promise<void>;
     removeAttachedFile: (id: string) => void;
     clearAttachedFiles: () => void;
+    setAttachedFiles: (files: AttachedFile[]) => void;
 }
 
 type FileStore = FileState & FileActions;
@@ -249,6 +250,10 @@ export const useFileStore = create<FileStore>()(
                 clearAttachedFiles: () => {
                     set({ attachedFiles: [] });
                 },
+
+                setAttachedFiles: (files: AttachedFile[]) => {
+                    set({ attachedFiles: files });
+                },
             }),
             {
                 name: "file-store",
@@ -14,6 +14,7 @@ export interface QueuedMessage {
 interface MessageQueueState {
     queuedMessages: Record<string, QueuedMessage[]>; // sessionId → queue
     queueModeEnabled: boolean; // global toggle
+    pausedSessions: Record<string, true>; // sessionId → queued messages are not auto-sent (budget guardrails)
 }
 
 interface MessageQueueActions {
@@ -24,6 +25,8 @@ interface MessageQueueActions {
     clearAllQueues: () => void;
     setQueueMode: (enabled: boolean) => void;
     getQueueForSession: (sessionId: string) => QueuedMessage[];
+    pauseQueue: (sessionId: string) => void;
+    resumeQueue: (sessionId: string) => void;
 }
 
 type MessageQueueStore = MessageQueueState & MessageQueueActions;
@@ -34,6 +37,7 @@ export const useMessageQueueStore = create<MessageQueueStore>()(
             (set, get) => ({
                 queuedMessages: {},
                 queueModeEnabled: true,
+                pausedSessions: {},
 
                 addToQueue: (sessionId, message) => {
                     const id = `queued-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
@@ -127,6 +131,23 @@ export const useMessageQueueStore = create<MessageQueueStore>()(
                 getQueueForSession: (sessionId) => {
                     return get().queuedMessages[sessionId] ?? [];
                 },
+
+                pauseQueue: (sessionId) => {
+                    set((state) => (state.pausedSessions[sessionId]
+                        ? state
+                        : { pausedSessions: { ...state.pausedSessions, [sessionId]: true } }));
+                },
+
+                resumeQueue: (sessionId) => {
+                    set((state) => {
+                        if (!state.pausedSessions[sessionId]) {
+                            return state;
+                        }
+                        const { [sessionId]: _removed, ...rest } = state.pausedSessions;
+                        void _removed;
+                        return { pausedSessions: rest };
+                    });
+                },
             }),
             {
                 name: 'message-queue-store',
@@ -190,6 +190,13 @@ const readVSCodeWorkspaceDirectory = (): string | null => {
     return normalizePath(workspaceFolder);
 };
 
+// Multi-root workspaces: the folder picker switches the active `vscode:` project, while __VSCODE_CONFIG__ keeps the primary folder
+const readActiveVSCodeProjectDirectory = (): string | null => {
+    const { projects, activeProjectId } = useProjectsStore.getState();
+    const activeProject = projects.find((project) => project.id === activeProjectId);
+    return activeProject?.id.startsWith("vscode:") ? normalizePath(activeProject.path) : null;
+};
+
 const isVSCodeRuntime = (): boolean => {
     if (typeof window === "undefined") return false;
     const runtime = (window as unknown as { __OPENCHAMBER_RUNTIME_APIS__?: { runtime?: { isVSCode?: boolean } } })
@@ -784,7 +791,9 @@ export const useSessionStore = create<SessionStore>()(
                     const directoryStore = useDirectoryStore.getState();
                     const fallbackDirectory = normalizePath(directoryStore.currentDirectory);
                     const vscodeWorkspaceDirectory = readVSCodeWorkspaceDirectory();
-                    const targetDirectory = vscodeWorkspaceDirectory ?? normalizePath(directoryOverride ?? opencodeClient.getDirectory() ?? fallbackDirectory);
+                    const targetDirectory = vscodeWorkspaceDirectory
+                        ? normalizePath(directoryOverride ?? null) ?? readActiveVSCodeProjectDirectory() ?? vscodeWorkspaceDirectory
+                        : normalizePath(directoryOverride ?? opencodeClient.getDirectory() ?? fallbackDirectory);
                     vscodeDebugLog("createSession:start", { title, parentID, targetDirectory, vscodeWorkspaceDirectory });
 
                     const tempId = `temp_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
@@ -111,6 +111,15 @@ export interface SyntheticContextPart {
     synthetic: true;
 }
 
+/** An edited copy of an earlier user message to send in its place */
+export interface EditedUserMessage {
+    text: string;
+    attachments: AttachedFile[];
+    agentMentionName?: string;
+    /** 'revert' rewinds the session to before the message; 'fork' continues in a new session */
+    mode: 'revert' | 'fork';
+}
+
 export type NewSessionDraftState = {
     open: boolean;
     directoryOverride: string | null;
@@ -254,6 +263,7 @@ export interface SessionStore {
     addServerFile: (path: string, name: string, content?: string) => Promise<void>;
     removeAttachedFile: (id: string) => void;
     clearAttachedFiles: () => void;
+    setAttachedFiles: (files: AttachedFile[]) => void;
 
     updateViewportAnchor: (sessionId: string, anchor: number) => void;
     trimToViewportWindow: (sessionId: string, targetSize?: number) => void;
@@ -299,6 +309,9 @@ export interface SessionStore {
       handleSlashUndo: (sessionId: string) => Promise<void>;
       handleSlashRedo: (sessionId: string) => Promise<void>;
       forkFromMessage: (sessionId: string, messageId: string) => Promise<void>;
+      editAndResendMessage: (sessionId: string, messageId: string, edit: EditedUserMessage) => Promise<{ sessionId: string; supersededSessionId: string | null }>;
+      compactSession: (sessionId: string) => Promise<void>;
+      continueSessionWithSummary: (sessionId: string, summary: string) => Promise<Session | null>;
       setPendingInputText: (text: string | null, mode?: 'replace' | 'append') => void;
       consumePendingInputText: () => { text: string; mode: 'replace' | 'append' } | null;
       setPendingSyntheticParts: (parts: SyntheticContextPart[] | null) => void;
@@ -0,0 +1,491 @@
+import { create } from "zustand";
+import { devtools, persist, createJSONStorage } from "zustand/middleware";
+import type { Message, Part } from "@opencode-ai/sdk/v2";
+
+import {
+  BUDGET_LIMIT_LABELS,
+  DEFAULT_PROJECT_DAILY_LIMITS,
+  DEFAULT_SESSION_BUDGET_LIMITS,
+  findProjectDailyBreach,
+  findSessionBreach,
+  formatBudgetValue,
+  type BudgetBreach,
+  type BudgetLimitKind,
+  type BudgetPolicy,
+  type BudgetUsage,
+  type ProjectDailyLimits,
+  type SessionBudgetLimits,
+} from "@/lib/budgets";
+import { opencodeClient } from "@/lib/opencode/client";
+import { resolveProject, toDayKey } from "@/lib/spendAnalytics";
+import { useMessageStore } from "./messageStore";
+import { useMessageQueueStore } from "./messageQueueStore";
+import { useProjectsStore } from "./useProjectsStore";
+import { useSessionStore } from "./useSessionStore";
+import { getSafeStorage } from "./utils/safeStorage";
+
+export interface ActiveBudgetBreach extends BudgetBreach {
+  // Dismissed breaches stay recorded so the same limit does not fire again on the next update
+  dismissed: boolean;
+}
+
+interface ProjectDailyOverride {
+  day: string;
+  limits: Partial<ProjectDailyLimits>;
+}
+
+interface DailyMessageUsage {
+  projectKey: string;
+  cost: number;
+  tokens: number;
+}
+
+interface BudgetState {
+  policy: BudgetPolicy;
+  sessionLimits: SessionBudgetLimits;
+  projectDailyLimits: ProjectDailyLimits;
+  // Limits raised from the breach banner; session ones last for the session, project ones for the day
+  sessionOverrides: Record<string, Partial<SessionBudgetLimits>>;
+  projectOverrides: Record<string, ProjectDailyOverride>;
+  // Assistant messages seen today, keyed by message id so repeated updates replace instead of add
+  dailyUsage: { day: string; messages: Record<string, DailyMessageUsage> };
+  breaches: Record<string, ActiveBudgetBreach>;
+}
+
+interface BudgetActions {
+  setPolicy: (policy: BudgetPolicy) => void;
+  setSessionLimit: (key: keyof SessionBudgetLimits, value: number | null) => void;
+  setProjectDailyLimit: (key: keyof ProjectDailyLimits, value: number | null) => void;
+  raiseLimit: (sessionId: string, value: number) => void;
+  dismissBreach: (sessionId: string) => void;
+}
+
+type BudgetStore = BudgetState & BudgetActions;
+
+const SESSION_LIMIT_KEYS: Partial<Record<BudgetLimitKind, keyof SessionBudgetLimits>> = {
+  sessionCost: "maxCost",
+  sessionTokens: "maxTokens",
+  sessionToolCalls: "maxToolCalls",
+};
+
+const PROJECT_LIMIT_KEYS: Partial<Record<BudgetLimitKind, keyof ProjectDailyLimits>> = {
+  projectDailyCost: "maxCost",
+  projectDailyTokens: "maxTokens",
+};
+
+const getSessionLimits = (state: BudgetState, sessionId: string): SessionBudgetLimits => ({
+  ...state.sessionLimits,
+  ...state.sessionOverrides[sessionId],
+});
+
+const getProjectLimits = (state: BudgetState, projectKey: string, day: string): ProjectDailyLimits => {
+  const override = state.projectOverrides[projectKey];
+  return override?.day === day ? { ...state.projectDailyLimits, ...override.limits } : state.projectDailyLimits;
+};
+
+const getLimitForBreach = (state: BudgetState, sessionId: string, breach: BudgetBreach): number | null => {
+  const sessionKey = SESSION_LIMIT_KEYS[breach.kind];
+  if (sessionKey) {
+    return getSessionLimits(state, sessionId)[sessionKey];
+  }
+  const projectKey = PROJECT_LIMIT_KEYS[breach.kind];
+  return projectKey && breach.projectKey
+    ? getProjectLimits(state, breach.projectKey, toDayKey(breach.at))[projectKey]
+    : null;
+};
+
+/** Drops breaches the current limits no longer trip and lets their queues send again. */
+const releaseResolvedBreaches = (state: BudgetState): Record<string, ActiveBudgetBreach> => {
+  const breaches: Record<string, ActiveBudgetBreach> = {};
+  for (const [sessionId, breach] of Object.entries(state.breaches)) {
+    const limit = getLimitForBreach(state, sessionId, breach);
+    if (typeof limit === "number" && limit > 0 && breach.value >= limit) {
+      breaches[sessionId] = breach;
+    } else {
+      useMessageQueueStore.getState().resumeQueue(sessionId);
+    }
+  }
+  return breaches;
+};
+
+const normalizeLimit = (value: number | null): number | null =>
+  typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+
+export const useBudgetStore = create<BudgetStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        policy: "warn",
+        sessionLimits: DEFAULT_SESSION_BUDGET_LIMITS,
+        projectDailyLimits: DEFAULT_PROJECT_DAILY_LIMITS,
+        sessionOverrides: {},
+        projectOverrides: {},
+        dailyUsage: { day: toDayKey(Date.now()), messages: {} },
+        breaches: {},
+
+        setPolicy: (policy) => set({ policy }),
+
+        setSessionLimit: (key, value) => {
+          set((state) => {
+            const next = { ...state, sessionLimits: { ...state.sessionLimits, [key]: normalizeLimit(value) } };
+            return { sessionLimits: next.sessionLimits, breaches: releaseResolvedBreaches(next) };
+          });
+        },
+
+        setProjectDailyLimit: (key, value) => {
+          set((state) => {
+            const next = { ...state, projectDailyLimits: { ...state.projectDailyLimits, [key]: normalizeLimit(value) } };
+            return { projectDailyLimits: next.projectDailyLimits, breaches: releaseResolvedBreaches(next) };
+          });
+        },
+
+        raiseLimit: (sessionId, value) => {
+          const state = get();
+          const breach = state.breaches[sessionId];
+          const limit = normalizeLimit(value);
+          if (!breach || limit === null) {
+            return;
+          }
+
+          const sessionKey = SESSION_LIMIT_KEYS[breach.kind];
+          const projectKey = PROJECT_LIMIT_KEYS[breach.kind];
+          let next: BudgetState = state;
+          if (sessionKey) {
+            next = {
+              ...state,
+              sessionOverrides: {
+                ...state.sessionOverrides,
+                [sessionId]: { ...state.sessionOverrides[sessionId], [sessionKey]: limit },
+              },
+            };
+          } else if (projectKey && breach.projectKey) {
+            const day = toDayKey(Date.now());
+            const current = state.projectOverrides[breach.projectKey];
+            next = {
+              ...state,
+              projectOverrides: {
+                ...state.projectOverrides,
+                [breach.projectKey]: {
+                  day,
+                  limits: { ...(current?.day === day ? current.limits : {}), [projectKey]: limit },
+                },
+              },
+            };
+          }
+
+          set({
+            sessionOverrides: next.sessionOverrides,
+            projectOverrides: next.projectOverrides,
+            breaches: releaseResolvedBreaches(next),
+          });
+        },
+
+        dismissBreach: (sessionId) => {
+          const breach = get().breaches[sessionId];
+          if (!breach) {
+            return;
+          }
+          set((state) => ({ breaches: { ...state.breaches, [sessionId]: { ...breach, dismissed: true } } }));
+          useMessageQueueStore.getState().resumeQueue(sessionId);
+        },
+      }),
+      {
+        name: "openchamber-budgets",
+        storage: createJSONStorage(() => getSafeStorage()),
+        partialize: (state) => ({
+          policy: state.policy,
+          sessionLimits: state.sessionLimits,
+          projectDailyLimits: state.projectDailyLimits,
+          sessionOverrides: state.sessionOverrides,
+          projectOverrides: state.projectOverrides,
+          dailyUsage: state.dailyUsage,
+        }),
+      }
+    ),
+    { name: "budget-store" }
+  )
+);
+
+const toNumber = (value: unknown): number => (typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0);
+
+const getMessageUsage = (info: Message, parts: Part[] | undefined): BudgetUsage => {
+  if (info.role !== "assistant") {
+    return { cost: 0, tokens: 0, toolCalls: 0 };
+  }
+  return {
+    cost: toNumber(info.cost),
+    tokens: toNumber(info.tokens?.input) + toNumber(info.tokens?.output) + toNumber(info.tokens?.reasoning),
+    toolCalls: Math.max(
+      parts ? parts.filter((part) => part.type === "tool").length : 0,
+      streamedToolParts.get(info.id)?.size ?? 0
+    ),
+  };
+};
+
+// sessionId -> messageId -> usage. Kept outside the message store, which only holds a window of
+// recent messages, so trimming does not lower a session's totals back under its limits.
+const sessionLedgers = new Map<string, Map<string, BudgetUsage>>();
+// Sessions whose full history has been (or is being) loaded into their ledger
+const seededSessions = new Map<string, Promise<void>>();
+// messageId -> tool part ids seen on the event stream. Sub-agent sessions are not in the message
+// store, so their tool calls are only visible through part events.
+const streamedToolParts = new Map<string, Set<string>>();
+
+const recordUsage = (sessionId: string, info: Message, parts: Part[] | undefined) => {
+  let ledger = sessionLedgers.get(sessionId);
+  if (!ledger) {
+    ledger = new Map();
+    sessionLedgers.set(sessionId, ledger);
+  }
+  const usage = getMessageUsage(info, parts);
+  const previous = ledger.get(info.id);
+  // Usage of a message only grows; taking the max keeps a stale history fetch or a late tool part
+  // from undoing a newer value
+  ledger.set(
+    info.id,
+    previous
+      ? {
+          cost: Math.max(usage.cost, previous.cost),
+          tokens: Math.max(usage.tokens, previous.tokens),
+          toolCalls: Math.max(usage.toolCalls, previous.toolCalls),
+        }
+      : usage
+  );
+};
+
+const getSessionDirectory = (sessionId: string): string | null => {
+  const session = useSessionStore.getState().sessions.find((entry) => entry.id === sessionId);
+  return session?.directory || useSessionStore.getState().getDirectoryForSession(sessionId);
+};
+
+const seedSession = (sessionId: string): Promise<void> => {
+  const existing = seededSessions.get(sessionId);
+  if (existing) {
+    return existing;
+  }
+  const directory = getSessionDirectory(sessionId);
+  const seeding = (directory
+    ? opencodeClient.withDirectory(directory, () => opencodeClient.getSessionMessages(sessionId))
+    : opencodeClient.getSessionMessages(sessionId)
+  )
+    .then((messages) => {
+      for (const message of messages) {
+        if (message.info.role === "assistant") {
+          recordUsage(sessionId, message.info, message.parts);
+        }
+      }
+    })
+    .catch((error) => {
+      // Totals fall back to what this client has seen; retrying on every update would hammer the server
+      console.warn("[BudgetStore] Failed to load session history:", sessionId, error);
+    });
+  seededSessions.set(sessionId, seeding);
+  return seeding;
+};
+
+/** Session whose budget a (sub-agent) session spends from: its top-most known ancestor. */
+export const getBudgetRootSessionId = (sessions: Array<{ id: string; parentID?: string }>, sessionId: string): string => {
+  const parents = new Map(sessions.map((session) => [session.id, session.parentID]));
+  let rootId = sessionId;
+  const visited = new Set<string>([rootId]);
+  for (let parentId = parents.get(rootId); parentId && !visited.has(parentId); parentId = parents.get(rootId)) {
+    visited.add(parentId);
+    rootId = parentId;
+  }
+  return rootId;
+};
+
+/**
+ * The session and every sub-agent session under it, root first. Sub-agent (task tool) sessions
+ * spend on behalf of their parent, so a runaway child counts toward the root's budget.
+ */
+const getSessionTree = (sessionId: string): string[] => {
+  const sessions = useSessionStore.getState().sessions;
+  const tree = [getBudgetRootSessionId(sessions, sessionId)];
+  for (let index = 0; index < tree.length; index += 1) {
+    for (const session of sessions) {
+      if (session.parentID === tree[index] && !tree.includes(session.id)) {
+        tree.push(session.id);
+      }
+    }
+  }
+  if (!tree.includes(sessionId)) {
+    tree.push(sessionId);
+  }
+  return tree;
+};
+
+const getTreeUsage = (tree: string[]): BudgetUsage => {
+  const total: BudgetUsage = { cost: 0, tokens: 0, toolCalls: 0 };
+  for (const sessionId of tree) {
+    for (const usage of sessionLedgers.get(sessionId)?.values() ?? []) {
+      total.cost += usage.cost;
+      total.tokens += usage.tokens;
+      total.toolCalls += usage.toolCalls;
+    }
+  }
+  return total;
+};
+
+const POLICY_OUTCOMES: Record<BudgetPolicy, string> = {
+  warn: "The agent keeps running.",
+  pause: "Queued messages are paused.",
+  abort: "The running turn was stopped and queued messages are paused.",
+};
+
+const applyPolicy = (rootId: string, sourceSessionId: string, breach: BudgetBreach) => {
+  if (breach.policy !== "warn") {
+    useMessageQueueStore.getState().pauseQueue(rootId);
+  }
+  if (breach.policy === "abort") {
+    const { abortCurrentOperation } = useMessageStore.getState();
+    void abortCurrentOperation(sourceSessionId);
+    if (rootId !== sourceSessionId) {
+      void abortCurrentOperation(rootId);
+    }
+  }
+
+  const scope = breach.projectLabel ? ` for ${breach.projectLabel}` : "";
+  void import("sonner").then(({ toast }) => {
+    toast.warning(`Budget reached: ${BUDGET_LIMIT_LABELS[breach.kind]}${scope}`, {
+      description: `${formatBudgetValue(breach.kind, breach.value)} of ${formatBudgetValue(breach.kind, breach.limit)}. ${POLICY_OUTCOMES[breach.policy]}`,
+    });
+  });
+};
+
+const hasProjectLimits = (state: BudgetState): boolean =>
+  Object.values(state.projectDailyLimits).some((limit) => limit !== null) || Object.keys(state.projectOverrides).length > 0;
+
+/** Checks the budgets of the session tree `sourceSessionId` belongs to; breaches are recorded on the root. */
+const evaluateBudgets = (tree: string[], sourceSessionId: string): void => {
+  const rootId = tree[0];
+  const state = useBudgetStore.getState();
+  const now = Date.now();
+  const today = toDayKey(now);
+
+  let found: Pick<BudgetBreach, "kind" | "limit" | "value" | "projectKey" | "projectLabel"> | null =
+    findSessionBreach(getTreeUsage(tree), getSessionLimits(state, rootId));
+
+  if (!found && hasProjectLimits(state) && state.dailyUsage.day === today) {
+    const project = resolveProject(getSessionDirectory(sourceSessionId), useProjectsStore.getState().projects);
+    const projectUsage = { cost: 0, tokens: 0 };
+    for (const entry of Object.values(state.dailyUsage.messages)) {
+      if (entry.projectKey === project.key) {
+        projectUsage.cost += entry.cost;
+        projectUsage.tokens += entry.tokens;
+      }
+    }
+    const projectBreach = findProjectDailyBreach(projectUsage, getProjectLimits(state, project.key, today));
+    if (projectBreach) {
+      found = { ...projectBreach, projectKey: project.key, projectLabel: project.label };
+    }
+  }
+
+  if (!found) {
+    return;
+  }
+  const detected = found;
+
+  const existing = state.breaches[rootId];
+  if (existing && existing.kind === detected.kind && existing.limit === detected.limit) {
+    if (existing.value !== detected.value) {
+      useBudgetStore.setState((current) => ({
+        breaches: { ...current.breaches, [rootId]: { ...existing, value: detected.value } },
+      }));
+    }
+    return;
+  }
+
+  const breach: ActiveBudgetBreach = { ...detected, policy: state.policy, at: now, dismissed: false };
+  useBudgetStore.setState((current) => ({ breaches: { ...current.breaches, [rootId]: breach } }));
+  applyPolicy(rootId, sourceSessionId, breach);
+};
+
+/**
+ * Evaluates budgets for an assistant message.updated event. Session totals include the full
+ * history (loaded once per session) and every sub-agent session under the same root. Daily project
+ * caps only count spend this client has seen, since sessions driven elsewhere never reach this stream.
+ */
+export const handleBudgetMessageEvent = (sessionId: string, info: Message): void => {
+  if (info.role !== "assistant") {
+    return;
+  }
+
+  const state = useBudgetStore.getState();
+  const tree = getSessionTree(sessionId);
+  const hasSessionLimits = Object.values(getSessionLimits(state, tree[0])).some((limit) => limit !== null);
+  if (!hasSessionLimits && !hasProjectLimits(state)) {
+    return;
+  }
+
+  const stored = useMessageStore.getState().messages.get(sessionId) ?? [];
+  for (const message of stored) {
+    if (message.info?.role === "assistant" && message.info.id !== info.id) {
+      recordUsage(sessionId, message.info as Message, message.parts);
+    }
+  }
+  recordUsage(sessionId, info, stored.find((message) => message.info?.id === info.id)?.parts);
+
+  const now = Date.now();
+  const today = toDayKey(now);
+  if (toDayKey(info.time?.created ?? now) === today) {
+    const project = resolveProject(getSessionDirectory(sessionId), useProjectsStore.getState().projects);
+    const messageUsage = getMessageUsage(info, undefined);
+    const messages = state.dailyUsage.day === today ? state.dailyUsage.messages : {};
+    const previous = messages[info.id];
+    if (
+      !previous ||
+      previous.projectKey !== project.key ||
+      previous.cost !== messageUsage.cost ||
+      previous.tokens !== messageUsage.tokens
+    ) {
+      useBudgetStore.setState({
+        dailyUsage: {
+          day: today,
+          messages: { ...messages, [info.id]: { projectKey: project.key, cost: messageUsage.cost, tokens: messageUsage.tokens } },
+        },
+      });
+    }
+  }
+
+  evaluateBudgets(tree, sessionId);
+
+  const unseeded = tree.filter((id) => !seededSessions.has(id));
+  if (unseeded.length > 0) {
+    // Re-check once the older history is in; a long session can already be past its limit
+    void Promise.all(unseeded.map(seedSession)).then(() => evaluateBudgets(getSessionTree(sessionId), sessionId));
+  }
+};
+
+/**
+ * Counts a tool call from a message.part.updated event. Assistant message updates carry no parts, so
+ * without this a sub-agent's tool calls would only be counted by the one-off history seed.
+ */
+export const handleBudgetToolPartEvent = (sessionId: string, messageId: string, part: Part): void => {
+  if (part.type !== "tool") {
+    return;
+  }
+  const seen = streamedToolParts.get(messageId) ?? new Set<string>();
+  if (seen.has(part.id)) {
+    return;
+  }
+  seen.add(part.id);
+  streamedToolParts.set(messageId, seen);
+
+  const tree = getSessionTree(sessionId);
+  const hasToolCallLimit = getSessionLimits(useBudgetStore.getState(), tree[0]).maxToolCalls !== null;
+  if (!hasToolCallLimit) {
+    return;
+  }
+
+  let ledger = sessionLedgers.get(sessionId);
+  if (!ledger) {
+    ledger = new Map();
+    sessionLedgers.set(sessionId, ledger);
+  }
+  const previous = ledger.get(messageId) ?? { cost: 0, tokens: 0, toolCalls: 0 };
+  ledger.set(messageId, { ...previous, toolCalls: Math.max(previous.toolCalls, seen.size) });
+  evaluateBudgets(tree, sessionId);
+};
+
+export default useBudgetStore;
@@ -0,0 +1,181 @@
+import { create } from 'zustand';
+import { devtools, persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import type { AttachedFile } from './types/sessionTypes';
+import { getSafeStorage } from './utils/safeStorage';
+
+export interface ComposerDraft {
+  text: string;
+  attachments: AttachedFile[];
+  agentName?: string;
+  providerId?: string;
+  modelId?: string;
+  variant?: string;
+  updatedAt: number;
+}
+
+interface ComposerDraftState {
+  drafts: Record<string, ComposerDraft>; // draftKey -> unsent composer state
+}
+
+interface ComposerDraftActions {
+  saveDraft: (draftKey: string, draft: Omit<ComposerDraft, 'updatedAt'>) => void;
+  getDraft: (draftKey: string) => ComposerDraft | null;
+  clearDraft: (draftKey: string) => void;
+}
+
+type ComposerDraftStore = ComposerDraftState & ComposerDraftActions;
+
+// Attachment as written to storage: no File object, and only attachments that can be rebuilt from it
+type PersistedDraftAttachment = Omit<AttachedFile, 'file'>;
+
+const DRAFT_WRITE_DELAY_MS = 500;
+
+const NEW_SESSION_DRAFT_PREFIX = 'new:';
+
+/** Drafts are keyed by session id, or by project directory while composing a new session. */
+export const getComposerDraftKey = (sessionId: string | null, newSessionDirectory: string | null | undefined): string =>
+  sessionId ?? `${NEW_SESSION_DRAFT_PREFIX}${newSessionDirectory ?? ''}`;
+
+export const isNewSessionDraftKey = (draftKey: string): boolean => draftKey.startsWith(NEW_SESSION_DRAFT_PREFIX);
+
+export const hasUnsentDraftText = (draft: ComposerDraft | undefined): boolean =>
+  Boolean(draft && draft.text.trim().length > 0);
+
+/**
+ * Inlined attachments (pasted images, local files, binary server files) can be megabytes of base64,
+ * and one quota error disables localStorage for every store, so they only live for the page lifetime.
+ * Server files referenced by a file:// URL are kept.
+ */
+const toPersistedAttachments = (attachments: AttachedFile[]): PersistedDraftAttachment[] =>
+  attachments
+    .filter((attachment) => attachment.source === 'server' && !attachment.dataUrl.startsWith('data:'))
+    .map((attachment) => {
+      const { file: _file, ...rest } = attachment;
+      void _file;
+      return rest;
+    });
+
+const fromPersistedAttachments = (attachments: PersistedDraftAttachment[] | undefined): AttachedFile[] =>
+  (attachments ?? []).map((attachment) => ({
+    ...attachment,
+    file: new File([], attachment.filename, { type: attachment.mimeType }),
+  }));
+
+/** Coalesces the per-keystroke saves into one storage write; the last one is flushed when the page goes away. */
+const createDebouncedDraftStorage = (): StateStorage => {
+  let pending: { name: string; value: string } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending) {
+      getSafeStorage().setItem(pending.name, pending.value);
+      pending = null;
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', flush);
+  }
+
+  return {
+    getItem: (name) => (pending?.name === name ? pending.value : getSafeStorage().getItem(name)),
+    setItem: (name, value) => {
+      pending = { name, value };
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, DRAFT_WRITE_DELAY_MS);
+    },
+    removeItem: (name) => {
+      if (pending?.name === name) {
+        pending = null;
+      }
+      getSafeStorage().removeItem(name);
+    },
+  };
+};
+
+export const useComposerDraftStore = create<ComposerDraftStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        drafts: {},
+
+        saveDraft: (draftKey, draft) => {
+          const isEmpty = draft.text.length === 0 && draft.attachments.length === 0;
+          set((state) => {
+            if (isEmpty) {
+              if (!state.drafts[draftKey]) {
+                return state;
+              }
+              const { [draftKey]: _removed, ...rest } = state.drafts;
+              void _removed;
+              return { drafts: rest };
+            }
+
+            return {
+              drafts: {
+                ...state.drafts,
+                [draftKey]: { ...draft, updatedAt: Date.now() },
+              },
+            };
+          });
+        },
+
+        getDraft: (draftKey) => {
+          return get().drafts[draftKey] ?? null;
+        },
+
+        clearDraft: (draftKey) => {
+          set((state) => {
+            const { [draftKey]: _removed, ...rest } = state.drafts;
+            void _removed;
+            return { drafts: rest };
+          });
+        },
+      }),
+      {
+        name: 'openchamber-composer-drafts',
+        storage: createJSONStorage(() => createDebouncedDraftStorage()),
+        partialize: (state) => ({
+          drafts: Object.fromEntries(
+            Object.entries(state.drafts).map(([draftKey, draft]) => [
+              draftKey,
+              { ...draft, attachments: toPersistedAttachments(draft.attachments) },
+            ])
+          ),
+        }),
+        merge: (persistedState, currentState) => {
+          const persisted = persistedState as { drafts?: Record<string, Omit<ComposerDraft, 'attachments'> & { attachments?: PersistedDraftAttachment[] }> } | undefined;
+          const drafts: Record<string, ComposerDraft> = {};
+          for (const [draftKey, draft] of Object.entries(persisted?.drafts ?? {})) {
+            drafts[draftKey] = { ...draft, attachments: fromPersistedAttachments(draft.attachments) };
+          }
+          return { ...currentState, drafts: { ...drafts, ...currentState.drafts } };
+        },
+      }
+    ),
+    { name: 'composer-draft-store' }
+  )
+);
+
+/** Drops the drafts of deleted sessions so they do not pile up in storage. */
+export const pruneComposerDrafts = (sessionIds: string[]): void => {
+  const { drafts } = useComposerDraftStore.getState();
+  if (!sessionIds.some((sessionId) => drafts[sessionId])) {
+    return;
+  }
+  useComposerDraftStore.setState((state) => {
+    const next = { ...state.drafts };
+    for (const sessionId of sessionIds) {
+      delete next[sessionId];
+    }
+    return { drafts: next };
+  });
+};
+
+export default useComposerDraftStore;
@@ -0,0 +1,74 @@
+import { create } from 'zustand';
+import { devtools, persist, createJSONStorage } from 'zustand/middleware';
+import { getSafeStorage } from './utils/safeStorage';
+
+export interface EditorContextFile {
+  path: string;
+  relativePath: string;
+}
+
+export interface EditorContextActiveFile extends EditorContextFile {
+  languageId: string;
+  cursorLine: number;
+  visibleRange: { startLine: number; endLine: number } | null;
+  selection: { startLine: number; endLine: number; text?: string; truncated?: boolean } | null;
+}
+
+/** Editor state published by the VS Code extension; never set in the web or desktop runtimes. */
+export interface EditorContextSnapshot {
+  enabled: boolean;
+  includeContent: boolean;
+  activeFile: EditorContextActiveFile | null;
+  openEditors: EditorContextFile[];
+}
+
+interface EditorContextState {
+  snapshot: EditorContextSnapshot | null;
+  attachedSessions: Record<string, boolean>; // sessionKey -> attach editor context to prompts
+}
+
+interface EditorContextActions {
+  setSnapshot: (snapshot: EditorContextSnapshot | null) => void;
+  setAttached: (sessionKey: string, attached: boolean) => void;
+  isAttached: (sessionKey: string) => boolean;
+}
+
+type EditorContextStore = EditorContextState & EditorContextActions;
+
+export const useEditorContextStore = create<EditorContextStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        snapshot: null,
+        attachedSessions: {},
+
+        setSnapshot: (snapshot) => {
+          set({ snapshot });
+        },
+
+        setAttached: (sessionKey, attached) => {
+          set((state) => {
+            if (attached) {
+              return { attachedSessions: { ...state.attachedSessions, [sessionKey]: true } };
+            }
+            const { [sessionKey]: _removed, ...rest } = state.attachedSessions;
+            void _removed;
+            return { attachedSessions: rest };
+          });
+        },
+
+        isAttached: (sessionKey) => {
+          return get().attachedSessions[sessionKey] === true;
+        },
+      }),
+      {
+        name: 'openchamber-editor-context',
+        storage: createJSONStorage(() => getSafeStorage()),
+        partialize: (state) => ({ attachedSessions: state.attachedSessions }),
+      }
+    ),
+    { name: 'editor-context-store' }
+  )
+);
+
+export default useEditorContextStore;
@@ -0,0 +1,60 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+
+import { parseSessionExport } from "@/lib/sessionExport";
+import {
+  deleteImportedSession,
+  listImportedSessions,
+  saveImportedSession,
+  type ImportedSessionRecord,
+} from "@/lib/importedSessions";
+
+interface ImportedSessionsStore {
+  // Read-only archives restored from JSON exports, newest import first
+  imports: ImportedSessionRecord[];
+  isLoaded: boolean;
+
+  // Actions
+  loadImports: () => Promise<void>;
+  importFile: (file: File) => Promise<ImportedSessionRecord>;
+  removeImport: (id: string) => Promise<void>;
+}
+
+const createImportId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `import-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const useImportedSessionsStore = create<ImportedSessionsStore>()(
+  devtools(
+    (set, get) => ({
+      imports: [],
+      isLoaded: false,
+
+      loadImports: async () => {
+        try {
+          const imports = await listImportedSessions();
+          set({ imports, isLoaded: true });
+        } catch (error) {
+          console.warn("[ImportedSessionsStore] Failed to load imported sessions:", error);
+          set({ isLoaded: true });
+        }
+      },
+
+      importFile: async (file: File) => {
+        // parseSessionExport throws a user-facing message for files that are not exports
+        const data = parseSessionExport(await file.text());
+        const record: ImportedSessionRecord = { id: createImportId(), importedAt: Date.now(), data };
+        await saveImportedSession(record);
+        set({ imports: [record, ...get().imports] });
+        return record;
+      },
+
+      removeImport: async (id: string) => {
+        await deleteImportedSession(id);
+        set({ imports: get().imports.filter((record) => record.id !== id) });
+      },
+    }),
+    { name: "imported-sessions-store" }
+  )
+);
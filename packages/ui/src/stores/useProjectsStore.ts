@@ -27,6 +27,7 @@ interface ProjectsStore {
   reorderProjects: (fromIndex: number, toIndex: number) => void;
   validateProjectPath: (path: string) => ProjectPathValidationResult;
   synchronizeFromSettings: (settings: DesktopSettings) => void;
+  syncWorkspaceFolders: (folders: string[]) => void;
   getActiveProject: () => ProjectEntry | null;
 }
 
@@ -185,6 +186,33 @@ const persistProjects = (projects: ProjectEntry[], activeProjectId: string | nul
 };
 
 const initialProjects = readPersistedProjects();
+const createWorkspaceFolderProject = (folder: string, now: number): ProjectEntry | null => {
+  const normalizedPath = normalizeProjectPath(folder);
+  if (!normalizedPath) {
+    return null;
+  }
+  return {
+    id: `vscode:${normalizedPath}`,
+    path: normalizedPath,
+    label: deriveProjectLabel(normalizedPath),
+    addedAt: now,
+    lastOpenedAt: now,
+  };
+};
+
+const buildWorkspaceFolderProjects = (folders: string[]): ProjectEntry[] => {
+  const now = Date.now();
+  const seen = new Set<string>();
+  const projects: ProjectEntry[] = [];
+  for (const folder of folders) {
+    const entry = createWorkspaceFolderProject(folder, now);
+    if (!entry || seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    projects.push(entry);
+  }
+  return projects;
+};
+
 const getVSCodeWorkspaceProject = (): { projects: ProjectEntry[]; activeProjectId: string | null } | null => {
   if (typeof window === 'undefined') {
     return null;
@@ -196,34 +224,34 @@ const getVSCodeWorkspaceProject = (): { projects: ProjectEntry[]; activeProjectI
     return null;
   }
 
-  const workspaceFolder = (window as unknown as { __VSCODE_CONFIG__?: { workspaceFolder?: unknown } }).__VSCODE_CONFIG__?.workspaceFolder;
-  if (typeof workspaceFolder !== 'string' || workspaceFolder.trim().length === 0) {
-    return null;
+  const config = (window as unknown as { __VSCODE_CONFIG__?: { workspaceFolder?: unknown; workspaceFolders?: unknown } }).__VSCODE_CONFIG__;
+  const folders = Array.isArray(config?.workspaceFolders)
+    ? config.workspaceFolders.filter((folder): folder is string => typeof folder === 'string' && folder.trim().length > 0)
+    : [];
+  if (folders.length === 0 && typeof config?.workspaceFolder === 'string' && config.workspaceFolder.trim().length > 0) {
+    folders.push(config.workspaceFolder);
   }
 
-  const normalizedPath = normalizeProjectPath(workspaceFolder);
-  if (!normalizedPath) {
+  const projects = buildWorkspaceFolderProjects(folders);
+  if (projects.length === 0) {
     return null;
   }
 
-  const id = `vscode:${normalizedPath}`;
-  const entry: ProjectEntry = {
-    id,
-    path: normalizedPath,
-    label: deriveProjectLabel(normalizedPath),
-    addedAt: Date.now(),
-    lastOpenedAt: Date.now(),
-  };
+  // Multi-root workspaces remember which folder was last active
+  const persistedActiveId = readPersistedActiveProjectId();
+  const activeProjectId = projects.some((project) => project.id === persistedActiveId)
+    ? persistedActiveId
+    : projects[0].id;
 
   if (streamDebugEnabled()) {
-    console.log('[OpenChamber][VSCode][projects] Using workspace fallback project', entry);
+    console.log('[OpenChamber][VSCode][projects] Using workspace folder projects', projects);
   }
 
-  return { projects: [entry], activeProjectId: id };
+  return { projects, activeProjectId };
 };
 
-// VS Code runtime should behave as a single-project environment scoped to the workspace folder.
-// Always prefer the workspace project over any persisted multi-project registry.
+// VS Code runtime exposes exactly the workspace folders as projects; users add or remove
+// folders through VS Code, never through the persisted multi-project registry.
 const vscodeWorkspace = getVSCodeWorkspaceProject();
 const effectiveInitialProjects = vscodeWorkspace?.projects ?? initialProjects;
 const initialActiveProjectId = vscodeWorkspace?.activeProjectId
@@ -322,9 +350,6 @@ export const useProjectsStore = create<ProjectsStore>()(
     },
 
     setActiveProject: (id: string) => {
-      if (vscodeWorkspace) {
-        return;
-      }
       const { projects, activeProjectId } = get();
       if (activeProjectId === id) {
         return;
@@ -340,16 +365,17 @@ export const useProjectsStore = create<ProjectsStore>()(
       );
 
       set({ projects: nextProjects, activeProjectId: id });
-      persistProjects(nextProjects, id);
+      if (vscodeWorkspace) {
+        cacheProjects(nextProjects, id);
+      } else {
+        persistProjects(nextProjects, id);
+      }
 
       opencodeClient.setDirectory(target.path);
       useDirectoryStore.getState().setDirectory(target.path, { showOverlay: false });
     },
 
     setActiveProjectIdOnly: (id: string) => {
-      if (vscodeWorkspace) {
-        return;
-      }
       const { projects, activeProjectId } = get();
       if (activeProjectId === id) {
         return;
@@ -365,7 +391,11 @@ export const useProjectsStore = create<ProjectsStore>()(
       );
 
       set({ projects: nextProjects, activeProjectId: id });
-      persistProjects(nextProjects, id);
+      if (vscodeWorkspace) {
+        cacheProjects(nextProjects, id);
+      } else {
+        persistProjects(nextProjects, id);
+      }
     },
 
     renameProject: (id: string, label: string) => {
@@ -457,6 +487,30 @@ export const useProjectsStore = create<ProjectsStore>()(
       }
     },
 
+    syncWorkspaceFolders: (folders: string[]) => {
+      if (!vscodeWorkspace) {
+        return;
+      }
+      const current = get();
+      const existingById = new Map(current.projects.map((project) => [project.id, project]));
+      const nextProjects = buildWorkspaceFolderProjects(folders).map((project) => existingById.get(project.id) ?? project);
+      if (nextProjects.length === 0) {
+        return;
+      }
+
+      const activeStillOpen = nextProjects.some((project) => project.id === current.activeProjectId);
+      const nextActiveId = activeStillOpen ? current.activeProjectId : nextProjects[0].id;
+      set({ projects: nextProjects, activeProjectId: nextActiveId });
+      cacheProjects(nextProjects, nextActiveId);
+
+      // The active folder was removed from the workspace: fall back to the first remaining one
+      if (!activeStillOpen) {
+        const nextActive = nextProjects[0];
+        opencodeClient.setDirectory(nextActive.path);
+        useDirectoryStore.getState().setDirectory(nextActive.path, { showOverlay: false });
+      }
+    },
+
     getActiveProject: () => {
       const { projects, activeProjectId } = get();
       if (!activeProjectId) {
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { devtools, persist, createJSONStorage } from 'zustand/middleware';
+import { getSafeStorage } from './utils/safeStorage';
+
+// 'fork' and 'edit' branch into a new session; 'edit-archive' is the copy kept when an edit reverts in place;
+// 'continue' is a fresh session seeded with a summary of the source
+export type SessionForkReason = 'fork' | 'edit' | 'edit-archive' | 'continue';
+
+export interface SessionForkOrigin {
+  sourceSessionId: string;
+  // Message the branch diverges at; null when the whole session was copied
+  messageId: string | null;
+  messagePreview?: string;
+  reason: SessionForkReason;
+  createdAt: number;
+}
+
+interface SessionLineageState {
+  // OpenCode does not record where a fork came from, so the client keeps it: forked sessionId -> origin
+  forks: Record<string, SessionForkOrigin>;
+}
+
+interface SessionLineageActions {
+  recordFork: (sessionId: string, origin: Omit<SessionForkOrigin, 'createdAt'>) => void;
+  removeSessions: (sessionIds: string[]) => void;
+}
+
+type SessionLineageStore = SessionLineageState & SessionLineageActions;
+
+export const useSessionLineageStore = create<SessionLineageStore>()(
+  devtools(
+    persist(
+      (set) => ({
+        forks: {},
+
+        recordFork: (sessionId, origin) => {
+          set((state) => ({
+            forks: {
+              ...state.forks,
+              [sessionId]: { ...origin, createdAt: Date.now() },
+            },
+          }));
+        },
+
+        removeSessions: (sessionIds) => {
+          set((state) => {
+            const removed = new Set(sessionIds);
+            // Most deleted sessions were never forked; skip the persisted write for them
+            if (!sessionIds.some((id) => id in state.forks)) {
+              return state;
+            }
+            const forks: Record<string, SessionForkOrigin> = {};
+            for (const [id, origin] of Object.entries(state.forks)) {
+              if (!removed.has(id)) {
+                forks[id] = origin;
+              }
+            }
+            return { forks };
+          });
+        },
+      }),
+      {
+        name: 'openchamber-session-lineage',
+        storage: createJSONStorage(() => getSafeStorage()),
+      }
+    ),
+    { name: 'session-lineage-store' }
+  )
+);
+
+export default useSessionLineageStore;
@@ -0,0 +1,216 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import type { Message, Part, Session } from "@opencode-ai/sdk/v2";
+
+import { opencodeClient } from "@/lib/opencode/client";
+import {
+  applySessionToEntry,
+  createSessionSearchEntry,
+  indexMessageInfo,
+  indexMessagePart,
+  removeMessageFromEntry,
+  removePartFromEntry,
+  type SessionSearchEntry,
+} from "@/lib/sessionSearch";
+import { useSessionStore } from "./useSessionStore";
+
+export type SessionSearchIndexStatus = "idle" | "indexing" | "ready";
+
+interface SessionSearchStore {
+  // Map of sessionId -> index entry; entries are mutated in place and `version` bumps on change
+  entries: Map<string, SessionSearchEntry>;
+  version: number;
+  status: SessionSearchIndexStatus;
+  progress: { done: number; total: number };
+
+  // Actions
+  ensureIndex: () => Promise<void>;
+  markChanged: () => void;
+  clearIndex: () => void;
+}
+
+const CHANGE_NOTIFY_DELAY_MS = 400;
+
+let indexingPromise: Promise<void> | null = null;
+let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const fetchSessionMessages = async (session: Session) => {
+  const directory = session.directory || useSessionStore.getState().getDirectoryForSession(session.id);
+  return directory
+    ? opencodeClient.withDirectory(directory, () => opencodeClient.getSessionMessages(session.id))
+    : opencodeClient.getSessionMessages(session.id);
+};
+
+const buildEntry = (session: Session, messages: Array<{ info: Message; parts: Part[] }>): SessionSearchEntry => {
+  const entry = createSessionSearchEntry(session);
+  for (const message of messages) {
+    indexMessageInfo(entry, message.info);
+    for (const part of message.parts) {
+      indexMessagePart(entry, part);
+    }
+  }
+  entry.indexedAt = session.time?.updated ?? 0;
+  return entry;
+};
+
+export const useSessionSearchStore = create<SessionSearchStore>()(
+  devtools(
+    (set, get) => ({
+      entries: new Map(),
+      version: 0,
+      status: "idle",
+      progress: { done: 0, total: 0 },
+
+      ensureIndex: async () => {
+        if (indexingPromise) {
+          return indexingPromise;
+        }
+
+        indexingPromise = (async () => {
+          const sessions = useSessionStore.getState().sessions;
+          const { entries } = get();
+          const knownIds = new Set(sessions.map((session) => session.id));
+          for (const sessionId of entries.keys()) {
+            if (!knownIds.has(sessionId)) {
+              entries.delete(sessionId);
+            }
+          }
+
+          // Only sessions that changed since they were indexed need their history fetched again
+          const stale = sessions.filter((session) => {
+            const entry = entries.get(session.id);
+            if (entry) {
+              applySessionToEntry(entry, session);
+            }
+            return !entry || entry.indexedAt < (session.time?.updated ?? 0);
+          });
+
+          set((state) => ({
+            status: stale.length > 0 ? "indexing" : "ready",
+            progress: { done: 0, total: stale.length },
+            version: state.version + 1,
+          }));
+
+          let done = 0;
+          for (const session of stale) {
+            try {
+              const messages = await fetchSessionMessages(session);
+              get().entries.set(session.id, buildEntry(session, messages));
+            } catch (error) {
+              console.warn("[SessionSearchStore] Failed to index session:", session.id, error);
+            }
+            done += 1;
+            set((state) => ({ progress: { done, total: stale.length }, version: state.version + 1 }));
+          }
+
+          set({ status: "ready" });
+        })().finally(() => {
+          indexingPromise = null;
+        });
+
+        return indexingPromise;
+      },
+
+      markChanged: () => {
+        if (changeTimer) {
+          return;
+        }
+        changeTimer = setTimeout(() => {
+          changeTimer = null;
+          set((state) => ({ version: state.version + 1 }));
+        }, CHANGE_NOTIFY_DELAY_MS);
+      },
+
+      clearIndex: () => {
+        set((state) => ({
+          entries: new Map(),
+          status: "idle",
+          progress: { done: 0, total: 0 },
+          version: state.version + 1,
+        }));
+      },
+    }),
+    { name: "session-search-store" }
+  )
+);
+
+const readString = (value: unknown): string | null => (typeof value === "string" && value.length > 0 ? value : null);
+
+// Helper to keep the index current from SSE events; sessions not indexed yet are picked up by ensureIndex
+export const handleSessionSearchEvent = (type: string, props: Record<string, unknown>): void => {
+  const store = useSessionSearchStore.getState();
+  if (store.status === "idle") {
+    return;
+  }
+  const { entries } = store;
+
+  switch (type) {
+    case "global.disposed":
+    case "server.instance.disposed":
+      store.clearIndex();
+      return;
+
+    case "session.created":
+    case "session.updated": {
+      const info = props.info as Session | undefined;
+      if (!info?.id) return;
+      const entry = entries.get(info.id);
+      if (entry) {
+        applySessionToEntry(entry, info);
+        // The entry followed every event of this session, so it is current with the update
+        entry.indexedAt = Math.max(entry.indexedAt, info.time?.updated ?? 0);
+      } else if (type === "session.created") {
+        const created = createSessionSearchEntry(info);
+        created.indexedAt = info.time?.updated ?? 0;
+        entries.set(info.id, created);
+      } else {
+        return;
+      }
+      break;
+    }
+
+    case "session.deleted": {
+      const info = props.info as Session | undefined;
+      const sessionId = readString(info?.id) ?? readString(props.sessionID);
+      if (!sessionId || !entries.delete(sessionId)) return;
+      break;
+    }
+
+    case "message.updated": {
+      const info = props.info as Message | undefined;
+      const entry = info?.sessionID ? entries.get(info.sessionID) : undefined;
+      if (!info || !entry) return;
+      indexMessageInfo(entry, info);
+      break;
+    }
+
+    case "message.removed": {
+      const entry = entries.get(readString(props.sessionID) ?? "");
+      const messageId = readString(props.messageID);
+      if (!entry || !messageId) return;
+      removeMessageFromEntry(entry, messageId);
+      break;
+    }
+
+    case "message.part.updated": {
+      const part = props.part as Part | undefined;
+      const entry = part?.sessionID ? entries.get(part.sessionID) : undefined;
+      if (!part || !entry) return;
+      indexMessagePart(entry, part);
+      break;
+    }
+
+    case "message.part.removed": {
+      const entry = entries.get(readString(props.sessionID) ?? "");
+      const partId = readString(props.partID);
+      if (!entry || !partId) return;
+      removePartFromEntry(entry, partId);
+      break;
+    }
+
+    default:
+      return;
+  }
+
+  store.markChanged();
+};
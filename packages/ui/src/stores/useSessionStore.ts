@@ -4,7 +4,7 @@ import { devtools } from "zustand/middleware";
 import type { Session, Message, Part } from "@opencode-ai/sdk/v2";
 import type { PermissionRequest, PermissionResponse } from "@/types/permission";
 import type { QuestionRequest } from "@/types/question";
-import type { SessionStore, AttachedFile, EditPermissionMode, SyntheticContextPart } from "./types/sessionTypes";
+import type { SessionStore, AttachedFile, EditPermissionMode, EditedUserMessage, SyntheticContextPart } from "./types/sessionTypes";
 import { getMessageLimit, getBackgroundTrimLimit } from "./types/sessionTypes";
 
 import { useSessionStore as useSessionManagementStore } from "./sessionStore";
@@ -17,10 +17,12 @@ import { opencodeClient } from "@/lib/opencode/client";
 import { useDirectoryStore } from "./useDirectoryStore";
 import { useConfigStore } from "./useConfigStore";
 import { useProjectsStore } from "./useProjectsStore";
+import { useSessionLineageStore } from "./useSessionLineageStore";
+import { pruneComposerDrafts } from "./useComposerDraftStore";
 import { EXECUTION_FORK_META_TEXT } from "@/lib/messages/executionMeta";
 import { flattenAssistantTextParts } from "@/lib/messages/messageText";
 
-export type { AttachedFile, EditPermissionMode };
+export type { AttachedFile, EditPermissionMode, EditedUserMessage };
 export { MEMORY_LIMITS, ACTIVE_SESSION_WINDOW } from "./types/sessionTypes";
 
 declare global {
@@ -64,6 +66,24 @@ const resolveSessionDirectory = (
     return normalizePath(target.directory ?? null);
 };
 
+// Agent/model/variant of the latest user message, falling back to the composer selection
+const resolveLatestSelection = (messages: Array<{ info: Message; parts: Part[] }>) => {
+    const latestUser = [...messages].reverse().find((m) => m.info.role === 'user');
+    const info = (latestUser?.info ?? {}) as {
+        agent?: string;
+        mode?: string;
+        model?: { providerID?: string; modelID?: string };
+        variant?: string;
+    };
+    const configState = useConfigStore.getState();
+    return {
+        providerID: info.model?.providerID ?? configState.currentProviderId,
+        modelID: info.model?.modelID ?? configState.currentModelId,
+        agent: info.agent ?? info.mode ?? configState.currentAgentName ?? undefined,
+        variant: info.variant,
+    };
+};
+
 export const useSessionStore = create<SessionStore>()(
     devtools(
         (set, get) => ({
@@ -257,8 +277,20 @@ export const useSessionStore = create<SessionStore>()(
                         agent: currentAgentName ?? undefined,
                     });
                 },
-                deleteSession: (id: string, options) => useSessionManagementStore.getState().deleteSession(id, options),
-                deleteSessions: (ids: string[], options) => useSessionManagementStore.getState().deleteSessions(ids, options),
+                deleteSession: async (id: string, options) => {
+                    const deleted = await useSessionManagementStore.getState().deleteSession(id, options);
+                    if (deleted) {
+                        pruneComposerDrafts([id]);
+                        useSessionLineageStore.getState().removeSessions([id]);
+                    }
+                    return deleted;
+                },
+                deleteSessions: async (ids: string[], options) => {
+                    const result = await useSessionManagementStore.getState().deleteSessions(ids, options);
+                    pruneComposerDrafts(result.deletedIds);
+                    useSessionLineageStore.getState().removeSessions(result.deletedIds);
+                    return result;
+                },
                 updateSessionTitle: (id: string, title: string) => useSessionManagementStore.getState().updateSessionTitle(id, title),
                 shareSession: (id: string) => useSessionManagementStore.getState().shareSession(id),
                 unshareSession: (id: string) => useSessionManagementStore.getState().unshareSession(id),
@@ -545,6 +577,7 @@ export const useSessionStore = create<SessionStore>()(
                 addServerFile: (path: string, name: string, content?: string) => useFileStore.getState().addServerFile(path, name, content),
                 removeAttachedFile: (id: string) => useFileStore.getState().removeAttachedFile(id),
                 clearAttachedFiles: () => useFileStore.getState().clearAttachedFiles(),
+                setAttachedFiles: (files: AttachedFile[]) => useFileStore.getState().setAttachedFiles(files),
 
                 updateViewportAnchor: (sessionId: string, anchor: number) => useMessageStore.getState().updateViewportAnchor(sessionId, anchor),
                 trimToViewportWindow: (sessionId: string, targetSize?: number) => {
@@ -777,6 +810,13 @@ export const useSessionStore = create<SessionStore>()(
                             }
                         }
 
+                        useSessionLineageStore.getState().recordFork(result.id, {
+                            sourceSessionId: sessionId,
+                            messageId,
+                            messagePreview: inputText.slice(0, 120),
+                            reason: 'fork',
+                        });
+
                         // 3. Switch to new session
                         get().setCurrentSession(result.id);
 
@@ -797,6 +837,138 @@ export const useSessionStore = create<SessionStore>()(
                     }
                 },
 
+                editAndResendMessage: async (sessionId: string, messageId: string, edit: EditedUserMessage) => {
+                    const messages = get().messages.get(sessionId) || [];
+                    const original = messages.find((m) => m.info.id === messageId);
+                    if (!original || original.info.role !== 'user') {
+                        throw new Error('Message not found');
+                    }
+
+                    // Resend with the agent/model/variant the original message used
+                    const info = original.info as {
+                        agent?: string;
+                        mode?: string;
+                        model?: { providerID?: string; modelID?: string };
+                        providerID?: string;
+                        modelID?: string;
+                        variant?: string;
+                    };
+                    const configState = useConfigStore.getState();
+                    const providerID = info.model?.providerID ?? info.providerID ?? configState.currentProviderId;
+                    const modelID = info.model?.modelID ?? info.modelID ?? configState.currentModelId;
+                    const agent = info.agent ?? info.mode;
+                    if (!providerID || !modelID) {
+                        throw new Error('No model available to resend the message');
+                    }
+
+                    // Keep context the original carried implicitly (editor selections, notes)
+                    const syntheticParts = original.parts
+                        .filter((part) => part.type === 'text' && part.synthetic && !part.ignored)
+                        .map((part) => ({ text: (part as { text?: string }).text || '', synthetic: true }));
+
+                    const existingSession = get().sessions.find((s) => s.id === sessionId);
+                    const messagePreview = original.parts
+                        .filter((part) => part.type === 'text' && !part.synthetic && !part.ignored)
+                        .map((part) => (part as { text?: string }).text || '')
+                        .join(' ')
+                        .slice(0, 120);
+                    let targetSessionId = sessionId;
+                    let supersededSessionId: string | null = null;
+
+                    if (edit.mode === 'fork') {
+                        // The original session is left untouched as the superseded branch
+                        const forked = await opencodeClient.forkSession(sessionId, messageId);
+                        targetSessionId = forked.id;
+                        supersededSessionId = sessionId;
+                        useSessionLineageStore.getState().recordFork(forked.id, {
+                            sourceSessionId: sessionId,
+                            messageId,
+                            messagePreview,
+                            reason: 'edit',
+                        });
+                        await get().setCurrentSession(forked.id);
+                        await get().loadMessages(forked.id);
+                    } else {
+                        // Prompting after a revert discards the reverted messages, so copy the full session first
+                        const archived = await opencodeClient.forkSession(sessionId);
+                        supersededSessionId = archived.id;
+                        useSessionLineageStore.getState().recordFork(archived.id, {
+                            sourceSessionId: sessionId,
+                            messageId,
+                            messagePreview,
+                            reason: 'edit-archive',
+                        });
+                        try {
+                            const renamed = await opencodeClient.updateSession(
+                                archived.id,
+                                `${existingSession?.title || 'Untitled Session'} (before edit)`
+                            );
+                            useSessionManagementStore.getState().updateSession(renamed);
+                        } catch {
+                            // ignored
+                        }
+
+                        await get().revertToMessage(sessionId, messageId);
+                        // revertToMessage stages the old text for the composer; the edited text is sent instead
+                        set({ pendingInputText: null, pendingInputMode: 'replace' });
+                    }
+
+                    await get().sendMessage(
+                        edit.text,
+                        providerID,
+                        modelID,
+                        agent,
+                        edit.attachments,
+                        edit.agentMentionName,
+                        syntheticParts.length > 0 ? syntheticParts : undefined,
+                        info.variant
+                    );
+                    void get().loadSessions();
+
+                    return { sessionId: targetSessionId, supersededSessionId };
+                },
+
+                compactSession: async (sessionId: string) => {
+                    const { providerID, modelID } = resolveLatestSelection(get().messages.get(sessionId) || []);
+                    if (!providerID || !modelID) {
+                        throw new Error('No model available to compact the session');
+                    }
+                    await opencodeClient.summarizeSession(sessionId, providerID, modelID);
+                },
+
+                continueSessionWithSummary: async (sessionId: string, summary: string) => {
+                    const { providerID, modelID, agent, variant } = resolveLatestSelection(get().messages.get(sessionId) || []);
+                    if (!providerID || !modelID) {
+                        throw new Error('No model available to continue the session');
+                    }
+
+                    const sessionManagementStore = useSessionManagementStore.getState();
+                    const source = sessionManagementStore.sessions.find((s) => s.id === sessionId);
+                    const directory = resolveSessionDirectory(
+                        sessionManagementStore.sessions,
+                        sessionId,
+                        sessionManagementStore.getWorktreeMetadata,
+                    );
+
+                    // Not a child session: parentID marks sub-agents, which share the source's budget and are hidden from switchers
+                    const session = await get().createSession(
+                        `${source?.title || 'Untitled Session'} (continued)`,
+                        directory,
+                        null
+                    );
+                    if (!session) {
+                        return null;
+                    }
+                    useSessionLineageStore.getState().recordFork(session.id, {
+                        sourceSessionId: sessionId,
+                        messageId: null,
+                        reason: 'continue',
+                    });
+
+                    await get().sendMessage(summary, providerID, modelID, agent, undefined, undefined, undefined, variant);
+                    return session;
+                },
+
                 setPendingInputText: (text: string | null, mode: 'replace' | 'append' = 'replace') => {
                     set({ pendingInputText: text, pendingInputMode: mode });
                 },
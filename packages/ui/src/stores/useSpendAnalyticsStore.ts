@@ -0,0 +1,146 @@
+import { create } from "zustand";
+import { devtools, persist, createJSONStorage } from "zustand/middleware";
+import type { Session } from "@opencode-ai/sdk/v2";
+
+import { opencodeClient } from "@/lib/opencode/client";
+import {
+  buildSessionSpendRecord,
+  type SessionSpendRecord,
+  type SpendGroupBy,
+  type SpendRange,
+} from "@/lib/spendAnalytics";
+import { useSessionStore } from "./useSessionStore";
+import { getSafeStorage } from "./utils/safeStorage";
+
+export type SpendAnalyticsStatus = "idle" | "loading" | "ready";
+
+interface SpendAnalyticsState {
+  // Map of sessionId -> per-day usage; persisted so reopening the page only fetches changed sessions
+  records: Record<string, SessionSpendRecord>;
+  groupBy: SpendGroupBy;
+  range: SpendRange;
+  status: SpendAnalyticsStatus;
+  progress: { done: number; total: number };
+}
+
+interface SpendAnalyticsActions {
+  ensureAggregates: () => Promise<void>;
+  rebuildAggregates: () => Promise<void>;
+  setGroupBy: (groupBy: SpendGroupBy) => void;
+  setRange: (range: SpendRange) => void;
+}
+
+type SpendAnalyticsStore = SpendAnalyticsState & SpendAnalyticsActions;
+
+// Persisting after every session would rewrite the whole cache thousands of times on a cold start
+const PROGRESS_FLUSH_EVERY = 25;
+
+let aggregatingPromise: Promise<void> | null = null;
+// Set when the session list changes mid-run so the next pass picks up sessions the current one missed
+let rerunRequested = false;
+
+const fetchSessionMessages = async (session: Session) => {
+  const directory = session.directory || useSessionStore.getState().getDirectoryForSession(session.id);
+  return directory
+    ? opencodeClient.withDirectory(directory, () => opencodeClient.getSessionMessages(session.id))
+    : opencodeClient.getSessionMessages(session.id);
+};
+
+export const useSpendAnalyticsStore = create<SpendAnalyticsStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        records: {},
+        groupBy: "day",
+        range: "30d",
+        status: "idle",
+        progress: { done: 0, total: 0 },
+
+        ensureAggregates: async () => {
+          if (aggregatingPromise) {
+            rerunRequested = true;
+            return aggregatingPromise;
+          }
+
+          // Pruning against a list that has not loaded yet would wipe the whole cache
+          const { sessions, isLoading } = useSessionStore.getState();
+          if (isLoading || sessions.length === 0) {
+            return;
+          }
+
+          aggregatingPromise = (async () => {
+            const knownIds = new Set(sessions.map((session) => session.id));
+            const records: Record<string, SessionSpendRecord> = {};
+            for (const [sessionId, record] of Object.entries(get().records)) {
+              if (knownIds.has(sessionId)) {
+                records[sessionId] = record;
+              }
+            }
+
+            const stale = sessions.filter((session) => {
+              const record = records[session.id];
+              return !record || record.updatedAt < (session.time?.updated ?? 0);
+            });
+
+            set({
+              records,
+              status: stale.length > 0 ? "loading" : "ready",
+              progress: { done: 0, total: stale.length },
+            });
+
+            let pending: Record<string, SessionSpendRecord> = {};
+            let done = 0;
+            const flush = () => {
+              set((state) => ({
+                records: { ...state.records, ...pending },
+                progress: { done, total: stale.length },
+              }));
+              pending = {};
+            };
+
+            for (const session of stale) {
+              try {
+                const messages = await fetchSessionMessages(session);
+                pending[session.id] = buildSessionSpendRecord(session, messages);
+              } catch (error) {
+                console.warn("[SpendAnalyticsStore] Failed to aggregate session:", session.id, error);
+              }
+              done += 1;
+              if (done % PROGRESS_FLUSH_EVERY === 0) {
+                flush();
+              }
+            }
+            flush();
+
+            set({ status: "ready" });
+          })().finally(() => {
+            aggregatingPromise = null;
+            if (rerunRequested) {
+              rerunRequested = false;
+              void get().ensureAggregates();
+            }
+          });
+
+          return aggregatingPromise;
+        },
+
+        rebuildAggregates: async () => {
+          await aggregatingPromise;
+          set({ records: {} });
+          await get().ensureAggregates();
+        },
+
+        setGroupBy: (groupBy) => set({ groupBy }),
+        setRange: (range) => set({ range }),
+      }),
+      {
+        name: "openchamber-spend-analytics",
+        storage: createJSONStorage(() => getSafeStorage()),
+        partialize: (state) => ({ records: state.records, groupBy: state.groupBy, range: state.range }),
+      }
+    ),
+    { name: "spend-analytics-store" }
+  )
+);
+
+export default useSpendAnalyticsStore;
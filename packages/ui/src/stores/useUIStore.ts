@@ -187,6 +187,8 @@ interface UIStore {
   diffWrapLines: boolean;
   diffViewMode: 'single' | 'stacked';
   isTimelineDialogOpen: boolean;
+  isSessionSearchOpen: boolean;
+  isImportedSessionsOpen: boolean;
   isImagePreviewOpen: boolean;
   nativeNotificationsEnabled: boolean;
   notificationMode: 'always' | 'hidden-only';
@@ -283,6 +285,8 @@ interface UIStore {
   setDiffViewMode: (mode: 'single' | 'stacked') => void;
   setMultiRunLauncherOpen: (open: boolean) => void;
   setTimelineDialogOpen: (open: boolean) => void;
+  setSessionSearchOpen: (open: boolean) => void;
+  setImportedSessionsOpen: (open: boolean) => void;
   setImagePreviewOpen: (open: boolean) => void;
   setNativeNotificationsEnabled: (value: boolean) => void;
   setNotificationMode: (mode: 'always' | 'hidden-only') => void;
@@ -365,6 +369,8 @@ export const useUIStore = create<UIStore>()(
         diffWrapLines: false,
         diffViewMode: 'stacked',
         isTimelineDialogOpen: false,
+        isSessionSearchOpen: false,
+        isImportedSessionsOpen: false,
         isImagePreviewOpen: false,
         nativeNotificationsEnabled: false,
         notificationMode: 'hidden-only',
@@ -1076,6 +1082,14 @@ export const useUIStore = create<UIStore>()(
           set({ isTimelineDialogOpen: open });
         },
 
+        setSessionSearchOpen: (open) => {
+          set({ isSessionSearchOpen: open });
+        },
+
+        setImportedSessionsOpen: (open) => {
+          set({ isImportedSessionsOpen: open });
+        },
+
         setImagePreviewOpen: (open) => {
           set({ isImagePreviewOpen: open });
         },
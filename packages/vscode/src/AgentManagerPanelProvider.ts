@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
+import { disposeTerminalConnections, handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
 import { getThemeKindName } from './theme';
 import type { OpenCodeManager, ConnectionStatus } from './opencode';
 import { getWebviewShikiThemes } from './shikiThemes';
@@ -23,6 +23,10 @@ export class AgentManagerPanelProvider {
     private readonly _openCodeManager?: OpenCodeManager
   ) {}
 
+  public isVisible() {
+    return this._panel?.visible ?? false;
+  }
+
   public createOrShow(): void {
     // If panel exists, reveal it
     if (this._panel) {
@@ -57,6 +61,9 @@ export class AgentManagerPanelProvider {
     // Send cached connection status
     this._sendCachedState();
 
+    // Captured up front: a disposed panel throws when its webview is read
+    const webview = this._panel.webview;
+
     // Handle panel disposal
     this._panel.onDidDispose(() => {
       // Clean up SSE streams
@@ -70,6 +77,7 @@ export class AgentManagerPanelProvider {
       }
       this._sseHeartbeats.clear();
 
+      disposeTerminalConnections(webview);
       this._panel = undefined;
     }, null, this._context.subscriptions);
 
@@ -95,6 +103,10 @@ export class AgentManagerPanelProvider {
       const response = await handleBridgeMessage(message, {
         manager: this._openCodeManager,
         context: this._context,
+        postMessage: (msg) => {
+          void this._panel?.webview.postMessage(msg);
+        },
+        webview,
       });
       this._panel?.webview.postMessage(response);
     }, null, this._context.subscriptions);
@@ -1,9 +1,9 @@
 import * as vscode from 'vscode';
-import { handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
+import { disposeTerminalConnections, handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
 import { getThemeKindName } from './theme';
 import type { OpenCodeManager, ConnectionStatus } from './opencode';
 import { getWebviewShikiThemes } from './shikiThemes';
-import { getWebviewHtml } from './webviewHtml';
+import { getWebviewHtml, type SessionView } from './webviewHtml';
 
 export class ChatViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'openchamber.chatView';
@@ -67,9 +67,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
       const response = await handleBridgeMessage(message, {
         manager: this._openCodeManager,
         context: this._context,
+        postMessage: (msg) => {
+          void webviewView.webview.postMessage(msg);
+        },
+        webview: webviewView.webview,
       });
       webviewView.webview.postMessage(response);
     });
+
+    // Captured up front: a disposed view throws when its webview is read
+    const webview = webviewView.webview;
+    webviewView.onDidDispose(() => {
+      disposeTerminalConnections(webview);
+    });
   }
 
   public updateTheme(kind: vscode.ColorThemeKind) {
@@ -119,6 +129,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  public sendPromptToCurrentSession(prompt: string) {
+    if (this._view) {
+      // Reveal the webview panel
+      this._view.show(true);
+
+      this._view.webview.postMessage({
+        type: 'command',
+        command: 'sendPrompt',
+        payload: { prompt }
+      });
+    }
+  }
+
   public createNewSession() {
     if (this._view) {
       // Reveal the webview panel
@@ -131,22 +154,52 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
-  public showSettings() {
+  public showSettings(section?: string) {
     if (this._view) {
       // Reveal the webview panel
       this._view.show(true);
       
       this._view.webview.postMessage({
         type: 'command',
-        command: 'showSettings'
+        command: 'showSettings',
+        payload: section ? { section } : undefined
       });
     }
   }
 
-  public postMessage(message: unknown): void {
+  public showImportedSessions() {
     if (this._view) {
-      this._view.webview.postMessage(message);
+      this._view.show(true);
+
+      this._view.webview.postMessage({
+        type: 'command',
+        command: 'showImportedSessions'
+      });
+    }
+  }
+
+  public async openSession(sessionId: string, messageId?: string, view?: SessionView) {
+    if (!this._view) {
+      await vscode.commands.executeCommand('openchamber.chatView.focus');
+    }
+    if (this._view) {
+      // Reveal the webview panel
+      this._view.show(true);
+
+      this._view.webview.postMessage({
+        type: 'command',
+        command: 'openSession',
+        payload: { sessionId, messageId, tab: view?.tab, file: view?.file }
+      });
+    }
+  }
+
+  public postMessage(message: unknown): boolean {
+    if (!this._view) {
+      return false;
     }
+    this._view.webview.postMessage(message);
+    return true;
   }
 
   private _sendCachedState() {
@@ -1,9 +1,9 @@
 import * as vscode from 'vscode';
-import { handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
+import { disposeTerminalConnections, handleBridgeMessage, type BridgeRequest, type BridgeResponse } from './bridge';
 import { getThemeKindName } from './theme';
 import type { OpenCodeManager, ConnectionStatus } from './opencode';
 import { getWebviewShikiThemes } from './shikiThemes';
-import { getWebviewHtml } from './webviewHtml';
+import { getWebviewHtml, type SessionView } from './webviewHtml';
 
 type SessionPanelState = {
   panel: vscode.WebviewPanel;
@@ -31,7 +31,7 @@ export class SessionEditorPanelProvider {
     this._createPanel(panelId, 'New Session', null);
   }
 
-  public createOrShow(sessionId: string, title?: string): void {
+  public createOrShow(sessionId: string, title?: string, messageId?: string, view?: SessionView): void {
     if (!sessionId || typeof sessionId !== 'string') {
       return;
     }
@@ -41,14 +41,49 @@ export class SessionEditorPanelProvider {
     const existing = this._panels.get(sessionId);
     if (existing) {
       existing.panel.title = sessionTitle;
-      existing.panel.reveal(existing.panel.viewColumn ?? vscode.ViewColumn.Active);
+      this._revealPanel(existing, sessionId, messageId, view);
       return;
     }
 
-    this._createPanel(sessionId, sessionTitle, sessionId);
+    this._createPanel(sessionId, sessionTitle, sessionId, messageId, view);
   }
 
-  private _createPanel(panelId: string, title: string, initialSessionId: string | null): void {
+  public revealSession(sessionId: string, messageId?: string, view?: SessionView): boolean {
+    const existing = this._panels.get(sessionId);
+    if (!existing) {
+      return false;
+    }
+    this._revealPanel(existing, sessionId, messageId, view);
+    return true;
+  }
+
+  private _revealPanel(state: SessionPanelState, sessionId: string, messageId?: string, view?: SessionView): void {
+    state.panel.reveal(state.panel.viewColumn ?? vscode.ViewColumn.Active);
+    if (messageId || view?.tab) {
+      void state.panel.webview.postMessage({
+        type: 'command',
+        command: 'openSession',
+        payload: { sessionId, messageId, tab: view?.tab, file: view?.file },
+      });
+    }
+  }
+
+  public isAnyPanelVisible(): boolean {
+    for (const entry of this._panels.values()) {
+      if (entry.panel.visible) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private _createPanel(
+    panelId: string,
+    title: string,
+    initialSessionId: string | null,
+    initialMessageId?: string,
+    initialView?: SessionView
+  ): void {
     const distUri = vscode.Uri.joinPath(this._extensionUri, 'dist');
 
     const panel = vscode.window.createWebviewPanel(
@@ -75,12 +110,15 @@ export class SessionEditorPanelProvider {
 
     this._panels.set(panelId, state);
 
-    panel.webview.html = this._getHtmlForWebview(panel.webview, initialSessionId);
+    panel.webview.html = this._getHtmlForWebview(panel.webview, initialSessionId, initialMessageId, initialView);
 
     void this.updateTheme(vscode.window.activeColorTheme.kind);
     this._sendCachedStateToPanel(state);
 
+    // Captured up front: a disposed panel throws when its webview is read
+    const webview = panel.webview;
     panel.onDidDispose(() => {
+      disposeTerminalConnections(webview);
       this._disposePanel(panelId);
     }, null, this._context.subscriptions);
 
@@ -105,6 +143,10 @@ export class SessionEditorPanelProvider {
       const response = await handleBridgeMessage(message, {
         manager: this._openCodeManager,
         context: this._context,
+        postMessage: (msg) => {
+          void state.panel.webview.postMessage(msg);
+        },
+        webview,
       });
       state.panel.webview.postMessage(response);
     }, null, this._context.subscriptions);
@@ -122,6 +164,12 @@ export class SessionEditorPanelProvider {
     });
   }
 
+  public postMessage(message: unknown): void {
+    for (const entry of this._panels.values()) {
+      void entry.panel.webview.postMessage(message);
+    }
+  }
+
   public updateConnectionStatus(status: ConnectionStatus, error?: string) {
     this._cachedStatus = status;
     this._cachedError = error;
@@ -367,7 +415,7 @@ export class SessionEditorPanelProvider {
     return { id, type, success: true, data: { stopped: true } };
   }
 
-  private _getHtmlForWebview(webview: vscode.Webview, sessionId: string | null) {
+  private _getHtmlForWebview(webview: vscode.Webview, sessionId: string | null, messageId?: string, view?: SessionView) {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
     const initialStatus = this._cachedStatus;
     const cliAvailable = this._openCodeManager?.isCliAvailable() ?? false;
@@ -380,6 +428,9 @@ export class SessionEditorPanelProvider {
       cliAvailable,
       panelType: 'chat',
       initialSessionId: sessionId ?? undefined,
+      initialMessageId: messageId,
+      initialTab: view?.tab,
+      initialFile: view?.file,
       viewMode: 'editor',
     });
   }
@@ -0,0 +1,314 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { OpenCodeManager } from './opencode';
+import { createSnapshotUri } from './snapshotDocuments';
+
+// "Agent Changes" source control view: files the active session touched through its edit/write tools,
+// kept apart from the developer's own uncommitted work in the git view
+const PROVIDER_ID = 'openchamber.agentChanges';
+const ACCEPTED_STATE_KEY = 'openchamber.agentChanges.accepted';
+const EDIT_TOOLS = new Set(['edit', 'multiedit', 'write']);
+const REFRESH_DEBOUNCE_MS = 500;
+
+type AgentFileChange = {
+  sessionId: string;
+  filePath: string;
+  uri: vscode.Uri;
+  // Content before the session's first (unaccepted) edit; null when it cannot be reconstructed
+  before: string | null;
+  created: boolean;
+  editCount: number;
+};
+
+interface AgentChangeResource extends vscode.SourceControlResourceState {
+  readonly change: AgentFileChange;
+}
+
+let openCodeManager: OpenCodeManager | null = null;
+let extensionContext: vscode.ExtensionContext | null = null;
+let sourceControl: vscode.SourceControl | null = null;
+let modifiedGroup: vscode.SourceControlResourceGroup | null = null;
+let addedGroup: vscode.SourceControlResourceGroup | null = null;
+let activeSessionId: string | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshGeneration = 0;
+
+const openCodeRequest = async (pathname: string, directory: string | null): Promise<unknown> => {
+  const baseUrl = openCodeManager?.getApiUrl();
+  if (!baseUrl) {
+    throw new Error('OpenCode API is not available');
+  }
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}${pathname}`);
+  if (directory) {
+    url.searchParams.set('directory', directory);
+  }
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...openCodeManager?.getOpenCodeAuthHeaders() },
+  });
+  if (!response.ok) {
+    throw new Error(`OpenCode responded with ${response.status}`);
+  }
+  return response.json();
+};
+
+const resolveFileUri = (filePath: string, directory: string): vscode.Uri => {
+  if (path.isAbsolute(filePath)) {
+    return vscode.Uri.file(filePath);
+  }
+  const base = directory || openCodeManager?.getWorkingDirectory() || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  return vscode.Uri.file(path.resolve(base, filePath));
+};
+
+// Accept / revert marks: tool parts that finished before the mark are no longer shown
+const readAcceptedMarks = (): Record<string, number> =>
+  extensionContext?.workspaceState.get<Record<string, number>>(ACCEPTED_STATE_KEY) ?? {};
+
+const acceptedMarkKey = (sessionId: string, uri?: vscode.Uri) => (uri ? `${sessionId}\u0000${uri.toString()}` : sessionId);
+
+const markAccepted = async (sessionId: string, uris?: vscode.Uri[]) => {
+  const marks = { ...readAcceptedMarks() };
+  const now = Date.now();
+  if (uris) {
+    for (const uri of uris) {
+      marks[acceptedMarkKey(sessionId, uri)] = now;
+    }
+  } else {
+    marks[acceptedMarkKey(sessionId)] = now;
+  }
+  await extensionContext?.workspaceState.update(ACCEPTED_STATE_KEY, marks);
+};
+
+const collectChanges = async (sessionId: string): Promise<AgentFileChange[]> => {
+  const session = (await openCodeRequest(`/session/${encodeURIComponent(sessionId)}`, null)) as Record<string, unknown>;
+  const directory = typeof session?.directory === 'string' ? session.directory : '';
+  const messages = await openCodeRequest(`/session/${encodeURIComponent(sessionId)}/message`, directory || null);
+  const marks = readAcceptedMarks();
+  const sessionMark = marks[acceptedMarkKey(sessionId)] ?? 0;
+
+  const changes = new Map<string, AgentFileChange>();
+  for (const message of Array.isArray(messages) ? messages : []) {
+    const parts = (message as { parts?: unknown } | null)?.parts;
+    for (const part of Array.isArray(parts) ? parts : []) {
+      const record = part as Record<string, unknown>;
+      if (record?.type !== 'tool' || typeof record.tool !== 'string' || !EDIT_TOOLS.has(record.tool)) continue;
+      const state = record.state as Record<string, unknown> | undefined;
+      if (state?.status !== 'completed') continue;
+
+      const input = state.input as Record<string, unknown> | undefined;
+      const metadata = state.metadata as Record<string, unknown> | undefined;
+      const filediff = metadata?.filediff as Record<string, unknown> | undefined;
+      const filePath = [input?.filePath, input?.file_path, input?.path, filediff?.file, metadata?.filepath]
+        .find((candidate): candidate is string => typeof candidate === 'string' && candidate.length > 0);
+      if (!filePath) continue;
+
+      const uri = resolveFileUri(filePath, directory);
+      const finishedAt = typeof (state.time as Record<string, unknown> | undefined)?.end === 'number'
+        ? (state.time as { end: number }).end
+        : 0;
+      const mark = Math.max(sessionMark, marks[acceptedMarkKey(sessionId, uri)] ?? 0);
+      if (finishedAt && finishedAt <= mark) continue;
+
+      const key = uri.toString();
+      const existing = changes.get(key);
+      if (existing) {
+        existing.editCount += 1;
+        continue;
+      }
+      const created = record.tool === 'write' && metadata?.exists === false;
+      changes.set(key, {
+        sessionId,
+        filePath,
+        uri,
+        before: typeof filediff?.before === 'string' ? filediff.before : created ? '' : null,
+        created,
+        editCount: 1,
+      });
+    }
+  }
+  return [...changes.values()];
+};
+
+const toResource = (change: AgentFileChange): AgentChangeResource => {
+  const edits = change.editCount === 1 ? '1 agent edit' : `${change.editCount} agent edits`;
+  return {
+    change,
+    resourceUri: change.uri,
+    contextValue: change.before === null ? 'agentChange.noBaseline' : 'agentChange',
+    decorations: {
+      tooltip: `${vscode.workspace.asRelativePath(change.uri)} (${change.created ? 'created' : 'modified'}, ${edits})`,
+    },
+    command: {
+      title: 'Open Changes',
+      command: 'openchamber.agentChanges.openDiff',
+      arguments: [{ change }],
+    },
+  };
+};
+
+const refresh = async () => {
+  if (!modifiedGroup || !addedGroup || !sourceControl) return;
+  const generation = ++refreshGeneration;
+  let changes: AgentFileChange[] = [];
+  if (activeSessionId) {
+    try {
+      changes = await collectChanges(activeSessionId);
+    } catch {
+      // Keep the previous state while OpenCode is unavailable
+      return;
+    }
+  }
+  // A newer refresh (e.g. after a session switch) superseded this one
+  if (generation !== refreshGeneration || !modifiedGroup || !addedGroup || !sourceControl) return;
+
+  const byPath = (a: AgentFileChange, b: AgentFileChange) => a.uri.fsPath.localeCompare(b.uri.fsPath);
+  modifiedGroup.resourceStates = changes.filter((change) => !change.created).sort(byPath).map(toResource);
+  addedGroup.resourceStates = changes.filter((change) => change.created).sort(byPath).map(toResource);
+  sourceControl.count = changes.length;
+};
+
+const scheduleRefresh = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+  }
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    void refresh();
+  }, REFRESH_DEBOUNCE_MS);
+};
+
+export const setAgentChangesSession = (sessionId: string | null): void => {
+  if (sessionId === activeSessionId) return;
+  activeSessionId = sessionId;
+  scheduleRefresh();
+};
+
+// Called for every global event; refreshes when the active session finishes an edit tool
+export const trackAgentChangesEvent = (payload: Record<string, unknown>): void => {
+  if (!activeSessionId || payload?.type !== 'message.part.updated') return;
+  const properties = (payload.properties ?? payload) as Record<string, unknown>;
+  const part = properties.part as Record<string, unknown> | undefined;
+  if (part?.sessionID !== activeSessionId || part?.type !== 'tool' || typeof part.tool !== 'string' || !EDIT_TOOLS.has(part.tool)) {
+    return;
+  }
+  if ((part.state as Record<string, unknown> | undefined)?.status === 'completed') {
+    scheduleRefresh();
+  }
+};
+
+const resourcesFrom = (first: unknown, rest: unknown[]): AgentChangeResource[] =>
+  [first, ...rest.flat()].filter(
+    (entry): entry is AgentChangeResource => Boolean(entry) && typeof entry === 'object' && 'change' in (entry as object)
+  );
+
+const openDiff = async (resource: AgentChangeResource) => {
+  const { change } = resource;
+  const label = `${path.basename(change.uri.fsPath)} (agent changes)`;
+  if (change.before === null) {
+    await vscode.window.showTextDocument(change.uri);
+    return;
+  }
+  await vscode.commands.executeCommand('vscode.diff', createSnapshotUri(change.filePath, change.before), change.uri, label);
+};
+
+const revertFiles = async (resources: AgentChangeResource[]) => {
+  const revertable = resources.filter((resource) => resource.change.before !== null);
+  if (revertable.length === 0) return;
+
+  const names = revertable.map((resource) => path.basename(resource.change.uri.fsPath));
+  const confirm = await vscode.window.showWarningMessage(
+    revertable.length === 1
+      ? `Revert the agent's changes to ${names[0]}?`
+      : `Revert the agent's changes to ${revertable.length} files?`,
+    { modal: true, detail: 'Files the agent created are deleted. Your own edits made after the agent are lost too.' },
+    'Revert'
+  );
+  if (confirm !== 'Revert') return;
+
+  const edit = new vscode.WorkspaceEdit();
+  const toSave: vscode.Uri[] = [];
+  for (const { change } of revertable) {
+    if (change.created) {
+      edit.deleteFile(change.uri, { ignoreIfNotExists: true });
+      continue;
+    }
+    const document = await vscode.workspace.openTextDocument(change.uri);
+    const fullRange = new vscode.Range(0, 0, document.lineCount, 0);
+    edit.replace(change.uri, document.validateRange(fullRange), change.before ?? '');
+    toSave.push(change.uri);
+  }
+
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    vscode.window.showErrorMessage('Neusis Code: Failed to revert agent changes');
+    return;
+  }
+  // Keep the files on disk in sync so the agent sees the reverted content
+  for (const uri of toSave) {
+    const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === uri.toString());
+    await document?.save();
+  }
+
+  const sessionId = revertable[0].change.sessionId;
+  await markAccepted(sessionId, revertable.map((resource) => resource.change.uri));
+  await refresh();
+};
+
+export const initAgentChangesScm = (context: vscode.ExtensionContext, manager: OpenCodeManager): void => {
+  openCodeManager = manager;
+  extensionContext = context;
+
+  const rootUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+  sourceControl = vscode.scm.createSourceControl(PROVIDER_ID, 'Agent Changes', rootUri);
+  sourceControl.inputBox.visible = false;
+  sourceControl.acceptInputCommand = undefined;
+  modifiedGroup = sourceControl.createResourceGroup('modified', 'Modified by Agent');
+  addedGroup = sourceControl.createResourceGroup('added', 'Created by Agent');
+  modifiedGroup.hideWhenEmpty = true;
+  addedGroup.hideWhenEmpty = true;
+
+  context.subscriptions.push(
+    sourceControl,
+    modifiedGroup,
+    addedGroup,
+    manager.onStatusChange((status) => {
+      if (status === 'connected') {
+        scheduleRefresh();
+      }
+    }),
+    vscode.commands.registerCommand('openchamber.agentChanges.refresh', () => refresh()),
+    vscode.commands.registerCommand('openchamber.agentChanges.openDiff', (resource: AgentChangeResource) => openDiff(resource)),
+    vscode.commands.registerCommand('openchamber.agentChanges.openFile', (first: unknown, ...rest: unknown[]) => {
+      for (const resource of resourcesFrom(first, rest)) {
+        void vscode.window.showTextDocument(resource.change.uri, { preview: false });
+      }
+    }),
+    vscode.commands.registerCommand('openchamber.agentChanges.revertFile', (first: unknown, ...rest: unknown[]) =>
+      revertFiles(resourcesFrom(first, rest))
+    ),
+    vscode.commands.registerCommand('openchamber.agentChanges.acceptFile', async (first: unknown, ...rest: unknown[]) => {
+      const resources = resourcesFrom(first, rest);
+      if (resources.length === 0) return;
+      await markAccepted(resources[0].change.sessionId, resources.map((resource) => resource.change.uri));
+      await refresh();
+    }),
+    // From a resource group's inline action only that group is accepted
+    vscode.commands.registerCommand('openchamber.agentChanges.acceptAll', async (group?: vscode.SourceControlResourceGroup) => {
+      if (!activeSessionId) return;
+      const uris = group?.resourceStates?.map((resource) => resource.resourceUri);
+      await markAccepted(activeSessionId, uris);
+      await refresh();
+    })
+  );
+};
+
+export const disposeAgentChangesScm = (): void => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  sourceControl = null;
+  modifiedGroup = null;
+  addedGroup = null;
+  activeSessionId = null;
+  openCodeManager = null;
+  extensionContext = null;
+};
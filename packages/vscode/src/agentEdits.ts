@@ -0,0 +1,457 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { OpenCodeManager } from './opencode';
+
+// Editor-native review of agent edits: gutter markers plus Accept / Revert CodeLens per hunk.
+// Hunks come from the unified diff the edit tools attach to their part metadata and are
+// anchored by content, so unrelated edits elsewhere in the file do not invalidate them.
+
+type DiffLine = { kind: ' ' | '+' | '-'; text: string };
+
+interface AgentHunk {
+  id: string;
+  createdAt: number;
+  // 0-based line where the new side of the hunk was written; used as a search hint
+  hintLine: number;
+  lines: DiffLine[];
+}
+
+const EDIT_TOOLS = new Set(['edit', 'multiedit', 'write']);
+// The tool event can arrive before VS Code reloads the file from disk; keep unmatched hunks briefly
+const UNMATCHED_HUNK_GRACE_MS = 10000;
+// Sessions whose seen part ids are remembered; the least recently edited one is forgotten first
+const MAX_TRACKED_SESSIONS = 50;
+
+const ADDED_GUTTER_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="3" height="16" fill="#3fb950"/></svg>';
+const REMOVED_GUTTER_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" width="8" height="16"><path d="M0 0 L8 4 L0 8 Z" fill="#f85149"/></svg>';
+
+const svgUri = (svg: string) => vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+
+const hunksByUri = new Map<string, AgentHunk[]>();
+// Completed parts can be re-sent (e.g. when compacted), so remember which ones already produced hunks
+const processedParts = new Map<string, Set<string>>();
+const codeLensEmitter = new vscode.EventEmitter<void>();
+
+let openCodeManager: OpenCodeManager | null = null;
+let addedDecoration: vscode.TextEditorDecorationType | null = null;
+let removedDecoration: vscode.TextEditorDecorationType | null = null;
+let hunkCounter = 0;
+
+const parseUnifiedDiff = (diff: string): Array<{ newStart: number; lines: DiffLine[] }> => {
+  const hunks: Array<{ newStart: number; lines: DiffLine[] }> = [];
+  let current: { newStart: number; lines: DiffLine[] } | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const rawLine of diff.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    const header = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (header) {
+      current = { newStart: parseInt(header[2], 10), lines: [] };
+      oldRemaining = header[1] === undefined ? 1 : parseInt(header[1], 10);
+      newRemaining = header[3] === undefined ? 1 : parseInt(header[3], 10);
+      hunks.push(current);
+      continue;
+    }
+    if (!current || (oldRemaining <= 0 && newRemaining <= 0) || line.startsWith('\\')) {
+      continue;
+    }
+
+    // Some producers drop the leading space on empty context lines
+    const kind = line.length === 0 ? ' ' : line.charAt(0);
+    if (kind === '+') {
+      newRemaining -= 1;
+    } else if (kind === '-') {
+      oldRemaining -= 1;
+    } else if (kind === ' ') {
+      oldRemaining -= 1;
+      newRemaining -= 1;
+    } else {
+      current = null;
+      continue;
+    }
+    current.lines.push({ kind, text: line.slice(1) });
+  }
+
+  return hunks.filter((hunk) => hunk.lines.some((line) => line.kind !== ' '));
+};
+
+const newSide = (hunk: AgentHunk) => hunk.lines.filter((line) => line.kind !== '-').map((line) => line.text);
+const oldSide = (hunk: AgentHunk) => hunk.lines.filter((line) => line.kind !== '+').map((line) => line.text);
+
+const matchesAt = (document: vscode.TextDocument, start: number, block: string[]): boolean => {
+  if (start < 0 || start + block.length > document.lineCount) {
+    return false;
+  }
+  for (let i = 0; i < block.length; i += 1) {
+    if (document.lineAt(start + i).text !== block[i]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Find the current position of the hunk's new side, searching outward from the recorded line
+const locateHunk = (document: vscode.TextDocument, hunk: AgentHunk): number | null => {
+  const block = newSide(hunk);
+  if (block.length === 0) {
+    return null;
+  }
+  const maxDistance = Math.max(hunk.hintLine, document.lineCount - hunk.hintLine);
+  for (let distance = 0; distance <= maxDistance; distance += 1) {
+    if (matchesAt(document, hunk.hintLine - distance, block)) {
+      return hunk.hintLine - distance;
+    }
+    if (distance > 0 && matchesAt(document, hunk.hintLine + distance, block)) {
+      return hunk.hintLine + distance;
+    }
+  }
+  return null;
+};
+
+// First changed line of the hunk relative to the located block start
+const firstChangedOffset = (hunk: AgentHunk): number => {
+  let offset = 0;
+  for (const line of hunk.lines) {
+    if (line.kind !== ' ') {
+      return offset;
+    }
+    offset += 1;
+  }
+  return 0;
+};
+
+const resolveHunks = (document: vscode.TextDocument): Array<{ hunk: AgentHunk; start: number }> => {
+  const key = document.uri.toString();
+  const hunks = hunksByUri.get(key);
+  if (!hunks || hunks.length === 0) {
+    return [];
+  }
+
+  const now = Date.now();
+  const resolved: Array<{ hunk: AgentHunk; start: number }> = [];
+  const remaining: AgentHunk[] = [];
+  for (const hunk of hunks) {
+    const start = locateHunk(document, hunk);
+    if (start === null) {
+      // Otherwise the hunk was edited or reverted by other means; stop tracking it
+      if (now - hunk.createdAt < UNMATCHED_HUNK_GRACE_MS) {
+        remaining.push(hunk);
+      }
+      continue;
+    }
+    hunk.hintLine = start;
+    resolved.push({ hunk, start });
+    remaining.push(hunk);
+  }
+
+  if (remaining.length !== hunks.length) {
+    if (remaining.length === 0) {
+      hunksByUri.delete(key);
+    } else {
+      hunksByUri.set(key, remaining);
+    }
+  }
+  return resolved;
+};
+
+const decorateEditor = (editor: vscode.TextEditor) => {
+  if (!addedDecoration || !removedDecoration) {
+    return;
+  }
+
+  const added: vscode.DecorationOptions[] = [];
+  const removed: vscode.DecorationOptions[] = [];
+
+  for (const { hunk, start } of resolveHunks(editor.document)) {
+    let line = start;
+    let removedRun: string[] = [];
+    const flushRemoved = () => {
+      if (removedRun.length === 0) {
+        return;
+      }
+      const anchor = Math.min(line, editor.document.lineCount - 1);
+      const hover = new vscode.MarkdownString();
+      hover.appendMarkdown('**Removed by agent**\n');
+      hover.appendCodeblock(removedRun.join('\n'), editor.document.languageId);
+      removed.push({ range: new vscode.Range(anchor, 0, anchor, 0), hoverMessage: hover });
+      removedRun = [];
+    };
+
+    for (const entry of hunk.lines) {
+      if (entry.kind === '-') {
+        removedRun.push(entry.text);
+        continue;
+      }
+      flushRemoved();
+      if (entry.kind === '+') {
+        added.push({ range: new vscode.Range(line, 0, line, 0) });
+      }
+      line += 1;
+    }
+    flushRemoved();
+  }
+
+  editor.setDecorations(addedDecoration, added);
+  editor.setDecorations(removedDecoration, removed);
+};
+
+const refreshEditors = (uriKey?: string) => {
+  for (const editor of vscode.window.visibleTextEditors) {
+    if (!uriKey || editor.document.uri.toString() === uriKey) {
+      decorateEditor(editor);
+    }
+  }
+  codeLensEmitter.fire();
+};
+
+const resolveFileUri = (filePath: string): vscode.Uri => {
+  if (path.isAbsolute(filePath)) {
+    return vscode.Uri.file(filePath);
+  }
+  const base = openCodeManager?.getWorkingDirectory() || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  return vscode.Uri.file(path.resolve(base, filePath));
+};
+
+const collectDiffs = (metadata: Record<string, unknown> | undefined): string[] => {
+  if (!metadata) {
+    return [];
+  }
+  if (typeof metadata.diff === 'string') {
+    return [metadata.diff];
+  }
+  // multiedit reports one metadata entry per applied edit
+  if (Array.isArray(metadata.results)) {
+    return metadata.results
+      .map((entry) => (entry && typeof entry === 'object' ? (entry as Record<string, unknown>).diff : undefined))
+      .filter((diff): diff is string => typeof diff === 'string');
+  }
+  return [];
+};
+
+// Returns false when the part was already processed
+const markPartProcessed = (sessionId: string, partId: string): boolean => {
+  const parts = processedParts.get(sessionId) ?? new Set<string>();
+  if (parts.has(partId)) {
+    return false;
+  }
+  parts.add(partId);
+  // Re-insert so Map order tracks recency and the first key is the stalest session
+  processedParts.delete(sessionId);
+  processedParts.set(sessionId, parts);
+  while (processedParts.size > MAX_TRACKED_SESSIONS) {
+    const oldest = processedParts.keys().next().value;
+    if (oldest === undefined) break;
+    processedParts.delete(oldest);
+  }
+  return true;
+};
+
+export const trackAgentEdit = (payload: Record<string, unknown>): void => {
+  const properties = (payload?.properties ?? payload) as Record<string, unknown>;
+  if (payload?.type === 'session.deleted') {
+    const info = properties?.info as Record<string, unknown> | undefined;
+    const sessionId = info?.id ?? properties?.sessionID;
+    if (typeof sessionId === 'string') {
+      processedParts.delete(sessionId);
+    }
+    return;
+  }
+
+  if (!addedDecoration || payload?.type !== 'message.part.updated') {
+    return;
+  }
+
+  const part = properties.part as Record<string, unknown> | undefined;
+  if (part?.type !== 'tool' || typeof part.tool !== 'string' || !EDIT_TOOLS.has(part.tool)) {
+    return;
+  }
+
+  const state = part.state as Record<string, unknown> | undefined;
+  if (state?.status !== 'completed') {
+    return;
+  }
+
+  const partId = typeof part.id === 'string' ? part.id : null;
+  const sessionId = typeof part.sessionID === 'string' ? part.sessionID : '';
+  if (!partId || !markPartProcessed(sessionId, partId)) {
+    return;
+  }
+
+  const input = state.input as Record<string, unknown> | undefined;
+  const metadata = state.metadata as Record<string, unknown> | undefined;
+  const filediff = metadata?.filediff as Record<string, unknown> | undefined;
+  const filePath = [input?.filePath, input?.file_path, input?.path, filediff?.file, metadata?.filepath]
+    .find((candidate): candidate is string => typeof candidate === 'string' && candidate.length > 0);
+  if (!filePath) {
+    return;
+  }
+
+  // write reports no diff unless it overwrote an existing file; there is nothing to revert to otherwise
+  const parsed = collectDiffs(metadata).flatMap(parseUnifiedDiff);
+  if (parsed.length === 0) {
+    return;
+  }
+
+  const key = resolveFileUri(filePath).toString();
+  const hunks = hunksByUri.get(key) ?? [];
+  for (const entry of parsed) {
+    hunkCounter += 1;
+    hunks.push({
+      id: `hunk_${hunkCounter}`,
+      createdAt: Date.now(),
+      hintLine: Math.max(0, entry.newStart - 1),
+      lines: entry.lines,
+    });
+  }
+  hunksByUri.set(key, hunks);
+
+  refreshEditors(key);
+};
+
+const findHunk = (uriKey: string, hunkId: string) => hunksByUri.get(uriKey)?.find((hunk) => hunk.id === hunkId) ?? null;
+
+const removeHunk = (uriKey: string, hunkId: string) => {
+  const remaining = (hunksByUri.get(uriKey) ?? []).filter((hunk) => hunk.id !== hunkId);
+  if (remaining.length === 0) {
+    hunksByUri.delete(uriKey);
+  } else {
+    hunksByUri.set(uriKey, remaining);
+  }
+};
+
+const acceptHunk = (uriKey: string, hunkId: string) => {
+  removeHunk(uriKey, hunkId);
+  refreshEditors(uriKey);
+};
+
+const revertHunk = async (uriKey: string, hunkId: string) => {
+  const hunk = findHunk(uriKey, hunkId);
+  if (!hunk) {
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(uriKey));
+  const start = locateHunk(document, hunk);
+  if (start === null) {
+    removeHunk(uriKey, hunkId);
+    refreshEditors(uriKey);
+    vscode.window.showWarningMessage('Neusis Code: This change was modified after the agent made it and can no longer be reverted');
+    return;
+  }
+
+  const blockLength = newSide(hunk).length;
+  const previous = oldSide(hunk);
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  const lastLine = start + blockLength - 1;
+
+  const edit = new vscode.WorkspaceEdit();
+  if (previous.length === 0) {
+    const end = lastLine + 1 < document.lineCount
+      ? new vscode.Position(lastLine + 1, 0)
+      : document.lineAt(lastLine).range.end;
+    edit.delete(document.uri, new vscode.Range(new vscode.Position(start, 0), end));
+  } else {
+    edit.replace(document.uri, new vscode.Range(start, 0, lastLine, document.lineAt(lastLine).text.length), previous.join(eol));
+  }
+
+  const wasDirty = document.isDirty;
+  const applied = await vscode.workspace.applyEdit(edit);
+  if (!applied) {
+    vscode.window.showErrorMessage('Neusis Code: Failed to revert change');
+    return;
+  }
+  removeHunk(uriKey, hunkId);
+
+  // Keep the file on disk in sync so the agent sees the reverted content
+  if (!wasDirty) {
+    await document.save();
+  }
+  refreshEditors(uriKey);
+};
+
+const codeLensProvider: vscode.CodeLensProvider = {
+  onDidChangeCodeLenses: codeLensEmitter.event,
+  provideCodeLenses(document) {
+    const uriKey = document.uri.toString();
+    const lenses: vscode.CodeLens[] = [];
+    for (const { hunk, start } of resolveHunks(document)) {
+      const line = Math.min(start + firstChangedOffset(hunk), document.lineCount - 1);
+      const range = new vscode.Range(line, 0, line, 0);
+      lenses.push(
+        new vscode.CodeLens(range, {
+          title: '$(check) Accept',
+          tooltip: 'Keep this agent change',
+          command: 'openchamber.acceptAgentHunk',
+          arguments: [uriKey, hunk.id],
+        }),
+        new vscode.CodeLens(range, {
+          title: '$(discard) Revert hunk',
+          tooltip: 'Restore the content from before this agent change',
+          command: 'openchamber.revertAgentHunk',
+          arguments: [uriKey, hunk.id],
+        })
+      );
+    }
+    return lenses;
+  },
+};
+
+export const initAgentEdits = (context: vscode.ExtensionContext, manager: OpenCodeManager): void => {
+  openCodeManager = manager;
+
+  addedDecoration = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    gutterIconPath: svgUri(ADDED_GUTTER_SVG),
+    gutterIconSize: 'contain',
+    backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+  removedDecoration = vscode.window.createTextEditorDecorationType({
+    gutterIconPath: svgUri(REMOVED_GUTTER_SVG),
+    gutterIconSize: 'contain',
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+  });
+
+  context.subscriptions.push(
+    addedDecoration,
+    removedDecoration,
+    codeLensEmitter,
+    vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider),
+    vscode.commands.registerCommand('openchamber.acceptAgentHunk', (uriKey: string, hunkId: string) => {
+      acceptHunk(uriKey, hunkId);
+    }),
+    vscode.commands.registerCommand('openchamber.revertAgentHunk', async (uriKey: string, hunkId: string) => {
+      try {
+        await revertHunk(uriKey, hunkId);
+      } catch (e) {
+        vscode.window.showErrorMessage(`Neusis Code: Failed to revert change - ${e}`);
+      }
+    }),
+    vscode.window.onDidChangeVisibleTextEditors((editors) => {
+      for (const editor of editors) {
+        decorateEditor(editor);
+      }
+    }),
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      const key = event.document.uri.toString();
+      if (hunksByUri.has(key)) {
+        refreshEditors(key);
+      }
+    })
+  );
+
+  refreshEditors();
+};
+
+export const disposeAgentEdits = (): void => {
+  hunksByUri.clear();
+  processedParts.clear();
+  addedDecoration = null;
+  removedDecoration = null;
+  openCodeManager = null;
+};
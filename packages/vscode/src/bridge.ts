@@ -7,6 +7,9 @@ import { promisify } from 'util';
 import { type OpenCodeManager } from './opencode';
 import { createAgent, createCommand, deleteAgent, deleteCommand, getAgentSources, getCommandSources, updateAgent, updateCommand, type AgentScope, type CommandScope, AGENT_SCOPE, COMMAND_SCOPE, discoverSkills, getSkillSources, createSkill, updateSkill, deleteSkill, readSkillSupportingFile, writeSkillSupportingFile, deleteSkillSupportingFile, type SkillScope, type SkillSource, type DiscoveredSkill, SKILL_SCOPE, getProviderSources, removeProviderConfig } from './opencodeConfig';
 import { getProviderAuth, removeProviderAuth } from './opencodeAuth';
+import { syncReviewCommentDrafts } from './reviewComments';
+import { restrictedModeResponse } from './workspaceTrust';
+import { applyConfiguredSettings, writeConfiguredSettings } from './configSettings';
 import { fetchQuotaForProvider, listConfiguredQuotaProviders } from './quotaProviders';
 import * as gitService from './gitService';
 import {
@@ -24,6 +27,7 @@ import {
   fetchMe,
   readGitHubAuth,
   readGitHubAuthList,
+  signInWithVSCodeGitHub,
   startDeviceFlow,
   writeGitHubAuth,
 } from './githubAuth';
@@ -46,6 +50,21 @@ import {
   listPullRequests,
 } from './githubPulls';
 
+import {
+  closeTerminalSession,
+  createTerminalSession,
+  forceKillTerminalSessions,
+  resizeTerminalSession,
+  restartTerminalSession,
+  subscribeTerminalSession,
+  writeTerminalInput,
+} from './terminalSessions';
+
+import { showNativeNotification } from './notifications';
+import { setSessionFolders } from './sessionsTree';
+import { openSnapshotDiff, type DiffSource } from './snapshotDocuments';
+import { getEditorContextSnapshot } from './editorContext';
+
 export interface BridgeRequest {
   id: string;
   type: string;
@@ -93,6 +112,10 @@ interface FileSearchResult {
 export interface BridgeContext {
   manager?: OpenCodeManager;
   context?: vscode.ExtensionContext;
+  // Push channel back to the webview that sent the request (used by streaming handlers)
+  postMessage?: (message: unknown) => void;
+  // Webview that sent the request; streams it opens are torn down when it is disposed
+  webview?: vscode.Webview;
 }
 
 const SETTINGS_KEY = 'openchamber.settings';
@@ -102,6 +125,21 @@ const gpgconfCandidates = ['gpgconf', '/opt/homebrew/bin/gpgconf', '/usr/local/b
 
 const OPENCHAMBER_SHARED_SETTINGS_PATH = path.join(os.homedir(), '.config', 'openchamber', 'settings.json');
 
+// Active terminal stream subscriptions keyed by webview-generated connection id
+const terminalConnections = new Map<string, { webview?: vscode.Webview; dispose: () => void }>();
+
+/**
+ * Drop the terminal streams of a disposed webview. Output keeps a PTY looking active, so a leaked
+ * subscription would also stop the idle sweep from ever reclaiming it.
+ */
+export function disposeTerminalConnections(webview: vscode.Webview): void {
+  for (const connection of Array.from(terminalConnections.values())) {
+    if (connection.webview === webview) {
+      connection.dispose();
+    }
+  }
+}
+
 const isPathInside = (candidatePath: string, parentPath: string): boolean => {
   const normalizedCandidate = path.resolve(candidatePath);
   const normalizedParent = path.resolve(parentPath);
@@ -255,7 +293,7 @@ const writeSharedSettingsToDisk = async (changes: Record<string, unknown>): Prom
 
 const readSettings = (ctx?: BridgeContext) => {
   const stored = ctx?.context?.globalState.get<Record<string, unknown>>(SETTINGS_KEY) || {};
-  const restStored = { ...stored };
+  const restStored = applyConfiguredSettings({ ...stored });
   delete (restStored as Record<string, unknown>).lastDirectory;
   const shared = readSharedSettingsFromDisk();
   const sharedOpencodeBinary = typeof shared.opencodeBinary === 'string' ? shared.opencodeBinary.trim() : '';
@@ -339,7 +377,9 @@ const parseJsonObjectSafe = (value: string): Record<string, unknown> | null => {
 };
 
 const persistSettings = async (changes: Record<string, unknown>, ctx?: BridgeContext) => {
-  const current = readSettings(ctx);
+  // Merge against the raw global value: readSettings() overlays `openchamber.*` configuration, which may hold
+  // workspace overrides that must not leak into the settings shared by every workspace
+  const stored = ctx?.context?.globalState.get<Record<string, unknown>>(SETTINGS_KEY) || {};
   const restChanges = { ...(changes || {}) };
   delete restChanges.lastDirectory;
 
@@ -364,11 +404,16 @@ const persistSettings = async (changes: Record<string, unknown>, ctx?: BridgeCon
     delete restChanges.usageRefreshIntervalMs;
   }
 
-  const merged = { ...current, ...restChanges, lastDirectory: current.lastDirectory } as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...stored, ...restChanges };
+  delete merged.lastDirectory;
   for (const key of keysToClear) {
     delete merged[key];
   }
   await ctx?.context?.globalState.update(SETTINGS_KEY, merged);
+  await writeConfiguredSettings({
+    ...restChanges,
+    ...Object.fromEntries([...keysToClear].map((key) => [key, ''])),
+  });
 
   if (keysToClear.has('opencodeBinary')) {
     await writeSharedSettingsToDisk({ opencodeBinary: '' });
@@ -376,7 +421,7 @@ const persistSettings = async (changes: Record<string, unknown>, ctx?: BridgeCon
     await writeSharedSettingsToDisk({ opencodeBinary: restChanges.opencodeBinary.trim() });
   }
 
-  return merged;
+  return readSettings(ctx);
 };
 
 const normalizeFsPath = (value: string) => value.replace(/\\/g, '/');
@@ -1225,6 +1270,8 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
       }
 
       case 'api:fs:exec': {
+        const restricted = restrictedModeResponse(id, type);
+        if (restricted) return restricted;
         const { commands, cwd } = (payload as { commands: string[]; cwd: string }) || {};
         if (!Array.isArray(commands) || commands.length === 0) {
           return { id, type, success: false, error: 'Commands array is required' };
@@ -1463,6 +1510,7 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
           tokenType: typeof tokenRecord?.token_type === 'string' ? tokenRecord.token_type : undefined,
           createdAt: Date.now(),
           user,
+          source: 'device',
         });
 
         return {
@@ -1477,6 +1525,21 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
         };
       }
 
+      case 'api:github/auth:vscode': {
+        const context = ctx?.context;
+        if (!context) return { id, type, success: false, error: 'Missing VS Code context' };
+        const settings = readSettings(ctx);
+        const scopes = readStringField(settings, 'githubScopes') || DEFAULT_GITHUB_SCOPES;
+        try {
+          const { user, scope } = await signInWithVSCodeGitHub(context, scopes);
+          return { id, type, success: true, data: { connected: true, user, scope } };
+        } catch (error: unknown) {
+          // getSession rejects when the user dismisses the consent dialog
+          const message = error instanceof Error ? error.message : String(error);
+          return { id, type, success: true, data: { connected: false, error: message } };
+        }
+      }
+
       case 'api:github/auth:disconnect': {
         const context = ctx?.context;
         if (!context) return { id, type, success: false, error: 'Missing VS Code context' };
@@ -2097,6 +2160,8 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
       }
 
       case 'api:config/skills:install': {
+        const restricted = restrictedModeResponse(id, type);
+        if (restricted) return restricted;
         const body = (payload || {}) as {
           source?: string;
           subpath?: string;
@@ -2240,16 +2305,10 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
       }
 
       case 'editor:openDiff': {
-        const { original, modified, label } = payload as { original: string; modified: string; label?: string };
+        // Each side is a file path, in-memory content or a file at a git ref (see DiffSource)
+        const { original, modified, label } = payload as { original: DiffSource; modified: DiffSource; label?: string };
         try {
-          // If the paths are just content, we need to create virtual documents or temp files.
-          // However, 'editor:openDiff' usually implies comparing two URIs.
-          // If the payload contains file paths:
-          const originalUri = vscode.Uri.file(original);
-          const modifiedUri = vscode.Uri.file(modified);
-          const title = label || `${path.basename(original)} ↔ ${path.basename(modified)}`;
-          
-          await vscode.commands.executeCommand('vscode.diff', originalUri, modifiedUri, title);
+          await openSnapshotDiff(original, modified, label);
           return { id, type, success: true };
         } catch (error) {
            const errorMessage = error instanceof Error ? error.message : String(error);
@@ -2360,6 +2419,135 @@ export async function handleBridgeMessage(message: BridgeRequest, ctx?: BridgeCo
         }
       }
 
+      // ============== Notifications ==============
+
+      case 'api:notifications:notify': {
+        const { title, body, tag } = (payload || {}) as { title?: string; body?: string; tag?: string };
+        if (!title) {
+          return { id, type, success: true, data: { shown: false } };
+        }
+        const shown = await showNativeNotification({ title, body, tag });
+        return { id, type, success: true, data: { shown } };
+      }
+
+      case 'api:sessions:folders': {
+        const { foldersMap } = (payload || {}) as { foldersMap?: unknown };
+        setSessionFolders(foldersMap);
+        return { id, type, success: true };
+      }
+
+      case 'api:editorContext:get': {
+        return { id, type, success: true, data: getEditorContextSnapshot() };
+      }
+
+      case 'api:reviewComments:sync': {
+        const { drafts } = (payload || {}) as { drafts?: unknown };
+        syncReviewCommentDrafts(Array.isArray(drafts) ? drafts : []);
+        return { id, type, success: true, data: { ok: true } };
+      }
+
+      // ============== Terminal ==============
+
+      case 'api:terminal:create': {
+        const restricted = restrictedModeResponse(id, type);
+        if (restricted) return restricted;
+        const { cwd, cols, rows } = (payload || {}) as { cwd?: string; cols?: number; rows?: number };
+        if (!cwd) {
+          return { id, type, success: false, error: 'cwd is required' };
+        }
+        const session = await createTerminalSession({ cwd, cols, rows });
+        return { id, type, success: true, data: session };
+      }
+
+      case 'api:terminal:connect': {
+        const { sessionId, connectionId } = (payload || {}) as { sessionId?: string; connectionId?: string };
+        if (!sessionId || !connectionId) {
+          return { id, type, success: false, error: 'sessionId and connectionId are required' };
+        }
+        const postMessage = ctx?.postMessage;
+        if (!postMessage) {
+          return { id, type, success: false, error: 'Terminal streaming unavailable' };
+        }
+
+        terminalConnections.get(connectionId)?.dispose();
+        const unsubscribe = subscribeTerminalSession(sessionId, (event) => {
+          try {
+            postMessage({ type: 'terminal:event', connectionId, event });
+          } catch {
+            terminalConnections.get(connectionId)?.dispose();
+          }
+          if (event.type === 'exit') {
+            terminalConnections.delete(connectionId);
+          }
+        });
+        if (!unsubscribe) {
+          return { id, type, success: false, error: 'Terminal session not found' };
+        }
+        terminalConnections.set(connectionId, {
+          webview: ctx?.webview,
+          dispose: () => {
+            unsubscribe();
+            terminalConnections.delete(connectionId);
+          },
+        });
+        return { id, type, success: true, data: { connected: true } };
+      }
+
+      case 'api:terminal:disconnect': {
+        const { connectionId } = (payload || {}) as { connectionId?: string };
+        if (connectionId) {
+          terminalConnections.get(connectionId)?.dispose();
+        }
+        return { id, type, success: true, data: { disconnected: true } };
+      }
+
+      case 'api:terminal:input': {
+        const { sessionId, data } = (payload || {}) as { sessionId?: string; data?: string };
+        if (!sessionId) {
+          return { id, type, success: false, error: 'sessionId is required' };
+        }
+        writeTerminalInput(sessionId, typeof data === 'string' ? data : '');
+        return { id, type, success: true, data: { success: true } };
+      }
+
+      case 'api:terminal:resize': {
+        const { sessionId, cols, rows } = (payload || {}) as { sessionId?: string; cols?: number; rows?: number };
+        if (!sessionId) {
+          return { id, type, success: false, error: 'sessionId is required' };
+        }
+        resizeTerminalSession(sessionId, Number(cols), Number(rows));
+        return { id, type, success: true, data: { success: true, cols, rows } };
+      }
+
+      case 'api:terminal:close': {
+        const { sessionId } = (payload || {}) as { sessionId?: string };
+        if (!sessionId) {
+          return { id, type, success: false, error: 'sessionId is required' };
+        }
+        closeTerminalSession(sessionId);
+        return { id, type, success: true, data: { success: true } };
+      }
+
+      case 'api:terminal:restart': {
+        const restricted = restrictedModeResponse(id, type);
+        if (restricted) return restricted;
+        const { sessionId, cwd, cols, rows } = (payload || {}) as { sessionId?: string; cwd?: string; cols?: number; rows?: number };
+        if (!sessionId) {
+          return { id, type, success: false, error: 'sessionId is required' };
+        }
+        if (!cwd) {
+          return { id, type, success: false, error: 'cwd is required' };
+        }
+        const session = await restartTerminalSession(sessionId, { cwd, cols, rows });
+        return { id, type, success: true, data: session };
+      }
+
+      case 'api:terminal:force-kill': {
+        const { sessionId, cwd } = (payload || {}) as { sessionId?: string; cwd?: string };
+        const killedCount = forceKillTerminalSessions({ sessionId, cwd });
+        return { id, type, success: true, data: { success: true, killedCount } };
+      }
+
       // ============== Git Operations ==============
 
       case 'api:git/check': {
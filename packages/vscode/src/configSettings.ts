@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+
+// SettingsPayload fields mirrored as `openchamber.*` configuration so teams can commit defaults in .vscode/settings.json
+type ConfigSettingSpec = {
+  key: string;
+  normalize: (value: unknown) => unknown;
+};
+
+const asTrimmedString = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+};
+
+const asBoolean = (value: unknown): boolean | undefined => (typeof value === 'boolean' ? value : undefined);
+
+const asEnum = <T extends string>(allowed: readonly T[]) => (value: unknown): T | undefined =>
+  typeof value === 'string' && (allowed as readonly string[]).includes(value) ? (value as T) : undefined;
+
+const asDays = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(1, Math.min(365, Math.round(value))) : undefined;
+
+const CONFIG_SETTINGS: Record<string, ConfigSettingSpec> = {
+  defaultModel: { key: 'defaults.model', normalize: asTrimmedString },
+  defaultAgent: { key: 'defaults.agent', normalize: asTrimmedString },
+  defaultVariant: { key: 'defaults.variant', normalize: asTrimmedString },
+  toolCallExpansion: { key: 'chat.toolCallExpansion', normalize: asEnum(['collapsed', 'activity', 'detailed'] as const) },
+  queueModeEnabled: { key: 'chat.queueMode', normalize: asBoolean },
+  notificationMode: { key: 'notifications.mode', normalize: asEnum(['always', 'hidden-only'] as const) },
+  autoDeleteEnabled: { key: 'sessions.autoDelete.enabled', normalize: asBoolean },
+  autoDeleteAfterDays: { key: 'sessions.autoDelete.afterDays', normalize: asDays },
+  diffLayoutPreference: { key: 'diff.layout', normalize: asEnum(['dynamic', 'inline', 'side-by-side'] as const) },
+};
+
+type ConfigSettingsOptions = {
+  onDidChange: () => void;
+};
+
+let lastConfigured = '';
+
+const getConfig = () => vscode.workspace.getConfiguration('openchamber');
+
+/** The explicitly configured value for a key; contributed defaults are ignored so globalState keeps working. */
+const readExplicitValue = (config: vscode.WorkspaceConfiguration, key: string): unknown => {
+  const inspected = config.inspect(key);
+  if (!inspected) return undefined;
+  return inspected.workspaceValue ?? inspected.globalValue;
+};
+
+/**
+ * Settings fields that are set in VS Code user or workspace configuration.
+ * Workspace values win over user values, matching VS Code's own resolution order.
+ */
+export const readConfiguredSettings = (): Record<string, unknown> => {
+  const config = getConfig();
+  const result: Record<string, unknown> = {};
+  for (const [field, spec] of Object.entries(CONFIG_SETTINGS)) {
+    const value = spec.normalize(readExplicitValue(config, spec.key));
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  }
+  return result;
+};
+
+/** Overlay configured values on top of the settings stored in globalState. */
+export const applyConfiguredSettings = <T extends Record<string, unknown>>(stored: T): T => ({
+  ...stored,
+  ...readConfiguredSettings(),
+});
+
+/**
+ * Write changed fields back to configuration. A field is written to the workspace when the workspace
+ * already overrides it (so edits from the UI land in the committed project defaults), otherwise to user settings.
+ * Empty strings clear the value.
+ */
+export const writeConfiguredSettings = async (changes: Record<string, unknown>): Promise<void> => {
+  const config = getConfig();
+  for (const [field, spec] of Object.entries(CONFIG_SETTINGS)) {
+    if (!(field in changes)) continue;
+    const raw = changes[field];
+    const isClear = typeof raw === 'string' && raw.trim().length === 0;
+    const next = isClear ? undefined : spec.normalize(raw);
+    if (next === undefined && !isClear) continue;
+
+    const inspected = config.inspect(spec.key);
+    const useWorkspace = inspected?.workspaceValue !== undefined;
+    const current = useWorkspace ? inspected?.workspaceValue : inspected?.globalValue;
+    if (current === next) continue;
+    // Don't add user settings entries that only restate the contributed default
+    if (current === undefined && next === inspected?.defaultValue) continue;
+
+    const target = useWorkspace ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    try {
+      await config.update(spec.key, next, target);
+    } catch (error) {
+      console.warn(`[OpenChamber] Failed to update openchamber.${spec.key}:`, error);
+    }
+  }
+  lastConfigured = JSON.stringify(readConfiguredSettings());
+};
+
+export const initConfigSettings = (context: vscode.ExtensionContext, options: ConfigSettingsOptions): void => {
+  lastConfigured = JSON.stringify(readConfiguredSettings());
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (!Object.values(CONFIG_SETTINGS).some((spec) => event.affectsConfiguration(`openchamber.${spec.key}`))) {
+        return;
+      }
+      const serialized = JSON.stringify(readConfiguredSettings());
+      // Our own writes from the settings UI fire this event too; only forward external edits
+      if (serialized === lastConfigured) return;
+      lastConfigured = serialized;
+      options.onDidChange();
+    })
+  );
+};
+
+export const disposeConfigSettings = (): void => {
+  lastConfigured = '';
+};
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { SessionTab } from './webviewHtml';
+
+// vscode://<publisher>.<name>/<route>?... deep links into sessions, settings and workspace files
+type SessionTarget = 'sidebar' | 'editor';
+
+type DeepLinkOptions = {
+  openSession: (
+    sessionId: string,
+    options: { messageId?: string; target?: SessionTarget; tab?: SessionTab; file?: string }
+  ) => void;
+  showSettings: (section?: string) => void;
+  getActiveSessionId: () => string | null;
+};
+
+const readParam = (params: URLSearchParams, name: string): string | undefined => {
+  const value = params.get(name)?.trim();
+  return value ? value : undefined;
+};
+
+// Session and message ids end up in webview markup and API paths, so anything else is refused
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const readIdParam = (params: URLSearchParams, name: string): string | undefined => {
+  const value = readParam(params, name);
+  return value && ID_PATTERN.test(value) ? value : undefined;
+};
+
+// Only resolve files inside the open workspace; links can come from anywhere
+const resolveWorkspaceFile = (filePath: string): vscode.Uri | null => {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  if (path.isAbsolute(filePath)) {
+    const normalized = path.normalize(filePath);
+    const inside = folders.some((folder) => {
+      const relative = path.relative(folder.uri.fsPath, normalized);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    });
+    return inside ? vscode.Uri.file(normalized) : null;
+  }
+
+  for (const folder of folders) {
+    const candidate = path.normalize(path.join(folder.uri.fsPath, filePath));
+    const relative = path.relative(folder.uri.fsPath, candidate);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return vscode.Uri.file(candidate);
+    }
+  }
+  return null;
+};
+
+const openFile = async (filePath: string, line?: number): Promise<void> => {
+  const uri = resolveWorkspaceFile(filePath);
+  if (!uri) {
+    vscode.window.showWarningMessage(`Neusis Code: ${filePath} is not inside the open workspace`);
+    return;
+  }
+  const options: vscode.TextDocumentShowOptions = {};
+  if (typeof line === 'number' && Number.isFinite(line) && line > 0) {
+    const position = new vscode.Position(line - 1, 0);
+    options.selection = new vscode.Range(position, position);
+  }
+  await vscode.window.showTextDocument(uri, options);
+};
+
+const handleUri = async (uri: vscode.Uri, options: DeepLinkOptions): Promise<void> => {
+  const params = new URLSearchParams(uri.query);
+  const route = uri.path.replace(/^\/+|\/+$/g, '');
+
+  switch (route) {
+    case 'session': {
+      const sessionId = readIdParam(params, 'id');
+      if (!sessionId) {
+        vscode.window.showWarningMessage('Neusis Code: Session link is missing a valid session id');
+        return;
+      }
+      const target = readParam(params, 'target');
+      const tab = readParam(params, 'tab');
+      const file = readParam(params, 'file');
+      // Same shape as the UI router: `file` selects a file in the Diff tab and implies it
+      const sessionTab: SessionTab | undefined = tab === 'diff' || tab === 'chat' ? tab : file ? 'diff' : undefined;
+      options.openSession(sessionId, {
+        messageId: readIdParam(params, 'message'),
+        target: target === 'editor' || target === 'sidebar' ? target : undefined,
+        tab: sessionTab,
+        file: sessionTab === 'diff' ? file : undefined,
+      });
+      return;
+    }
+    case 'settings':
+      options.showSettings(readParam(params, 'section'));
+      return;
+    case 'file': {
+      const file = readParam(params, 'path');
+      if (!file) {
+        vscode.window.showWarningMessage('Neusis Code: File link is missing a path');
+        return;
+      }
+      const line = Number.parseInt(readParam(params, 'line') ?? '', 10);
+      await openFile(file, Number.isNaN(line) ? undefined : line);
+      return;
+    }
+    default:
+      vscode.window.showWarningMessage(`Neusis Code: Unsupported link ${uri.path}`);
+  }
+};
+
+export const buildSessionDeepLink = (
+  context: vscode.ExtensionContext,
+  sessionId: string,
+  messageId?: string
+): string => {
+  const params = new URLSearchParams({ id: sessionId });
+  if (messageId) {
+    params.set('message', messageId);
+  }
+  // Built by hand: vscode.Uri#toString() percent-encodes '=' and '&' in the query
+  return `${vscode.env.uriScheme}://${context.extension.id}/session?${params.toString()}`;
+};
+
+export const registerDeepLinks = (context: vscode.ExtensionContext, options: DeepLinkOptions): void => {
+  context.subscriptions.push(
+    vscode.window.registerUriHandler({
+      handleUri: (uri) =>
+        handleUri(uri, options).catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          vscode.window.showErrorMessage(`Neusis Code: Failed to open link: ${message}`);
+        }),
+    }),
+    vscode.commands.registerCommand('openchamber.copySessionLink', async (sessionId?: unknown, messageId?: unknown) => {
+      const fromPalette = typeof sessionId !== 'string';
+      const targetSessionId = typeof sessionId === 'string' && sessionId.trim() ? sessionId.trim() : options.getActiveSessionId();
+      if (!targetSessionId) {
+        vscode.window.showInformationMessage('Neusis Code: No active session');
+        return undefined;
+      }
+
+      const link = buildSessionDeepLink(context, targetSessionId, typeof messageId === 'string' ? messageId : undefined);
+      await vscode.env.clipboard.writeText(link);
+      // The webview shows its own toast when it asks for a link
+      if (fromPalette) {
+        vscode.window.showInformationMessage('Neusis Code: Session link copied to clipboard');
+      }
+      return link;
+    })
+  );
+};
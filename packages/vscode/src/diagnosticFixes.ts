@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+
+// "Fix with Neusis Code" quick fixes for error and warning diagnostics
+const CONTEXT_LINES = 5;
+const MAX_DIAGNOSTICS_PER_PROMPT = 25;
+
+export type FixTarget = 'new-session' | 'active-session';
+
+type DiagnosticFixOptions = {
+  sendPrompt: (prompt: string, target: FixTarget) => void;
+  hasActiveSession: () => boolean;
+};
+
+const isFixable = (diagnostic: vscode.Diagnostic) =>
+  diagnostic.severity === vscode.DiagnosticSeverity.Error || diagnostic.severity === vscode.DiagnosticSeverity.Warning;
+
+const formatDiagnostic = (diagnostic: vscode.Diagnostic): string => {
+  const line = diagnostic.range.start.line + 1;
+  const column = diagnostic.range.start.character + 1;
+  const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'warning';
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  const origin = [diagnostic.source, code !== undefined ? String(code) : ''].filter(Boolean).join(' ');
+  return `- ${line}:${column} [${severity}] ${diagnostic.message}${origin ? ` (${origin})` : ''}`;
+};
+
+// Merge the surrounding-line windows of nearby diagnostics so each snippet appears once
+const collectSnippetRanges = (document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]) => {
+  const windows = diagnostics
+    .map((diagnostic) => ({
+      start: Math.max(0, diagnostic.range.start.line - CONTEXT_LINES),
+      end: Math.min(document.lineCount - 1, diagnostic.range.end.line + CONTEXT_LINES),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end + 1) {
+      last.end = Math.max(last.end, window.end);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+};
+
+const buildFixPrompt = (document: vscode.TextDocument, diagnostics: vscode.Diagnostic[]): string => {
+  const filePath = vscode.workspace.asRelativePath(document.uri);
+  const languageId = document.languageId;
+  const included = diagnostics.slice(0, MAX_DIAGNOSTICS_PER_PROMPT);
+
+  const sections = [
+    `Fix the following ${included.length === 1 ? 'problem' : 'problems'} in ${filePath}:`,
+    included.map(formatDiagnostic).join('\n'),
+  ];
+  if (diagnostics.length > included.length) {
+    sections.push(`(${diagnostics.length - included.length} more problems omitted)`);
+  }
+
+  for (const range of collectSnippetRanges(document, included)) {
+    const text = document.getText(new vscode.Range(range.start, 0, range.end, document.lineAt(range.end).text.length));
+    const lineRange = range.start === range.end ? `${range.start + 1}` : `${range.start + 1}-${range.end + 1}`;
+    sections.push(`${filePath}:${lineRange}\n\`\`\`${languageId}\n${text}\n\`\`\``);
+  }
+
+  return sections.join('\n\n');
+};
+
+const fixableDiagnosticsFor = (uri: vscode.Uri) => vscode.languages.getDiagnostics(uri).filter(isFixable);
+
+export const registerDiagnosticFixes = (context: vscode.ExtensionContext, options: DiagnosticFixOptions): void => {
+  const provider: vscode.CodeActionProvider = {
+    provideCodeActions(document, _range, codeActionContext) {
+      const diagnostics = codeActionContext.diagnostics.filter(isFixable);
+      if (diagnostics.length === 0) {
+        return [];
+      }
+
+      const actions: vscode.CodeAction[] = [];
+
+      const fix = new vscode.CodeAction('Fix with Neusis Code', vscode.CodeActionKind.QuickFix);
+      fix.diagnostics = diagnostics;
+      fix.command = {
+        title: fix.title,
+        command: 'openchamber.fixDiagnostics',
+        arguments: [document.uri, diagnostics, 'new-session'],
+      };
+      actions.push(fix);
+
+      if (options.hasActiveSession()) {
+        const fixInSession = new vscode.CodeAction('Fix in current Neusis Code session', vscode.CodeActionKind.QuickFix);
+        fixInSession.diagnostics = diagnostics;
+        fixInSession.command = {
+          title: fixInSession.title,
+          command: 'openchamber.fixDiagnostics',
+          arguments: [document.uri, diagnostics, 'active-session'],
+        };
+        actions.push(fixInSession);
+      }
+
+      if (fixableDiagnosticsFor(document.uri).length > diagnostics.length) {
+        const fixAll = new vscode.CodeAction('Fix all problems in file with Neusis Code', vscode.CodeActionKind.QuickFix);
+        fixAll.command = {
+          title: fixAll.title,
+          command: 'openchamber.fixAllProblemsInFile',
+          arguments: [document.uri],
+        };
+        actions.push(fixAll);
+      }
+
+      return actions;
+    },
+  };
+
+  const sendFix = async (uri: vscode.Uri, diagnostics: vscode.Diagnostic[], target: FixTarget) => {
+    if (diagnostics.length === 0) {
+      vscode.window.showInformationMessage('Neusis Code: No errors or warnings to fix');
+      return;
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    options.sendPrompt(buildFixPrompt(document, diagnostics), target);
+  };
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, provider, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    }),
+    vscode.commands.registerCommand(
+      'openchamber.fixDiagnostics',
+      (uri: vscode.Uri, diagnostics: vscode.Diagnostic[], target: FixTarget = 'new-session') => sendFix(uri, diagnostics, target)
+    ),
+    vscode.commands.registerCommand('openchamber.fixAllProblemsInFile', async (uri?: vscode.Uri) => {
+      const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!targetUri) {
+        vscode.window.showWarningMessage('Neusis Code [Fix Problems]: No active editor');
+        return;
+      }
+      await sendFix(targetUri, fixableDiagnosticsFor(targetUri), 'new-session');
+    })
+  );
+};
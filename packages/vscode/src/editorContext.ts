@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+
+// Publishes the active editor, selection, visible range and open tabs so the chat can attach them as context
+const PUBLISH_DEBOUNCE_MS = 200;
+const MAX_SELECTION_CHARS = 20_000;
+const MAX_OPEN_EDITORS = 30;
+
+type EditorContextFile = {
+  path: string;
+  relativePath: string;
+};
+
+type EditorContextSnapshot = {
+  enabled: boolean;
+  includeContent: boolean;
+  activeFile:
+    | (EditorContextFile & {
+        languageId: string;
+        cursorLine: number;
+        visibleRange: { startLine: number; endLine: number } | null;
+        selection: { startLine: number; endLine: number; text?: string; truncated?: boolean } | null;
+      })
+    | null;
+  openEditors: EditorContextFile[];
+};
+
+type EditorContextOptions = {
+  postMessage: (message: unknown) => void;
+};
+
+let editorContextOptions: EditorContextOptions | null = null;
+let publishTimer: ReturnType<typeof setTimeout> | null = null;
+let lastPublished = '';
+// Focusing an editor-area webview clears activeTextEditor; keep the editor the user last worked in
+let lastTextEditor: vscode.TextEditor | undefined;
+
+const getConfig = () => vscode.workspace.getConfiguration('openchamber');
+
+const isEnabled = (): boolean => getConfig().get<boolean>('editorContext.enabled', true);
+
+const toContextFile = (uri: vscode.Uri): EditorContextFile => ({
+  path: uri.fsPath,
+  relativePath: vscode.workspace.asRelativePath(uri, false),
+});
+
+const isWorkspaceFile = (uri: vscode.Uri): boolean =>
+  uri.scheme === 'file' && Boolean(vscode.workspace.getWorkspaceFolder(uri));
+
+const collectOpenEditors = (): EditorContextFile[] => {
+  const seen = new Set<string>();
+  const files: EditorContextFile[] = [];
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      if (!(tab.input instanceof vscode.TabInputText) || !isWorkspaceFile(tab.input.uri)) {
+        continue;
+      }
+      const key = tab.input.uri.toString();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      files.push(toContextFile(tab.input.uri));
+      if (files.length >= MAX_OPEN_EDITORS) {
+        return files;
+      }
+    }
+  }
+  return files;
+};
+
+const buildActiveFile = (editor: vscode.TextEditor | undefined, includeContent: boolean): EditorContextSnapshot['activeFile'] => {
+  if (!editor || !isWorkspaceFile(editor.document.uri)) {
+    return null;
+  }
+
+  const { document, selection } = editor;
+  const visible = editor.visibleRanges[0];
+  let selectionInfo: NonNullable<EditorContextSnapshot['activeFile']>['selection'] = null;
+  if (!selection.isEmpty) {
+    selectionInfo = { startLine: selection.start.line + 1, endLine: selection.end.line + 1 };
+    if (includeContent) {
+      const text = document.getText(selection);
+      selectionInfo.text = text.length > MAX_SELECTION_CHARS ? text.slice(0, MAX_SELECTION_CHARS) : text;
+      selectionInfo.truncated = text.length > MAX_SELECTION_CHARS;
+    }
+  }
+
+  return {
+    ...toContextFile(document.uri),
+    languageId: document.languageId,
+    cursorLine: selection.active.line + 1,
+    visibleRange: visible ? { startLine: visible.start.line + 1, endLine: visible.end.line + 1 } : null,
+    selection: selectionInfo,
+  };
+};
+
+const resolveActiveEditor = (): vscode.TextEditor | undefined => {
+  const active = vscode.window.activeTextEditor;
+  if (active) {
+    return active;
+  }
+  return lastTextEditor && vscode.window.visibleTextEditors.includes(lastTextEditor) ? lastTextEditor : undefined;
+};
+
+export const getEditorContextSnapshot = (): EditorContextSnapshot => {
+  const enabled = isEnabled();
+  const includeContent = getConfig().get<boolean>('editorContext.includeSelectionContent', true);
+  if (!enabled) {
+    return { enabled, includeContent, activeFile: null, openEditors: [] };
+  }
+  return {
+    enabled,
+    includeContent,
+    activeFile: buildActiveFile(resolveActiveEditor(), includeContent),
+    openEditors: collectOpenEditors(),
+  };
+};
+
+const publishNow = (): void => {
+  if (!editorContextOptions) return;
+  const snapshot = getEditorContextSnapshot();
+  const serialized = JSON.stringify(snapshot);
+  // Cursor moves inside an unchanged selection fire events too; skip identical snapshots
+  if (serialized === lastPublished) return;
+  lastPublished = serialized;
+  editorContextOptions.postMessage({ type: 'command', command: 'editorContext', payload: snapshot });
+};
+
+const schedulePublish = (): void => {
+  if (publishTimer) {
+    clearTimeout(publishTimer);
+  }
+  publishTimer = setTimeout(() => {
+    publishTimer = null;
+    publishNow();
+  }, PUBLISH_DEBOUNCE_MS);
+};
+
+export const initEditorContext = (context: vscode.ExtensionContext, options: EditorContextOptions): void => {
+  editorContextOptions = options;
+  lastTextEditor = vscode.window.activeTextEditor;
+  context.subscriptions.push(
+    vscode.window.onDidChangeActiveTextEditor((editor) => {
+      if (editor) {
+        lastTextEditor = editor;
+      }
+      schedulePublish();
+    }),
+    vscode.window.onDidChangeTextEditorSelection(schedulePublish),
+    vscode.window.onDidChangeTextEditorVisibleRanges(schedulePublish),
+    vscode.window.onDidChangeVisibleTextEditors(schedulePublish),
+    vscode.window.tabGroups.onDidChangeTabs(schedulePublish),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('openchamber.editorContext')) {
+        schedulePublish();
+      }
+    })
+  );
+  schedulePublish();
+};
+
+export const disposeEditorContext = (): void => {
+  if (publishTimer) {
+    clearTimeout(publishTimer);
+    publishTimer = null;
+  }
+  editorContextOptions = null;
+  lastTextEditor = undefined;
+  lastPublished = '';
+};
@@ -1,9 +1,28 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ChatViewProvider } from './ChatViewProvider';
 import { AgentManagerPanelProvider } from './AgentManagerPanelProvider';
 import { SessionEditorPanelProvider } from './SessionEditorPanelProvider';
 import { createOpenCodeManager, type OpenCodeManager } from './opencode';
 import { startGlobalEventWatcher, stopGlobalEventWatcher, setChatViewProvider } from './sessionActivityWatcher';
+import { disposeTerminalSessions } from './terminalSessions';
+import { disposeNotifications, initNotifications } from './notifications';
+import { disposeStatusBar, initStatusBar, showStatusMenu } from './statusBar';
+import { disposeAgentEdits, initAgentEdits } from './agentEdits';
+import { registerDiagnosticFixes, type FixTarget } from './diagnosticFixes';
+import { disposeTerminalContext, registerTerminalContext } from './terminalContext';
+import { registerSessionExport } from './sessionExport';
+import { registerDeepLinks } from './deepLinks';
+import type { SessionView } from './webviewHtml';
+import { disposeSessionsTree, initSessionsTree } from './sessionsTree';
+import { disposeSnapshotDocuments, initSnapshotDocuments } from './snapshotDocuments';
+import { disposeAgentChangesScm, initAgentChangesScm, setAgentChangesSession } from './agentChangesScm';
+import { disposeEditorContext, initEditorContext } from './editorContext';
+import { disposeConfigSettings, initConfigSettings } from './configSettings';
+import { disposeReviewComments, initReviewComments } from './reviewComments';
+import { initGitHubAuth } from './githubAuth';
+import { initWorkspaceTrust } from './workspaceTrust';
+import { disposePaletteCommands, initPaletteCommands } from './paletteCommands';
 
 let chatViewProvider: ChatViewProvider | undefined;
 let agentManagerProvider: AgentManagerPanelProvider | undefined;
@@ -161,6 +180,71 @@ export async function activate(context: vscode.ExtensionContext) {
   agentManagerProvider = new AgentManagerPanelProvider(context, context.extensionUri, openCodeManager);
   sessionEditorProvider = new SessionEditorPanelProvider(context, context.extensionUri, openCodeManager);
 
+  // Prefer an already-open session editor; otherwise switch the sidebar chat to the session
+  const openSessionInView = (sessionId: string, messageId?: string, view?: SessionView) => {
+    if (sessionEditorProvider?.revealSession(sessionId, messageId, view)) {
+      return;
+    }
+    void chatViewProvider?.openSession(sessionId, messageId, view);
+  };
+
+  // Route native notification actions back into whichever webview owns the session
+  initNotifications(context, openCodeManager, {
+    isWebviewVisible: () =>
+      Boolean(chatViewProvider?.isVisible() || sessionEditorProvider?.isAnyPanelVisible() || agentManagerProvider?.isVisible()),
+    openSession: openSessionInView,
+  });
+
+  initGitHubAuth(context);
+  initWorkspaceTrust(context, {
+    onTrustGranted: () => {
+      const message = { type: 'command', command: 'workspaceTrust', payload: { trusted: true } };
+      chatViewProvider?.postMessage(message);
+      sessionEditorProvider?.postMessage(message);
+      void openCodeManager?.start();
+    },
+  });
+  initStatusBar(context, openCodeManager, { openSession: (sessionId) => openSessionInView(sessionId) });
+  initAgentEdits(context, openCodeManager);
+  initSessionsTree(context, openCodeManager, { openSession: (sessionId) => openSessionInView(sessionId) });
+  initSnapshotDocuments(context, openCodeManager, { getActiveSessionId: () => activeSessionId });
+  initAgentChangesScm(context, openCodeManager);
+  initEditorContext(context, {
+    postMessage: (message) => {
+      chatViewProvider?.postMessage(message);
+      sessionEditorProvider?.postMessage(message);
+    },
+  });
+  initReviewComments(context, {
+    postMessage: (message) => chatViewProvider?.postMessage(message) ?? false,
+  });
+  initConfigSettings(context, {
+    onDidChange: () => {
+      const message = { type: 'command', command: 'settingsChanged' };
+      chatViewProvider?.postMessage(message);
+      sessionEditorProvider?.postMessage(message);
+    },
+  });
+
+  registerDeepLinks(context, {
+    openSession: (sessionId, { messageId, target, tab, file }) => {
+      const view = { tab, file };
+      if (target === 'editor') {
+        sessionEditorProvider?.createOrShow(sessionId, undefined, messageId, view);
+      } else if (target === 'sidebar') {
+        void chatViewProvider?.openSession(sessionId, messageId, view);
+      } else {
+        openSessionInView(sessionId, messageId, view);
+      }
+    },
+    showSettings: (section) => chatViewProvider?.showSettings(section),
+    getActiveSessionId: () => activeSessionId,
+  });
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openchamber.showStatusMenu', () => showStatusMenu())
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('openchamber.openAgentManager', () => {
       agentManagerProvider?.createOrShow();
@@ -172,11 +256,13 @@ export async function activate(context: vscode.ExtensionContext) {
       if (typeof sessionId === 'string' && sessionId.trim().length > 0) {
         activeSessionId = sessionId.trim();
         activeSessionTitle = typeof title === 'string' && title.trim().length > 0 ? title.trim() : null;
+        setAgentChangesSession(activeSessionId);
         return;
       }
 
       activeSessionId = null;
       activeSessionTitle = null;
+      setAgentChangesSession(null);
     })
   );
 
@@ -324,6 +410,39 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  const sendFixPrompt = (prompt: string, target: FixTarget) => {
+    if (target === 'active-session' && activeSessionId) {
+      chatViewProvider?.sendPromptToCurrentSession(prompt);
+    } else {
+      chatViewProvider?.createNewSessionWithPrompt(prompt);
+    }
+    vscode.commands.executeCommand('openchamber.focusChat');
+  };
+
+  initPaletteCommands(context, openCodeManager, {
+    getActiveSessionId: () => activeSessionId,
+    setActiveSession: (sessionId, title) => {
+      activeSessionId = sessionId;
+      activeSessionTitle = title;
+      setAgentChangesSession(sessionId);
+    },
+    openSession: (sessionId) => openSessionInView(sessionId),
+  });
+
+  registerDiagnosticFixes(context, {
+    hasActiveSession: () => Boolean(activeSessionId),
+    sendPrompt: sendFixPrompt,
+  });
+  registerTerminalContext(context, {
+    hasActiveSession: () => Boolean(activeSessionId),
+    sendPrompt: sendFixPrompt,
+    addToContext: (text) => chatViewProvider?.addTextToInput(text),
+  });
+
+  registerSessionExport(context, {
+    showImportedSessions: () => chatViewProvider?.showImportedSessions(),
+  });
+
   context.subscriptions.push(
     vscode.commands.registerCommand('openchamber.newSession', () => {
       chatViewProvider?.createNewSession();
@@ -343,12 +462,11 @@ export async function activate(context: vscode.ExtensionContext) {
 
       const extensionVersion = String(context.extension?.packageJSON?.version || '');
       const workspaceFolders = (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
-      const primaryWorkspace = workspaceFolders[0] || '';
 
       const debug = openCodeManager?.getDebugInfo();
       const resolvedApiUrl = openCodeManager?.getApiUrl();
       const workingDirectory = openCodeManager?.getWorkingDirectory() ?? '';
-      const workingDirectoryMatchesWorkspace = Boolean(primaryWorkspace && workingDirectory === primaryWorkspace);
+      const workingDirectoryFolderIndex = workspaceFolders.indexOf(workingDirectory);
       let resolvedApiPath = '';
       if (resolvedApiUrl) {
         try {
@@ -405,12 +523,12 @@ export async function activate(context: vscode.ExtensionContext) {
         }
       };
 
-      const buildProbeUrl = (pathname: string, includeDirectory = true) => {
+      const buildProbeUrl = (pathname: string, includeDirectory = true, directory = workingDirectory) => {
         if (!resolvedApiUrl) return null;
         const base = `${resolvedApiUrl.replace(/\/+$/, '')}/`;
         const url = new URL(pathname.replace(/^\/+/, ''), base);
-        if (includeDirectory && workingDirectory) {
-          url.searchParams.set('directory', workingDirectory);
+        if (includeDirectory && directory) {
+          url.searchParams.set('directory', directory);
         }
         return url.toString();
       };
@@ -442,6 +560,18 @@ export async function activate(context: vscode.ExtensionContext) {
           )
         : [];
 
+      // Multi-root: every folder is served through the same server with its own `directory` scope
+      const folderProbes = resolvedApiUrl && workspaceFolders.length > 1
+        ? await Promise.all(
+            workspaceFolders.map(async (folder) => {
+              const url = buildProbeUrl('/session', true, folder) ?? '(none)';
+              const result = await safeFetch(url, 12000);
+              return { label: `sessions[${path.basename(folder)}]`, url, result };
+            })
+          )
+        : [];
+      probes.push(...folderProbes);
+
       const storedSettings = context.globalState.get<Record<string, unknown>>(SETTINGS_KEY) || {};
       const settingsKeys = Object.keys(storedSettings).filter((key) => key !== 'lastDirectory');
 
@@ -454,7 +584,7 @@ export async function activate(context: vscode.ExtensionContext) {
         `Workspace folders: ${workspaceFolders.length}${workspaceFolders.length ? ` (${workspaceFolders.join(', ')})` : ''}`,
         `Status: ${openCodeManager?.getStatus() ?? 'unknown'}`,
         `Working directory: ${workingDirectory}`,
-        `Working dir matches workspace: ${workingDirectoryMatchesWorkspace ? 'yes' : 'no'}`,
+        `Working dir matches workspace: ${workingDirectoryFolderIndex >= 0 ? `yes (folder ${workingDirectoryFolderIndex + 1} of ${workspaceFolders.length})` : 'no'}`,
         `API URL (configured): ${configuredApiUrl || '(none)'}`,
         `OpenCode binary (configured): ${(vscode.workspace.getConfiguration('openchamber').get<string>('opencodeBinary') || '').trim() || '(none)'}`,
         `API URL (resolved): ${openCodeManager?.getApiUrl() ?? '(none)'}`,
@@ -544,6 +674,23 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Multi-root: keep the webview's folder projects and the OpenCode working directory in step
+  // with folders added to or removed from the workspace
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      const folders = (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath);
+      const message = { type: 'command', command: 'workspaceFolders', payload: { folders } };
+      chatViewProvider?.postMessage(message);
+      sessionEditorProvider?.postMessage(message);
+
+      const workingDirectory = openCodeManager?.getWorkingDirectory();
+      if (workingDirectory) {
+        // Re-resolving falls back to the primary folder when the current one was removed
+        void openCodeManager?.setWorkingDirectory(workingDirectory);
+      }
+    })
+  );
+
   // Subscribe to status changes - this broadcasts to webview
   context.subscriptions.push(
     openCodeManager.onStatusChange((status, error) => {
@@ -569,6 +716,18 @@ export async function activate(context: vscode.ExtensionContext) {
 
 export async function deactivate() {
   stopGlobalEventWatcher();
+  disposeTerminalSessions();
+  disposeNotifications();
+  disposeStatusBar();
+  disposeAgentEdits();
+  disposeSessionsTree();
+  disposeSnapshotDocuments();
+  disposeAgentChangesScm();
+  disposeEditorContext();
+  disposeConfigSettings();
+  disposeTerminalContext();
+  disposeReviewComments();
+  disposePaletteCommands();
   await openCodeManager?.stop();
   openCodeManager = undefined;
   chatViewProvider = undefined;
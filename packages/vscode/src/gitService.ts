@@ -1270,6 +1270,10 @@ const syncProjectSandboxRemove = async (projectID: string, primaryWorktree: stri
 };
 
 const queueWorktreeStartScripts = (directory: string, projectID: string, startCommand: string | undefined) => {
+  if (!vscode.workspace.isTrusted) {
+    console.warn('[GitService] Skipping worktree setup commands in Restricted Mode');
+    return;
+  }
   setTimeout(() => {
     const run = async () => {
       const projectStart = await loadProjectStartCommand(projectID);
@@ -2394,6 +2398,18 @@ export async function getCommitFiles(
   return { files };
 }
 
+/**
+ * Get file content at a ref (path relative to the repository root); empty when the file is absent there
+ */
+export async function getGitFileAtRef(directory: string, ref: string, filePath: string): Promise<string> {
+  // Refs arrive from webview messages and URIs; a leading dash would be parsed as an option
+  if (!ref || ref.startsWith('-')) {
+    return '';
+  }
+  const result = await execGit(['show', '--end-of-options', `${ref}:${filePath}`], directory);
+  return result.exitCode === 0 ? result.stdout : '';
+}
+
 // ============== Git Identity Operations ==============
 
 export interface GitIdentitySummary {
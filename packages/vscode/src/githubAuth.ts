@@ -19,6 +19,7 @@ type StoredAuth = {
   user?: { login: string; id?: number; avatarUrl?: string };
   accountId?: string;
   current?: boolean;
+  source?: 'device' | 'vscode';
 };
 
 type JsonRecord = Record<string, unknown>;
@@ -40,9 +41,74 @@ type TokenResponse = {
   error_description?: string;
 };
 
-const authFilePath = (context: vscode.ExtensionContext) =>
+// Tokens live in SecretStorage; `github-auth.json` is only read once to migrate older installs
+const SECRET_KEY = 'openchamber.githubAuth';
+const VSCODE_AUTH_PROVIDER_ID = 'github';
+
+const legacyAuthFilePath = (context: vscode.ExtensionContext) =>
   path.join(context.globalStorageUri.fsPath, 'github-auth.json');
 
+let migration: Promise<void> | null = null;
+
+const parseAuthList = (raw: string): StoredAuth[] => {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed) return [];
+    return (Array.isArray(parsed) ? parsed : [parsed]) as StoredAuth[];
+  } catch {
+    return [];
+  }
+};
+
+const migrateLegacyAuthFile = async (context: vscode.ExtensionContext): Promise<void> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(legacyAuthFilePath(context), 'utf8');
+  } catch {
+    return;
+  }
+
+  const legacy = parseAuthList(raw).filter((entry) => Boolean(entry?.accessToken));
+  if (legacy.length > 0) {
+    const existingRaw = await context.secrets.get(SECRET_KEY);
+    const existing = existingRaw ? parseAuthList(existingRaw) : [];
+    // Accounts already in secret storage are newer than the file; only bring over the ones it lacks
+    const known = new Set(existing.map(resolveAccountId));
+    const missing = legacy
+      .filter((entry) => !known.has(resolveAccountId(entry)))
+      .map((entry) => (existing.length > 0 ? { ...entry, current: false } : entry));
+    if (missing.length > 0) {
+      await context.secrets.store(SECRET_KEY, JSON.stringify([...existing, ...missing]));
+    }
+  }
+  // Only reached once the merge is stored, so a failed write leaves the file for the next launch
+  await fs.rm(legacyAuthFilePath(context), { force: true });
+};
+
+// Concurrent bridge calls share a single migration so none of them reads a half-moved state
+const ensureMigrated = (context: vscode.ExtensionContext): Promise<void> => {
+  if (!migration) {
+    migration = migrateLegacyAuthFile(context).catch((error) => {
+      console.warn('[OpenChamber] Failed to migrate GitHub auth to secret storage:', error);
+    });
+  }
+  return migration;
+};
+
+const loadAuthList = async (context: vscode.ExtensionContext): Promise<StoredAuth[]> => {
+  await ensureMigrated(context);
+  const raw = await context.secrets.get(SECRET_KEY);
+  return raw ? parseAuthList(raw) : [];
+};
+
+const saveAuthList = async (context: vscode.ExtensionContext, list: StoredAuth[]): Promise<void> => {
+  if (list.length === 0) {
+    await context.secrets.delete(SECRET_KEY);
+    return;
+  }
+  await context.secrets.store(SECRET_KEY, JSON.stringify(list));
+};
+
 const resolveAccountId = (auth: StoredAuth): string => {
   if (typeof auth.accountId === 'string' && auth.accountId.trim()) {
     return auth.accountId.trim();
@@ -89,13 +155,9 @@ const normalizeAuthList = (list: StoredAuth[]): { list: StoredAuth[]; changed: b
 
 export const readGitHubAuthList = async (context: vscode.ExtensionContext): Promise<StoredAuth[]> => {
   try {
-    const raw = await fs.readFile(authFilePath(context), 'utf8');
-    const parsed = JSON.parse(raw);
-    if (!parsed) return [];
-    const list = Array.isArray(parsed) ? parsed : [parsed];
-    const { list: normalized, changed } = normalizeAuthList(list as StoredAuth[]);
+    const { list: normalized, changed } = normalizeAuthList(await loadAuthList(context));
     if (changed) {
-      await fs.writeFile(authFilePath(context), JSON.stringify(normalized, null, 2), 'utf8');
+      await saveAuthList(context, normalized);
     }
     return normalized;
   } catch {
@@ -126,14 +188,7 @@ export const writeGitHubAuth = async (context: vscode.ExtensionContext, auth: St
     entry.current = entry.accountId === next.accountId;
   });
 
-  await fs.mkdir(context.globalStorageUri.fsPath, { recursive: true });
-  await fs.writeFile(authFilePath(context), JSON.stringify(list, null, 2), 'utf8');
-  try {
-    // best-effort perms on unix
-    await fs.chmod(authFilePath(context), 0o600);
-  } catch {
-    // ignore
-  }
+  await saveAuthList(context, list);
 };
 
 export const activateGitHubAuth = async (context: vscode.ExtensionContext, accountId: string): Promise<boolean> => {
@@ -151,7 +206,7 @@ export const activateGitHubAuth = async (context: vscode.ExtensionContext, accou
     }
   });
   if (!found) return false;
-  await fs.writeFile(authFilePath(context), JSON.stringify(list, null, 2), 'utf8');
+  await saveAuthList(context, list);
   return true;
 };
 
@@ -160,19 +215,65 @@ export const clearGitHubAuth = async (context: vscode.ExtensionContext): Promise
     const list = await readGitHubAuthList(context);
     if (!list.length) return true;
     const remaining = list.filter((entry) => !entry.current);
-    if (!remaining.length) {
-      await fs.rm(authFilePath(context));
-      return true;
+    if (remaining.length) {
+      remaining[0].current = true;
     }
-    remaining[0].current = true;
-    await fs.writeFile(authFilePath(context), JSON.stringify(remaining, null, 2), 'utf8');
+    await saveAuthList(context, remaining);
     return true;
-  } catch (err: unknown) {
-    if (err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === 'ENOENT') return true;
+  } catch {
     return false;
   }
 };
 
+const splitScopes = (scope: string): string[] => scope.split(/[\s,]+/).filter(Boolean);
+
+/**
+ * Reuse the GitHub account the user is already signed into in VS Code instead of running the device flow.
+ */
+export const signInWithVSCodeGitHub = async (context: vscode.ExtensionContext, scope: string) => {
+  const scopes = splitScopes(scope);
+  const session = await vscode.authentication.getSession(VSCODE_AUTH_PROVIDER_ID, scopes, { createIfNone: true });
+  const user = await fetchMe(session.accessToken);
+  await writeGitHubAuth(context, {
+    accessToken: session.accessToken,
+    scope: scopes.join(' '),
+    tokenType: 'bearer',
+    createdAt: Date.now(),
+    user,
+    source: 'vscode',
+  });
+  return { user, scope: scopes.join(' ') };
+};
+
+// VS Code rotates provider tokens on its own; pick up the new token for accounts that came from it
+const refreshVSCodeGitHubSessions = async (context: vscode.ExtensionContext): Promise<void> => {
+  const list = await readGitHubAuthList(context);
+  let changed = false;
+  for (const entry of list) {
+    if (entry.source !== 'vscode') continue;
+    const session = await vscode.authentication.getSession(VSCODE_AUTH_PROVIDER_ID, splitScopes(entry.scope || ''), { silent: true });
+    if (session && session.account.label === entry.user?.login && session.accessToken !== entry.accessToken) {
+      entry.accessToken = session.accessToken;
+      changed = true;
+    }
+  }
+  if (changed) {
+    await saveAuthList(context, list);
+  }
+};
+
+export const initGitHubAuth = (context: vscode.ExtensionContext): void => {
+  void ensureMigrated(context);
+  context.subscriptions.push(
+    vscode.authentication.onDidChangeSessions((event) => {
+      if (event.provider.id !== VSCODE_AUTH_PROVIDER_ID) return;
+      refreshVSCodeGitHubSessions(context).catch((error) => {
+        console.warn('[OpenChamber] Failed to refresh VS Code GitHub session:', error);
+      });
+    })
+  );
+};
+
 const postForm = async <T extends JsonRecord>(url: string, params: Record<string, string>): Promise<T> => {
   const response = await fetch(url, {
     method: 'POST',
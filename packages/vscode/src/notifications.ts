@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import type { OpenCodeManager } from './opencode';
+import { applyConfiguredSettings } from './configSettings';
+
+// Native VS Code notifications for agent events (mirrors web server openchamber:notification behavior)
+type NotificationKind = 'ready' | 'error' | 'question' | 'permission';
+
+export interface NativeNotification {
+  title: string;
+  body?: string;
+  tag?: string;
+  kind?: NotificationKind;
+  sessionId?: string;
+  permissionRequestId?: string;
+  requireHidden?: boolean;
+}
+
+export interface NotificationRouter {
+  // True when any OpenChamber webview (sidebar, session editor, agent manager) is currently visible
+  isWebviewVisible: () => boolean;
+  openSession: (sessionId: string) => void;
+}
+
+const SETTINGS_KEY = 'openchamber.settings';
+const READY_NOTIFICATION_COOLDOWN_MS = 5000;
+const QUESTION_DEBOUNCE_MS = 500;
+
+const OPEN_SESSION_ACTION = 'Open session';
+const APPROVE_ACTION = 'Approve';
+const DENY_ACTION = 'Deny';
+
+let extensionContext: vscode.ExtensionContext | null = null;
+let openCodeManager: OpenCodeManager | null = null;
+let notificationRouter: NotificationRouter | null = null;
+
+const lastReadyNotificationAt = new Map<string, number>();
+const questionDebounceTimers = new Map<string, NodeJS.Timeout>();
+const notifiedPermissionRequests = new Set<string>();
+
+const readNotificationSettings = () => {
+  const stored = applyConfiguredSettings(extensionContext?.globalState.get<Record<string, unknown>>(SETTINGS_KEY) || {});
+  return {
+    enabled: stored.nativeNotificationsEnabled === true,
+    mode: stored.notificationMode === 'always' ? 'always' : 'hidden-only',
+    notifyOnSubtasks: stored.notifyOnSubtasks !== false,
+    notifyOnCompletion: stored.notifyOnCompletion !== false,
+    notifyOnError: stored.notifyOnError !== false,
+    notifyOnQuestion: stored.notifyOnQuestion !== false,
+  };
+};
+
+const isUiHidden = (): boolean => {
+  if (!vscode.window.state.focused) {
+    return true;
+  }
+  return !(notificationRouter?.isWebviewVisible() ?? false);
+};
+
+const formatMode = (raw: unknown): string => {
+  const value = typeof raw === 'string' ? raw.trim() : '';
+  const normalized = value.length > 0 ? value : 'agent';
+  return normalized
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((token) => token.charAt(0).toUpperCase() + token.slice(1))
+    .join(' ');
+};
+
+const formatModelId = (raw: unknown): string => {
+  const value = typeof raw === 'string' ? raw.trim() : '';
+  if (!value) {
+    return 'Assistant';
+  }
+
+  const tokens = value.split(/[-_]+/).filter(Boolean);
+  const result: string[] = [];
+  for (let i = 0; i < tokens.length; i += 1) {
+    const current = tokens[i];
+    const next = tokens[i + 1];
+    if (/^\d+$/.test(current) && next && /^\d+$/.test(next)) {
+      result.push(`${current}.${next}`);
+      i += 1;
+      continue;
+    }
+    result.push(current);
+  }
+
+  return result.map((part) => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+};
+
+const openCodeRequest = async (pathname: string, init?: RequestInit): Promise<Response | null> => {
+  const baseUrl = openCodeManager?.getApiUrl();
+  if (!baseUrl) {
+    return null;
+  }
+  return fetch(`${baseUrl.replace(/\/+$/, '')}${pathname}`, {
+    ...init,
+    headers: {
+      Accept: 'application/json',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...openCodeManager?.getOpenCodeAuthHeaders(),
+      ...(init?.headers as Record<string, string> | undefined),
+    },
+  });
+};
+
+const fetchSessionParentId = async (sessionId: string): Promise<string | null> => {
+  try {
+    const response = await openCodeRequest(`/session/${encodeURIComponent(sessionId)}`);
+    if (!response?.ok) {
+      return null;
+    }
+    const session = (await response.json()) as { parentID?: unknown };
+    return typeof session?.parentID === 'string' && session.parentID.length > 0 ? session.parentID : null;
+  } catch {
+    return null;
+  }
+};
+
+const replyToPermission = async (requestId: string, reply: 'once' | 'reject'): Promise<void> => {
+  try {
+    const response = await openCodeRequest(`/permission/${encodeURIComponent(requestId)}/reply`, {
+      method: 'POST',
+      body: JSON.stringify({ reply }),
+    });
+    if (!response?.ok) {
+      throw new Error(response ? `status ${response.status}` : 'OpenCode API unavailable');
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Neusis Code: Failed to reply to permission request - ${message}`);
+  }
+};
+
+export const showNativeNotification = async (notification: NativeNotification): Promise<boolean> => {
+  if (!notification.title) {
+    return false;
+  }
+  if (notification.requireHidden && !isUiHidden()) {
+    return false;
+  }
+
+  const message = notification.body ? `${notification.title}: ${notification.body}` : notification.title;
+  const actions: string[] = [];
+  if (notification.sessionId) {
+    actions.push(OPEN_SESSION_ACTION);
+  }
+  if (notification.kind === 'permission' && notification.permissionRequestId) {
+    actions.push(APPROVE_ACTION, DENY_ACTION);
+  }
+
+  const show = notification.kind === 'error' ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+  void show(message, ...actions).then((selection) => {
+    if (selection === OPEN_SESSION_ACTION && notification.sessionId) {
+      notificationRouter?.openSession(notification.sessionId);
+    } else if (selection === APPROVE_ACTION && notification.permissionRequestId) {
+      void replyToPermission(notification.permissionRequestId, 'once');
+    } else if (selection === DENY_ACTION && notification.permissionRequestId) {
+      void replyToPermission(notification.permissionRequestId, 'reject');
+    }
+  });
+
+  return true;
+};
+
+const readSessionId = (properties: Record<string, unknown> | undefined): string | null => {
+  const info = properties?.info as Record<string, unknown> | undefined;
+  const candidate = info?.sessionID ?? properties?.sessionID ?? properties?.sessionId;
+  return typeof candidate === 'string' && candidate.length > 0 ? candidate : null;
+};
+
+export const handleNotificationEvent = async (payload: Record<string, unknown>): Promise<void> => {
+  if (!extensionContext || !payload || typeof payload !== 'object') {
+    return;
+  }
+
+  const type = payload.type as string;
+  const properties = (payload.properties ?? payload) as Record<string, unknown>;
+  const sessionId = readSessionId(properties);
+  if (!sessionId) {
+    return;
+  }
+
+  const settings = readNotificationSettings();
+  if (!settings.enabled) {
+    return;
+  }
+  const requireHidden = settings.mode !== 'always';
+
+  if (type === 'message.updated') {
+    const info = properties.info as Record<string, unknown> | undefined;
+    if (info?.role !== 'assistant') {
+      return;
+    }
+
+    if (info.finish === 'stop') {
+      if (!settings.notifyOnCompletion) {
+        return;
+      }
+
+      const now = Date.now();
+      const lastAt = lastReadyNotificationAt.get(sessionId) ?? 0;
+      if (now - lastAt < READY_NOTIFICATION_COOLDOWN_MS) {
+        return;
+      }
+      lastReadyNotificationAt.set(sessionId, now);
+
+      // Fail open: if parentID cannot be resolved, send notification.
+      if (!settings.notifyOnSubtasks && (await fetchSessionParentId(sessionId))) {
+        return;
+      }
+
+      await showNativeNotification({
+        kind: 'ready',
+        title: `${formatMode(info.mode)} agent is ready`,
+        body: `${formatModelId(info.modelID)} completed the task`,
+        tag: `ready-${sessionId}`,
+        sessionId,
+        requireHidden,
+      });
+      return;
+    }
+
+    if (info.finish === 'error' && settings.notifyOnError) {
+      await showNativeNotification({
+        kind: 'error',
+        title: 'Tool error',
+        body: 'An error occurred',
+        tag: `error-${sessionId}`,
+        sessionId,
+        requireHidden,
+      });
+    }
+    return;
+  }
+
+  if (type === 'question.asked') {
+    if (!settings.notifyOnQuestion) {
+      return;
+    }
+
+    const existingTimer = questionDebounceTimers.get(sessionId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const questions = properties.questions as Array<Record<string, unknown>> | undefined;
+    const firstQuestion = Array.isArray(questions) ? questions[0] : undefined;
+    const header = typeof firstQuestion?.header === 'string' ? firstQuestion.header.trim() : '';
+    const questionText = typeof firstQuestion?.question === 'string' ? firstQuestion.question.trim() : '';
+
+    const timer = setTimeout(() => {
+      questionDebounceTimers.delete(sessionId);
+      void showNativeNotification({
+        kind: 'question',
+        title: header || 'Input needed',
+        body: questionText || 'Agent is waiting for your response',
+        tag: `question-${sessionId}`,
+        sessionId,
+        requireHidden,
+      });
+    }, QUESTION_DEBOUNCE_MS);
+    questionDebounceTimers.set(sessionId, timer);
+    return;
+  }
+
+  if (type === 'permission.asked') {
+    // Permission requests use the question event toggle (since permission requests are a type of "agent needs input")
+    if (!settings.notifyOnQuestion) {
+      return;
+    }
+
+    const requestId = typeof properties.id === 'string' ? properties.id : null;
+    if (!requestId) {
+      return;
+    }
+    const requestKey = `${sessionId}:${requestId}`;
+    if (notifiedPermissionRequests.has(requestKey)) {
+      return;
+    }
+    notifiedPermissionRequests.add(requestKey);
+
+    const permission = typeof properties.permission === 'string' ? properties.permission : '';
+    const patterns = Array.isArray(properties.patterns)
+      ? (properties.patterns as unknown[]).filter((entry): entry is string => typeof entry === 'string')
+      : [];
+    const detail = [permission, patterns.join(', ')].filter(Boolean).join(' — ');
+
+    await showNativeNotification({
+      kind: 'permission',
+      title: 'Permission required',
+      body: detail || 'Agent is waiting for your approval',
+      tag: `permission-${requestKey}`,
+      sessionId,
+      permissionRequestId: requestId,
+      requireHidden,
+    });
+  }
+};
+
+export const initNotifications = (
+  context: vscode.ExtensionContext,
+  manager: OpenCodeManager,
+  router: NotificationRouter
+): void => {
+  extensionContext = context;
+  openCodeManager = manager;
+  notificationRouter = router;
+};
+
+export const disposeNotifications = (): void => {
+  for (const timer of questionDebounceTimers.values()) {
+    clearTimeout(timer);
+  }
+  questionDebounceTimers.clear();
+  lastReadyNotificationAt.clear();
+  notifiedPermissionRequests.clear();
+  extensionContext = null;
+  openCodeManager = null;
+  notificationRouter = null;
+};
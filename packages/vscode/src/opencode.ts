@@ -7,6 +7,7 @@ import { execSync } from 'child_process';
 import { spawnSync } from 'child_process';
 import { spawn } from 'child_process';
 import { randomBytes } from 'crypto';
+import { isWorkspaceTrusted, RESTRICTED_MODE_ERROR } from './workspaceTrust';
 
 const READY_CHECK_TIMEOUT_MS = 30000;
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
@@ -571,6 +572,12 @@ export function createOpenCodeManager(_context: vscode.ExtensionContext): OpenCo
       workingDirectory = workspaceDirectory();
     }
 
+    // The agent can run commands in the working directory; wait for onDidGrantWorkspaceTrust in Restricted Mode
+    if (!isWorkspaceTrusted()) {
+      setStatus('disconnected', RESTRICTED_MODE_ERROR);
+      return;
+    }
+
     if (useConfiguredUrl && configuredApiUrl) {
       setStatus('connecting');
       setStatus('connected');
@@ -762,10 +769,20 @@ export function createOpenCodeManager(_context: vscode.ExtensionContext): OpenCo
     }
   }
 
+  // Requests are scoped per directory via `?directory=`, so one server serves every workspace folder;
+  // only paths inside an open folder are accepted, anything else falls back to the primary folder
+  const resolveWorkspaceDirectory = (candidate: string): string => {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const resolved = path.resolve(candidate);
+    const inside = folders.some((folder) => {
+      const relative = path.relative(folder.uri.fsPath, resolved);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    });
+    return inside ? resolved : workspaceDirectory();
+  };
+
   async function setWorkingDirectory(newPath: string): Promise<{ success: boolean; restarted: boolean; path: string }> {
-    void newPath;
-    const workspacePath = workspaceDirectory();
-    const nextDirectory = workspacePath;
+    const nextDirectory = newPath ? resolveWorkspaceDirectory(newPath) : workspaceDirectory();
 
     if (workingDirectory === nextDirectory) {
       return { success: true, restarted: false, path: nextDirectory };
@@ -0,0 +1,384 @@
+import * as vscode from 'vscode';
+import type { OpenCodeManager } from './opencode';
+import { getSessionActivitySummaries } from './sessionActivityWatcher';
+
+// Keyboard-driven session commands that talk to OpenCode directly, so they work while the webview is collapsed
+type PaletteCommandsOptions = {
+  getActiveSessionId: () => string | null;
+  setActiveSession: (sessionId: string, title: string) => void;
+  openSession: (sessionId: string) => void;
+};
+
+type SessionSummary = {
+  id: string;
+  title: string;
+  directory: string;
+  updatedAt: number;
+};
+
+type PermissionRequest = {
+  id: string;
+  sessionID: string;
+  permission: string;
+  patterns?: string[];
+};
+
+type QuestionRequest = {
+  id: string;
+  sessionID: string;
+  questions: Array<{ question: string; header?: string; options?: Array<{ label: string; description?: string }>; multiple?: boolean }>;
+};
+
+let openCodeManager: OpenCodeManager | null = null;
+let paletteOptions: PaletteCommandsOptions | null = null;
+
+const openCodeRequest = async (pathname: string, directory: string | null, init?: RequestInit): Promise<Response> => {
+  const baseUrl = openCodeManager?.getApiUrl();
+  if (!baseUrl) {
+    throw new Error('OpenCode API is not available');
+  }
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}${pathname}`);
+  if (directory) {
+    url.searchParams.set('directory', directory);
+  }
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Accept: 'application/json',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...openCodeManager?.getOpenCodeAuthHeaders(),
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`OpenCode responded with ${response.status}`);
+  }
+  return response;
+};
+
+const readJsonArray = async (response: Response): Promise<unknown[]> => {
+  const data = (await response.json().catch(() => null)) as unknown;
+  return Array.isArray(data) ? data : [];
+};
+
+const workspaceDirectories = () => (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+
+const listSessions = async (): Promise<SessionSummary[]> => {
+  const directories = workspaceDirectories();
+  const lists = await Promise.all(
+    (directories.length > 0 ? directories : [null]).map((directory) =>
+      openCodeRequest('/session', directory).then(readJsonArray).catch(() => [])
+    )
+  );
+
+  const sessions = new Map<string, SessionSummary>();
+  for (const raw of lists.flat()) {
+    if (!raw || typeof raw !== 'object') continue;
+    const record = raw as Record<string, unknown>;
+    if (typeof record.id !== 'string' || record.parentID) continue;
+    const time = (record.time ?? {}) as Record<string, unknown>;
+    sessions.set(record.id, {
+      id: record.id,
+      title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : 'Untitled session',
+      directory: typeof record.directory === 'string' ? record.directory : '',
+      updatedAt: typeof time.updated === 'number' ? time.updated : typeof time.created === 'number' ? time.created : 0,
+    });
+  }
+  return [...sessions.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const fetchSession = async (sessionId: string): Promise<SessionSummary | null> => {
+  try {
+    const response = await openCodeRequest(`/session/${encodeURIComponent(sessionId)}`, null);
+    const record = (await response.json()) as Record<string, unknown>;
+    return {
+      id: sessionId,
+      title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : 'Untitled session',
+      directory: typeof record.directory === 'string' ? record.directory : '',
+      updatedAt: 0,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const describeActivity = (sessionId: string): string => {
+  const activity = getSessionActivitySummaries().find((summary) => summary.sessionId === sessionId);
+  if (activity?.pendingPermissions) return '$(shield) waiting for permission';
+  if (activity?.phase === 'busy') return '$(loading~spin) working…';
+  return '';
+};
+
+const runAction = async (label: string, action: () => Promise<unknown>): Promise<boolean> => {
+  try {
+    await action();
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Neusis Code: Failed to ${label} - ${message}`);
+    return false;
+  }
+};
+
+const pickSession = async (placeHolder: string): Promise<SessionSummary | null> => {
+  const sessionsPromise = listSessions();
+  const items = sessionsPromise.then((sessions) => {
+    const activeSessionId = paletteOptions?.getActiveSessionId();
+    return sessions.map((session) => ({
+      label: session.title,
+      description: [session.id === activeSessionId ? 'active' : '', describeActivity(session.id)].filter(Boolean).join(' · '),
+      detail: vscode.workspace.asRelativePath(session.directory, true),
+      session,
+    }));
+  });
+  const picked = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true, matchOnDetail: true });
+  return picked?.session ?? null;
+};
+
+const switchSession = async (): Promise<SessionSummary | null> => {
+  const session = await pickSession('Switch to a Neusis Code session');
+  if (!session) return null;
+  paletteOptions?.setActiveSession(session.id, session.title);
+  paletteOptions?.openSession(session.id);
+  return session;
+};
+
+// Reuse the model and agent of the last prompt so palette prompts continue the conversation the same way
+const lastPromptSettings = async (session: SessionSummary): Promise<Record<string, unknown>> => {
+  try {
+    const response = await openCodeRequest(`/session/${encodeURIComponent(session.id)}/message`, session.directory || null);
+    const messages = await readJsonArray(response);
+    for (let index = messages.length - 1; index >= 0; index -= 1) {
+      const info = (messages[index] as { info?: Record<string, unknown> } | null)?.info;
+      if (info?.role !== 'user') continue;
+      const model = info.model as { providerID?: unknown; modelID?: unknown } | undefined;
+      return {
+        ...(typeof info.agent === 'string' ? { agent: info.agent } : {}),
+        ...(typeof model?.providerID === 'string' && typeof model.modelID === 'string'
+          ? { model: { providerID: model.providerID, modelID: model.modelID } }
+          : {}),
+        ...(typeof info.variant === 'string' ? { variant: info.variant } : {}),
+      };
+    }
+  } catch {
+    // Fall back to the server defaults
+  }
+  return {};
+};
+
+const sendPrompt = async () => {
+  const activeSessionId = paletteOptions?.getActiveSessionId();
+  const session = activeSessionId ? await fetchSession(activeSessionId) : await switchSession();
+  if (!session) {
+    if (activeSessionId) {
+      vscode.window.showWarningMessage('Neusis Code: The active session could not be loaded');
+    }
+    return;
+  }
+
+  const text = await vscode.window.showInputBox({
+    title: `Send prompt to "${session.title}"`,
+    prompt: 'The prompt is sent with the model and agent used last in this session',
+    placeHolder: 'Ask the agent…',
+    ignoreFocusOut: true,
+  });
+  if (!text?.trim()) return;
+
+  const settings = await lastPromptSettings(session);
+  await runAction('send prompt', () =>
+    openCodeRequest(`/session/${encodeURIComponent(session.id)}/prompt_async`, session.directory || null, {
+      method: 'POST',
+      body: JSON.stringify({ ...settings, parts: [{ type: 'text', text: text.trim() }] }),
+    })
+  );
+};
+
+const abortRun = async () => {
+  const busy = getSessionActivitySummaries().filter((summary) => summary.phase === 'busy');
+  const activeSessionId = paletteOptions?.getActiveSessionId();
+  let sessionId = activeSessionId && busy.some((summary) => summary.sessionId === activeSessionId) ? activeSessionId : null;
+
+  if (!sessionId) {
+    if (busy.length === 0) {
+      vscode.window.showInformationMessage('Neusis Code: No session is running');
+      return;
+    }
+    if (busy.length === 1) {
+      sessionId = busy[0].sessionId;
+    } else {
+      const picked = await vscode.window.showQuickPick(
+        busy.map((summary) => ({ label: summary.title || summary.sessionId, sessionId: summary.sessionId })),
+        { placeHolder: 'Abort which run?' }
+      );
+      sessionId = picked?.sessionId ?? null;
+    }
+  }
+  if (!sessionId) return;
+
+  const session = await fetchSession(sessionId);
+  const target = sessionId;
+  await runAction('abort run', () =>
+    openCodeRequest(`/session/${encodeURIComponent(target)}/abort`, session?.directory || null, { method: 'POST' })
+  );
+};
+
+const sessionTitleFor = async (sessionId: string, cache: Map<string, string>): Promise<string> => {
+  const cached = cache.get(sessionId);
+  if (cached) return cached;
+  const title = (await fetchSession(sessionId))?.title ?? sessionId;
+  cache.set(sessionId, title);
+  return title;
+};
+
+const replyToPermission = async () => {
+  const permissions = await openCodeRequest('/permission', null)
+    .then(readJsonArray)
+    .catch(() => []) as PermissionRequest[];
+  const pending = permissions.filter((permission) => permission && typeof permission.id === 'string');
+  if (pending.length === 0) {
+    vscode.window.showInformationMessage('Neusis Code: No pending permission requests');
+    return;
+  }
+
+  const titles = new Map<string, string>();
+  const items = await Promise.all(
+    pending.map(async (permission) => ({
+      label: permission.permission,
+      description: (permission.patterns ?? []).join(', '),
+      detail: await sessionTitleFor(permission.sessionID, titles),
+      permission,
+    }))
+  );
+  const picked = pending.length === 1 ? items[0] : await vscode.window.showQuickPick(items, { placeHolder: 'Select a permission request' });
+  if (!picked) return;
+
+  const decision = await vscode.window.showQuickPick(
+    [
+      { label: '$(check) Allow once', reply: 'once' as const },
+      { label: '$(check-all) Always allow', description: 'for this session', reply: 'always' as const },
+      { label: '$(close) Deny', reply: 'reject' as const },
+    ],
+    { placeHolder: `${picked.label}${picked.description ? `: ${picked.description}` : ''} (${picked.detail})` }
+  );
+  if (!decision) return;
+
+  await runAction('reply to permission request', () =>
+    openCodeRequest(`/permission/${encodeURIComponent(picked.permission.id)}/reply`, null, {
+      method: 'POST',
+      body: JSON.stringify({ reply: decision.reply }),
+    })
+  );
+};
+
+const CUSTOM_ANSWER = '$(edit) Type your own answer…';
+
+const askQuestion = async (question: QuestionRequest['questions'][number]): Promise<string[] | null> => {
+  const options = question.options ?? [];
+  if (options.length === 0) {
+    const text = await vscode.window.showInputBox({ prompt: question.question, ignoreFocusOut: true });
+    return text?.trim() ? [text.trim()] : null;
+  }
+
+  const items: vscode.QuickPickItem[] = [
+    ...options.map((option) => ({ label: option.label, detail: option.description })),
+    { label: CUSTOM_ANSWER },
+  ];
+  const title = question.header ? `${question.header}: ${question.question}` : question.question;
+
+  if (question.multiple) {
+    const picked = await vscode.window.showQuickPick(items, { title, canPickMany: true, ignoreFocusOut: true });
+    if (!picked || picked.length === 0) return null;
+    const answers = picked.filter((item) => item.label !== CUSTOM_ANSWER).map((item) => item.label);
+    if (picked.some((item) => item.label === CUSTOM_ANSWER)) {
+      const text = await vscode.window.showInputBox({ prompt: question.question, ignoreFocusOut: true });
+      if (text?.trim()) answers.push(text.trim());
+    }
+    return answers.length > 0 ? answers : null;
+  }
+
+  const picked = await vscode.window.showQuickPick(items, { title, ignoreFocusOut: true });
+  if (!picked) return null;
+  if (picked.label !== CUSTOM_ANSWER) return [picked.label];
+  const text = await vscode.window.showInputBox({ prompt: question.question, ignoreFocusOut: true });
+  return text?.trim() ? [text.trim()] : null;
+};
+
+const answerQuestion = async () => {
+  const directories = workspaceDirectories();
+  const lists = await Promise.all(
+    [null, ...directories].map(async (directory) => ({
+      directory,
+      items: await openCodeRequest('/question', directory).then(readJsonArray).catch(() => []),
+    }))
+  );
+  // Replies must go to the directory the question was listed under; a workspace match wins over the default
+  const requests = new Map<string, { request: QuestionRequest; directory: string | null }>();
+  for (const { directory, items } of lists) {
+    for (const raw of items) {
+      const request = raw as QuestionRequest | null;
+      if (request && typeof request.id === 'string' && Array.isArray(request.questions)) {
+        requests.set(request.id, { request, directory: directory ?? requests.get(request.id)?.directory ?? null });
+      }
+    }
+  }
+  if (requests.size === 0) {
+    vscode.window.showInformationMessage('Neusis Code: No pending questions');
+    return;
+  }
+
+  const titles = new Map<string, string>();
+  const items = await Promise.all(
+    [...requests.values()].map(async ({ request, directory }) => ({
+      label: request.questions[0]?.question ?? 'Question',
+      description: request.questions.length > 1 ? `+${request.questions.length - 1} more` : undefined,
+      detail: await sessionTitleFor(request.sessionID, titles),
+      request,
+      directory,
+    }))
+  );
+  const picked = items.length === 1 ? items[0] : await vscode.window.showQuickPick(items, { placeHolder: 'Select a question to answer' });
+  if (!picked) return;
+
+  const answers: string[][] = [];
+  for (const question of picked.request.questions) {
+    const answer = await askQuestion(question);
+    if (!answer) {
+      const dismiss = await vscode.window.showWarningMessage('Neusis Code: Question not answered', 'Dismiss question');
+      if (dismiss) {
+        await runAction('dismiss question', () =>
+          openCodeRequest(`/question/${encodeURIComponent(picked.request.id)}/reject`, picked.directory, { method: 'POST' })
+        );
+      }
+      return;
+    }
+    answers.push(answer);
+  }
+
+  await runAction('answer question', () =>
+    openCodeRequest(`/question/${encodeURIComponent(picked.request.id)}/reply`, picked.directory, {
+      method: 'POST',
+      body: JSON.stringify({ answers }),
+    })
+  );
+};
+
+export const initPaletteCommands = (
+  context: vscode.ExtensionContext,
+  manager: OpenCodeManager,
+  options: PaletteCommandsOptions
+): void => {
+  openCodeManager = manager;
+  paletteOptions = options;
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('openchamber.sendPromptToActiveSession', sendPrompt),
+    vscode.commands.registerCommand('openchamber.switchSession', switchSession),
+    vscode.commands.registerCommand('openchamber.replyToPermission', replyToPermission),
+    vscode.commands.registerCommand('openchamber.answerQuestion', answerQuestion),
+    vscode.commands.registerCommand('openchamber.abortRun', abortRun)
+  );
+};
+
+export const disposePaletteCommands = (): void => {
+  openCodeManager = null;
+  paletteOptions = null;
+};
@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Mirrors the chat's inline comment drafts as native comment threads and lets users add drafts from the editor gutter
+type InlineCommentDraft = {
+  id: string;
+  sessionKey: string;
+  source: 'diff' | 'plan' | 'file';
+  fileLabel: string;
+  startLine: number;
+  endLine: number;
+  side?: 'original' | 'modified';
+  text: string;
+};
+
+type ReviewCommentsOptions = {
+  postMessage: (message: unknown) => boolean;
+};
+
+class DraftComment implements vscode.Comment {
+  mode = vscode.CommentMode.Preview;
+  author: vscode.CommentAuthorInformation = { name: 'Review draft' };
+  contextValue = 'openchamber.reviewDraft';
+
+  constructor(
+    public body: vscode.MarkdownString,
+    public readonly draft: InlineCommentDraft
+  ) {}
+}
+
+let reviewOptions: ReviewCommentsOptions | null = null;
+let controller: vscode.CommentController | null = null;
+const threads = new Map<string, vscode.CommentThread>(); // draft id -> thread
+const threadKeys = new Map<string, string>(); // draft id -> serialized draft, to skip unchanged threads
+
+const resolveDraftUri = (fileLabel: string): vscode.Uri | null => {
+  if (!fileLabel) return null;
+  if (path.isAbsolute(fileLabel)) {
+    return vscode.Uri.file(fileLabel);
+  }
+  // Diff drafts use repository-relative paths
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const candidate = path.join(folder.uri.fsPath, fileLabel);
+    if (fs.existsSync(candidate)) {
+      return vscode.Uri.file(candidate);
+    }
+  }
+  return null;
+};
+
+const toThreadRange = (draft: InlineCommentDraft) =>
+  new vscode.Range(Math.max(0, draft.startLine - 1), 0, Math.max(0, draft.endLine - 1), 0);
+
+const disposeThread = (draftId: string) => {
+  threads.get(draftId)?.dispose();
+  threads.delete(draftId);
+  threadKeys.delete(draftId);
+};
+
+const postToChat = (payload: Record<string, unknown>): boolean => {
+  const delivered = reviewOptions?.postMessage({ type: 'command', command: 'inlineCommentDrafts', payload }) ?? false;
+  if (!delivered) {
+    vscode.window.showWarningMessage('Neusis Code: Open the chat view to manage review comments');
+  }
+  return delivered;
+};
+
+/**
+ * Replace the mirrored threads with the drafts of the chat's current session.
+ * Only drafts that map onto a workspace file are shown; comments on the original side of a diff are skipped.
+ */
+export const syncReviewCommentDrafts = (drafts: InlineCommentDraft[]): void => {
+  if (!controller) return;
+  const mirrored = drafts.filter((draft) => draft.source !== 'plan' && draft.side !== 'original');
+  const keep = new Set<string>();
+
+  for (const draft of mirrored) {
+    const uri = resolveDraftUri(draft.fileLabel);
+    if (!uri) continue;
+    keep.add(draft.id);
+
+    const key = JSON.stringify([uri.toString(), draft.startLine, draft.endLine, draft.text]);
+    if (threadKeys.get(draft.id) === key) continue;
+    disposeThread(draft.id);
+
+    const thread = controller.createCommentThread(uri, toThreadRange(draft), [
+      new DraftComment(new vscode.MarkdownString(draft.text), draft),
+    ]);
+    thread.label = draft.source === 'diff' ? 'Review draft (diff)' : 'Review draft';
+    thread.contextValue = 'openchamber.reviewDraft';
+    thread.canReply = false;
+    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+    threads.set(draft.id, thread);
+    threadKeys.set(draft.id, key);
+  }
+
+  for (const draftId of [...threads.keys()]) {
+    if (!keep.has(draftId)) {
+      disposeThread(draftId);
+    }
+  }
+};
+
+const createDraftFromReply = async (reply: vscode.CommentReply) => {
+  const text = reply.text.trim();
+  if (!text) return;
+
+  const { thread } = reply;
+  const document = await vscode.workspace.openTextDocument(thread.uri);
+  const range = thread.range ?? new vscode.Range(0, 0, 0, 0);
+  const startLine = range.start.line;
+  const endLine = Math.max(startLine, range.end.line);
+  const code = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+
+  const delivered = postToChat({
+    action: 'add',
+    draft: {
+      source: 'file',
+      fileLabel: thread.uri.fsPath.split(path.sep).join('/'),
+      startLine: startLine + 1,
+      endLine: endLine + 1,
+      code,
+      language: document.languageId,
+      text,
+    },
+  });
+  // The chat echoes the stored draft back through syncReviewCommentDrafts
+  if (delivered) {
+    thread.dispose();
+  }
+};
+
+export const initReviewComments = (context: vscode.ExtensionContext, options: ReviewCommentsOptions): void => {
+  reviewOptions = options;
+  controller = vscode.comments.createCommentController('openchamber.review', 'Neusis Code Review');
+  controller.options = {
+    prompt: 'Add a review comment for the agent',
+    placeHolder: 'Comments are sent together with "Send Review Comments to Agent"',
+  };
+  controller.commentingRangeProvider = {
+    provideCommentingRanges: (document) => {
+      if (document.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(document.uri)) {
+        return [];
+      }
+      return [new vscode.Range(0, 0, Math.max(0, document.lineCount - 1), 0)];
+    },
+  };
+
+  context.subscriptions.push(
+    controller,
+    vscode.commands.registerCommand('openchamber.reviewComments.create', (reply: vscode.CommentReply) => createDraftFromReply(reply)),
+    vscode.commands.registerCommand('openchamber.reviewComments.delete', (target?: DraftComment | vscode.CommentThread) => {
+      const draft = target instanceof DraftComment
+        ? target.draft
+        : (target?.comments[0] instanceof DraftComment ? target.comments[0].draft : null);
+      if (!draft) return;
+      postToChat({ action: 'remove', sessionKey: draft.sessionKey, draftId: draft.id });
+    }),
+    vscode.commands.registerCommand('openchamber.reviewComments.sendAll', () => {
+      if (threads.size === 0) {
+        vscode.window.showInformationMessage('Neusis Code: No review comments to send');
+        return;
+      }
+      if (postToChat({ action: 'send' })) {
+        vscode.commands.executeCommand('openchamber.focusChat');
+      }
+    })
+  );
+};
+
+export const disposeReviewComments = (): void => {
+  for (const draftId of [...threads.keys()]) {
+    disposeThread(draftId);
+  }
+  controller = null;
+  reviewOptions = null;
+};
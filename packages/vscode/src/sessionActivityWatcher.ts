@@ -1,4 +1,8 @@
 import type { OpenCodeManager } from './opencode';
+import { handleNotificationEvent } from './notifications';
+import { trackAgentEdit } from './agentEdits';
+import { trackSessionTreeEvent } from './sessionsTree';
+import { trackAgentChangesEvent } from './agentChangesScm';
 
 // Session activity tracking (mirrors web server and desktop Tauri behavior)
 type ActivityPhase = 'idle' | 'busy' | 'cooldown';
@@ -12,9 +16,23 @@ const sessionActivityPhases = new Map<string, { phase: ActivityPhase; updatedAt:
 const sessionActivityCooldowns = new Map<string, NodeJS.Timeout>();
 const SESSION_COOLDOWN_DURATION_MS = 2000;
 
+const sessionPendingPermissions = new Map<string, Set<string>>();
+const sessionTitles = new Map<string, string>();
+const activityListeners = new Set<() => void>();
+
 let globalEventWatcherAbortController: AbortController | null = null;
 let chatViewProvider: { postMessage: (message: unknown) => void } | null = null;
 
+const notifyActivityListeners = (): void => {
+  for (const listener of activityListeners) {
+    try {
+      listener();
+    } catch (error) {
+      console.warn('[VSCode:Activity] listener failed', error);
+    }
+  }
+};
+
 const setSessionActivityPhase = (sessionId: string, phase: ActivityPhase): void => {
   if (!sessionId) return;
 
@@ -29,6 +47,7 @@ const setSessionActivityPhase = (sessionId: string, phase: ActivityPhase): void
   if (current?.phase === phase) return; // No change
 
   sessionActivityPhases.set(sessionId, { phase, updatedAt: Date.now() });
+  notifyActivityListeners();
 
   // Notify webview if available
   if (chatViewProvider) {
@@ -47,6 +66,7 @@ const setSessionActivityPhase = (sessionId: string, phase: ActivityPhase): void
       const now = sessionActivityPhases.get(sessionId);
       if (now?.phase === 'cooldown') {
         sessionActivityPhases.set(sessionId, { phase: 'idle', updatedAt: Date.now() });
+        notifyActivityListeners();
         if (chatViewProvider) {
           chatViewProvider.postMessage({
             type: 'openchamber:session-activity',
@@ -102,6 +122,52 @@ const deriveSessionActivity = (payload: Record<string, unknown>): SessionActivit
   return null;
 };
 
+// Track pending permission requests and session titles for status surfaces (status bar, quick picks)
+const trackSessionMetadata = (payload: Record<string, unknown>): void => {
+  const type = payload.type as string;
+  const properties = (payload.properties ?? payload) as Record<string, unknown>;
+
+  if (type === 'permission.asked' || type === 'permission.replied') {
+    const sessionId = properties?.sessionID as string;
+    const requestId = (type === 'permission.asked' ? properties?.id : properties?.requestID ?? properties?.id) as string;
+    if (typeof sessionId !== 'string' || !sessionId || typeof requestId !== 'string' || !requestId) {
+      return;
+    }
+
+    const pending = sessionPendingPermissions.get(sessionId) ?? new Set<string>();
+    if (type === 'permission.asked') {
+      pending.add(requestId);
+      sessionPendingPermissions.set(sessionId, pending);
+    } else {
+      pending.delete(requestId);
+      if (pending.size === 0) {
+        sessionPendingPermissions.delete(sessionId);
+      }
+    }
+    notifyActivityListeners();
+    return;
+  }
+
+  if (type === 'session.created' || type === 'session.updated') {
+    const info = properties?.info as Record<string, unknown> | undefined;
+    if (typeof info?.id === 'string' && typeof info.title === 'string' && info.title.trim()) {
+      sessionTitles.set(info.id, info.title.trim());
+    }
+    return;
+  }
+
+  if (type === 'session.deleted') {
+    const info = properties?.info as Record<string, unknown> | undefined;
+    const sessionId = (info?.id ?? properties?.sessionID) as string;
+    if (typeof sessionId === 'string' && sessionId) {
+      sessionTitles.delete(sessionId);
+      sessionActivityPhases.delete(sessionId);
+      sessionPendingPermissions.delete(sessionId);
+      notifyActivityListeners();
+    }
+  }
+};
+
 const parseSseDataPayload = (block: string): Record<string, unknown> | null => {
   if (!block) {
     return null;
@@ -126,7 +192,12 @@ const parseSseDataPayload = (block: string): Record<string, unknown> | null => {
   }
 
   try {
-    return JSON.parse(payloadText) as Record<string, unknown>;
+    const parsed = JSON.parse(payloadText) as Record<string, unknown>;
+    // /global/event wraps each event as { directory, payload }
+    if (parsed && typeof parsed.payload === 'object' && parsed.payload !== null) {
+      return parsed.payload as Record<string, unknown>;
+    }
+    return parsed;
   } catch {
     return null;
   }
@@ -230,6 +301,11 @@ export const startGlobalEventWatcher = async (
               if (activity) {
                 setSessionActivityPhase(activity.sessionId, activity.phase);
               }
+              trackSessionMetadata(payload);
+              trackAgentEdit(payload);
+              trackSessionTreeEvent(payload);
+              trackAgentChangesEvent(payload);
+              void handleNotificationEvent(payload);
             }
           }
         }
@@ -270,6 +346,11 @@ export const stopGlobalEventWatcher = (): void => {
   globalEventWatcherAbortController = null;
   chatViewProvider = null;
 
+  // Busy phases and pending permissions are stale once the event stream is gone
+  sessionPendingPermissions.clear();
+  sessionActivityPhases.clear();
+  notifyActivityListeners();
+
   // Clear all cooldown timers
   for (const timer of sessionActivityCooldowns.values()) {
     clearTimeout(timer);
@@ -280,3 +361,33 @@ export const stopGlobalEventWatcher = (): void => {
 export const setChatViewProvider = (provider: { postMessage: (message: unknown) => void } | null): void => {
   chatViewProvider = provider;
 };
+
+export type SessionActivitySummary = {
+  sessionId: string;
+  title: string | null;
+  phase: ActivityPhase;
+  pendingPermissions: number;
+};
+
+export const getSessionActivitySummaries = (): SessionActivitySummary[] => {
+  const sessionIds = new Set<string>([...sessionActivityPhases.keys(), ...sessionPendingPermissions.keys()]);
+  const summaries: SessionActivitySummary[] = [];
+  for (const sessionId of sessionIds) {
+    const phase = sessionActivityPhases.get(sessionId)?.phase ?? 'idle';
+    const pendingPermissions = sessionPendingPermissions.get(sessionId)?.size ?? 0;
+    if (phase === 'idle' && pendingPermissions === 0) {
+      continue;
+    }
+    summaries.push({ sessionId, title: sessionTitles.get(sessionId) ?? null, phase, pendingPermissions });
+  }
+  return summaries;
+};
+
+export const onSessionActivityChange = (listener: () => void): { dispose: () => void } => {
+  activityListeners.add(listener);
+  return {
+    dispose: () => {
+      activityListeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+
+// Session exports and spend reports are rendered in the webview, which cannot trigger downloads; the host writes them to disk
+type SessionExportOptions = {
+  showImportedSessions: () => void;
+};
+
+const SAVE_FILTERS: Record<string, Record<string, string[]>> = {
+  '.md': { Markdown: ['md'] },
+  '.json': { JSON: ['json'] },
+  '.html': { HTML: ['html'] },
+  '.csv': { CSV: ['csv'] },
+};
+
+const getDefaultSaveUri = (fileName: string): vscode.Uri => {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  return folder ? vscode.Uri.joinPath(folder, fileName) : vscode.Uri.file(path.join(os.homedir(), fileName));
+};
+
+export const registerSessionExport = (context: vscode.ExtensionContext, options: SessionExportOptions): void => {
+  context.subscriptions.push(
+    // Invoked by the webview through the bridge; resolves false when the save dialog is cancelled
+    vscode.commands.registerCommand('openchamber.saveSessionExport', async (fileName: unknown, content: unknown) => {
+      if (typeof fileName !== 'string' || typeof content !== 'string') {
+        return false;
+      }
+
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: getDefaultSaveUri(path.basename(fileName)),
+        filters: SAVE_FILTERS[path.extname(fileName).toLowerCase()],
+        saveLabel: 'Export',
+      });
+      if (!target) {
+        return false;
+      }
+
+      try {
+        await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Neusis Code: Failed to export: ${message}`);
+        return false;
+      }
+
+      void vscode.window
+        .showInformationMessage(`Neusis Code: Exported to ${path.basename(target.fsPath)}`, 'Open')
+        .then((action) => {
+          if (action === 'Open') {
+            void vscode.commands.executeCommand('vscode.open', target);
+          }
+        });
+      return true;
+    }),
+    vscode.commands.registerCommand('openchamber.showImportedSessions', () => {
+      options.showImportedSessions();
+    })
+  );
+};
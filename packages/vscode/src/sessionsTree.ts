@@ -0,0 +1,469 @@
+import * as vscode from 'vscode';
+import type { OpenCodeManager } from './opencode';
+import { listGitWorktrees } from './gitService';
+import { getSessionActivitySummaries, onSessionActivityChange } from './sessionActivityWatcher';
+
+// Native "Sessions" tree: projects → worktrees → folders → sessions (→ child sessions)
+const VIEW_ID = 'openchamber.sessionsView';
+const FOLDERS_STATE_KEY = 'openchamber.sessionFolders';
+const SESSION_REFRESH_DEBOUNCE_MS = 300;
+
+type SessionInfo = {
+  id: string;
+  title: string;
+  directory: string;
+  parentID?: string;
+  updatedAt: number;
+};
+
+type SessionFolder = {
+  id: string;
+  name: string;
+  sessionIds: string[];
+};
+
+type SessionFoldersMap = Record<string, SessionFolder[]>;
+
+type ProjectNode = { kind: 'project'; directory: string; name: string };
+type WorktreeNode = { kind: 'worktree'; projectDirectory: string; directory: string; name: string; branch: string };
+type FolderNode = { kind: 'folder'; projectDirectory: string; directory: string; folder: SessionFolder };
+type SessionNode = { kind: 'session'; projectDirectory: string; session: SessionInfo };
+
+export type SessionTreeNode = ProjectNode | WorktreeNode | FolderNode | SessionNode;
+
+type ProjectData = {
+  worktrees: Array<{ directory: string; name: string; branch: string }>;
+  sessions: SessionInfo[];
+};
+
+type SessionsTreeOptions = {
+  openSession: (sessionId: string) => void;
+};
+
+let openCodeManager: OpenCodeManager | null = null;
+let extensionContext: vscode.ExtensionContext | null = null;
+let treeOptions: SessionsTreeOptions | null = null;
+let treeProvider: SessionsTreeProvider | null = null;
+let treeView: vscode.TreeView<SessionTreeNode> | null = null;
+let sessionFolders: SessionFoldersMap = {};
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Same normalization the webview uses for folder scope keys
+const normalizeDirectory = (directory: string): string => {
+  const normalized = directory.replace(/\\/g, '/');
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+};
+
+const openCodeRequest = async (pathname: string, directory: string | null, init?: RequestInit): Promise<Response> => {
+  const baseUrl = openCodeManager?.getApiUrl();
+  if (!baseUrl) {
+    throw new Error('OpenCode API is not available');
+  }
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}${pathname}`);
+  if (directory) {
+    url.searchParams.set('directory', directory);
+  }
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      Accept: 'application/json',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+      ...openCodeManager?.getOpenCodeAuthHeaders(),
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`OpenCode responded with ${response.status}`);
+  }
+  return response;
+};
+
+const toSessionInfo = (value: unknown): SessionInfo | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || !raw.id) {
+    return null;
+  }
+  const time = (raw.time ?? {}) as Record<string, unknown>;
+  return {
+    id: raw.id,
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title.trim() : 'Untitled session',
+    directory: typeof raw.directory === 'string' ? normalizeDirectory(raw.directory) : '',
+    parentID: typeof raw.parentID === 'string' && raw.parentID ? raw.parentID : undefined,
+    updatedAt: typeof time.updated === 'number' ? time.updated : typeof time.created === 'number' ? time.created : 0,
+  };
+};
+
+const formatRelativeTime = (timestamp: number): string => {
+  if (!timestamp) {
+    return '';
+  }
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 30) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+class SessionsTreeProvider implements vscode.TreeDataProvider<SessionTreeNode> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<SessionTreeNode | undefined>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly _projects = new Map<string, Promise<ProjectData>>();
+
+  public refresh(options: { reload?: boolean } = {}): void {
+    if (options.reload) {
+      this._projects.clear();
+    }
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  public dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+
+  private _loadProject(directory: string): Promise<ProjectData> {
+    const cached = this._projects.get(directory);
+    if (cached) {
+      return cached;
+    }
+
+    const loading = (async (): Promise<ProjectData> => {
+      const [worktrees, sessions] = await Promise.all([
+        listGitWorktrees(directory).catch(() => []),
+        openCodeRequest('/session', directory)
+          .then((response) => response.json() as Promise<unknown>)
+          .then((data) => (Array.isArray(data) ? data.map(toSessionInfo).filter((s): s is SessionInfo => s !== null) : [])),
+      ]);
+      return {
+        worktrees: worktrees
+          .filter((worktree) => worktree.path)
+          .map((worktree) => ({
+            directory: normalizeDirectory(worktree.path),
+            name: worktree.name,
+            branch: worktree.branch.replace(/^refs\/heads\//, ''),
+          })),
+        sessions: sessions.sort((a, b) => b.updatedAt - a.updatedAt),
+      };
+    })();
+
+    // Drop failed loads so the next expand retries
+    loading.catch(() => this._projects.delete(directory));
+    this._projects.set(directory, loading);
+    return loading;
+  }
+
+  private _projectNodes(): ProjectNode[] {
+    return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+      kind: 'project',
+      directory: normalizeDirectory(folder.uri.fsPath),
+      name: folder.name,
+    }));
+  }
+
+  // Folders and root sessions for one directory (the project root or a worktree)
+  private _directoryChildren(projectDirectory: string, directory: string, data: ProjectData): SessionTreeNode[] {
+    const isProjectRoot = directory === projectDirectory;
+    const worktreeDirectories = new Set(data.worktrees.map((worktree) => worktree.directory));
+    const belongsHere = (session: SessionInfo) =>
+      session.directory === directory || (isProjectRoot && !worktreeDirectories.has(session.directory));
+
+    const rootSessions = data.sessions.filter((session) => !session.parentID && belongsHere(session));
+    const sessionIds = new Set(rootSessions.map((session) => session.id));
+
+    const folders = (sessionFolders[directory] ?? []).filter((folder) =>
+      folder.sessionIds.some((sessionId) => sessionIds.has(sessionId))
+    );
+    const inFolder = new Set(folders.flatMap((folder) => folder.sessionIds));
+
+    return [
+      ...folders.map((folder): FolderNode => ({ kind: 'folder', projectDirectory, directory, folder })),
+      ...rootSessions
+        .filter((session) => !inFolder.has(session.id))
+        .map((session): SessionNode => ({ kind: 'session', projectDirectory, session })),
+    ];
+  }
+
+  private async _projectChildren(project: ProjectNode): Promise<SessionTreeNode[]> {
+    const data = await this._loadProject(project.directory);
+    const worktreeNodes = data.worktrees
+      .filter((worktree) => worktree.directory !== project.directory)
+      .map((worktree): WorktreeNode => ({
+        kind: 'worktree',
+        projectDirectory: project.directory,
+        directory: worktree.directory,
+        name: worktree.name,
+        branch: worktree.branch,
+      }));
+    return [...worktreeNodes, ...this._directoryChildren(project.directory, project.directory, data)];
+  }
+
+  async getChildren(element?: SessionTreeNode): Promise<SessionTreeNode[]> {
+    if (!openCodeManager?.getApiUrl()) {
+      return [];
+    }
+
+    try {
+      if (!element) {
+        const projects = this._projectNodes();
+        // A single-folder workspace doesn't need the extra project level
+        return projects.length === 1 ? this._projectChildren(projects[0]) : projects;
+      }
+
+      switch (element.kind) {
+        case 'project':
+          return this._projectChildren(element);
+        case 'worktree':
+          return this._directoryChildren(element.projectDirectory, element.directory, await this._loadProject(element.projectDirectory));
+        case 'folder': {
+          const data = await this._loadProject(element.projectDirectory);
+          return data.sessions
+            .filter((session) => !session.parentID && element.folder.sessionIds.includes(session.id))
+            .map((session): SessionNode => ({ kind: 'session', projectDirectory: element.projectDirectory, session }));
+        }
+        case 'session': {
+          const data = await this._loadProject(element.projectDirectory);
+          return data.sessions
+            .filter((session) => session.parentID === element.session.id)
+            .map((session): SessionNode => ({ kind: 'session', projectDirectory: element.projectDirectory, session }));
+        }
+      }
+    } catch (error) {
+      console.warn('[VSCode:SessionsTree] failed to load sessions', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  async getTreeItem(element: SessionTreeNode): Promise<vscode.TreeItem> {
+    switch (element.kind) {
+      case 'project': {
+        const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.Expanded);
+        item.iconPath = new vscode.ThemeIcon('root-folder');
+        item.tooltip = element.directory;
+        item.contextValue = 'project';
+        return item;
+      }
+      case 'worktree': {
+        const item = new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = new vscode.ThemeIcon('git-branch');
+        item.description = element.branch;
+        item.tooltip = element.directory;
+        item.contextValue = 'worktree';
+        return item;
+      }
+      case 'folder': {
+        const item = new vscode.TreeItem(element.folder.name, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = vscode.ThemeIcon.Folder;
+        item.contextValue = 'folder';
+        return item;
+      }
+      case 'session': {
+        const { session } = element;
+        const data = await this._loadProject(element.projectDirectory).catch(() => null);
+        const hasChildren = Boolean(data?.sessions.some((candidate) => candidate.parentID === session.id));
+        const activity = getSessionActivitySummaries().find((summary) => summary.sessionId === session.id);
+        const isBusy = activity?.phase === 'busy';
+
+        const item = new vscode.TreeItem(
+          session.title,
+          hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = session.id;
+        item.description = activity?.pendingPermissions
+          ? 'waiting for permission'
+          : isBusy
+            ? 'working…'
+            : formatRelativeTime(session.updatedAt);
+        item.tooltip = `${session.title}\n${session.id}${session.directory ? `\n${session.directory}` : ''}`;
+        item.iconPath = activity?.pendingPermissions
+          ? new vscode.ThemeIcon('shield', new vscode.ThemeColor('list.warningForeground'))
+          : isBusy
+            ? new vscode.ThemeIcon('loading~spin')
+            : new vscode.ThemeIcon(session.parentID ? 'type-hierarchy-sub' : 'comment-discussion');
+        item.contextValue = isBusy ? 'session.busy' : 'session';
+        item.command = {
+          title: 'Open Session',
+          command: 'openchamber.sessionsView.openInSidebar',
+          arguments: [element],
+        };
+        return item;
+      }
+    }
+  }
+}
+
+const scheduleRefresh = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+  }
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    treeProvider?.refresh({ reload: true });
+  }, SESSION_REFRESH_DEBOUNCE_MS);
+};
+
+// Called for every global event; reloads the tree when sessions are created, renamed or deleted
+export const trackSessionTreeEvent = (payload: Record<string, unknown>): void => {
+  const type = payload.type as string;
+  if (type === 'session.created' || type === 'session.updated' || type === 'session.deleted') {
+    scheduleRefresh();
+  }
+};
+
+// Folder assignments live in the webview's storage; it mirrors them here for the tree
+export const setSessionFolders = (foldersMap: unknown): void => {
+  if (!foldersMap || typeof foldersMap !== 'object' || Array.isArray(foldersMap)) {
+    return;
+  }
+  const next: SessionFoldersMap = {};
+  for (const [scopeKey, folders] of Object.entries(foldersMap as Record<string, unknown>)) {
+    if (!Array.isArray(folders)) continue;
+    next[normalizeDirectory(scopeKey)] = folders
+      .filter((folder): folder is Record<string, unknown> => Boolean(folder) && typeof folder === 'object')
+      .filter((folder) => typeof folder.id === 'string' && typeof folder.name === 'string')
+      .map((folder) => ({
+        id: folder.id as string,
+        name: folder.name as string,
+        sessionIds: Array.isArray(folder.sessionIds)
+          ? folder.sessionIds.filter((id): id is string => typeof id === 'string')
+          : [],
+      }));
+  }
+  sessionFolders = next;
+  void extensionContext?.workspaceState.update(FOLDERS_STATE_KEY, next);
+  treeProvider?.refresh();
+};
+
+// Keybindings invoke commands without arguments; fall back to the focused tree item
+const requireSessionNode = (node: unknown): SessionNode | null => {
+  const candidate = (node as SessionTreeNode | undefined) ?? treeView?.selection[0];
+  return candidate?.kind === 'session' ? candidate : null;
+};
+
+const runSessionAction = async (label: string, action: () => Promise<unknown>): Promise<void> => {
+  try {
+    await action();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Neusis Code: Failed to ${label}: ${message}`);
+  }
+};
+
+export const initSessionsTree = (
+  context: vscode.ExtensionContext,
+  manager: OpenCodeManager,
+  options: SessionsTreeOptions
+): void => {
+  openCodeManager = manager;
+  extensionContext = context;
+  treeOptions = options;
+  sessionFolders = context.workspaceState.get<SessionFoldersMap>(FOLDERS_STATE_KEY) ?? {};
+
+  treeProvider = new SessionsTreeProvider();
+  treeView = vscode.window.createTreeView(VIEW_ID, { treeDataProvider: treeProvider, showCollapseAll: true });
+
+  context.subscriptions.push(
+    treeView,
+    treeProvider,
+    manager.onStatusChange((status) => {
+      if (status === 'connected') {
+        treeProvider?.refresh({ reload: true });
+      }
+    }),
+    onSessionActivityChange(() => treeProvider?.refresh()),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => treeProvider?.refresh({ reload: true })),
+    vscode.commands.registerCommand('openchamber.sessionsView.refresh', () => treeProvider?.refresh({ reload: true })),
+    vscode.commands.registerCommand('openchamber.sessionsView.openInSidebar', (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (target) {
+        treeOptions?.openSession(target.session.id);
+      }
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.openInEditor', (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (target) {
+        void vscode.commands.executeCommand('openchamber.openSessionInEditor', target.session.id, target.session.title);
+      }
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.showChanges', (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (target) {
+        void vscode.commands.executeCommand('openchamber.openSessionChanges', target.session.id, undefined, target.session.directory);
+      }
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.rename', async (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (!target) return;
+      const title = await vscode.window.showInputBox({
+        title: 'Rename Session',
+        value: target.session.title,
+        validateInput: (value) => (value.trim() ? null : 'Title cannot be empty'),
+      });
+      if (!title || title.trim() === target.session.title) return;
+      await runSessionAction('rename session', () =>
+        openCodeRequest(`/session/${encodeURIComponent(target.session.id)}`, target.session.directory || null, {
+          method: 'PATCH',
+          body: JSON.stringify({ title: title.trim() }),
+        })
+      );
+      scheduleRefresh();
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.fork', async (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (!target) return;
+      await runSessionAction('fork session', async () => {
+        const response = await openCodeRequest(
+          `/session/${encodeURIComponent(target.session.id)}/fork`,
+          target.session.directory || null,
+          { method: 'POST', body: JSON.stringify({}) }
+        );
+        const forked = toSessionInfo(await response.json());
+        if (forked) {
+          treeOptions?.openSession(forked.id);
+        }
+      });
+      scheduleRefresh();
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.delete', async (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (!target) return;
+      const confirmed = await vscode.window.showWarningMessage(
+        `Delete session "${target.session.title}"?`,
+        { modal: true, detail: 'This permanently removes the session and its messages.' },
+        'Delete'
+      );
+      if (confirmed !== 'Delete') return;
+      await runSessionAction('delete session', () =>
+        openCodeRequest(`/session/${encodeURIComponent(target.session.id)}`, target.session.directory || null, {
+          method: 'DELETE',
+        })
+      );
+      scheduleRefresh();
+    }),
+    vscode.commands.registerCommand('openchamber.sessionsView.abort', async (node: unknown) => {
+      const target = requireSessionNode(node);
+      if (!target) return;
+      await runSessionAction('abort session', () =>
+        openCodeRequest(`/session/${encodeURIComponent(target.session.id)}/abort`, target.session.directory || null, {
+          method: 'POST',
+        })
+      );
+    })
+  );
+};
+
+export const disposeSessionsTree = (): void => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  treeProvider = null;
+  treeView = null;
+  treeOptions = null;
+  openCodeManager = null;
+  extensionContext = null;
+};
@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { OpenCodeManager } from './opencode';
+import { getGitFileAtRef } from './gitService';
+
+// Read-only `openchamber-snapshot:` documents so content diffs open in VS Code's native diff editor
+export const SNAPSHOT_SCHEME = 'openchamber-snapshot';
+const MAX_STORED_SNAPSHOTS = 500;
+
+/**
+ * One side of a diff: a file on disk (plain path), in-memory content, or a file at a git ref.
+ */
+export type DiffSource =
+  | string
+  | { type: 'content'; content: string; path: string }
+  | { type: 'git'; directory: string; ref: string; path: string };
+
+type SessionFileDiff = {
+  file: string;
+  before: string;
+  after: string;
+};
+
+// Where a session diff snapshot came from, so it can be fetched again once evicted from the store
+type SessionDiffOrigin = {
+  sessionId: string;
+  messageId?: string;
+  directory?: string;
+  side: 'before' | 'after';
+};
+
+let openCodeManager: OpenCodeManager | null = null;
+const snapshots = new Map<string, string>();
+let nextSnapshotId = 0;
+
+const toUriPath = (filePath: string): string => `/${filePath.replace(/\\/g, '/').replace(/^\/+/, '')}`;
+
+const storeSnapshot = (content: string): string => {
+  const id = String(++nextSnapshotId);
+  snapshots.set(id, content);
+  // Map iteration follows insertion order, so the first key is the oldest snapshot
+  while (snapshots.size > MAX_STORED_SNAPSHOTS) {
+    const oldest = snapshots.keys().next().value;
+    if (oldest === undefined) break;
+    snapshots.delete(oldest);
+  }
+  return id;
+};
+
+export const createSnapshotUri = (filePath: string, content: string, origin?: SessionDiffOrigin): vscode.Uri => {
+  const query = new URLSearchParams({ id: storeSnapshot(content) });
+  if (origin) {
+    query.set('session', origin.sessionId);
+    query.set('side', origin.side);
+    query.set('file', filePath);
+    if (origin.messageId) query.set('message', origin.messageId);
+    if (origin.directory) query.set('cwd', origin.directory);
+  }
+  return vscode.Uri.from({ scheme: SNAPSHOT_SCHEME, path: toUriPath(filePath), query: query.toString() });
+};
+
+const EXPIRED_SNAPSHOT_TEXT = 'This snapshot has expired. Reopen the diff from Neusis Code to reload it.\n';
+
+const refetchSessionSnapshot = async (params: URLSearchParams): Promise<string | null> => {
+  const sessionId = params.get('session');
+  const file = params.get('file');
+  if (!sessionId || !file) {
+    return null;
+  }
+  const diffs = await fetchSessionDiff(sessionId, {
+    messageId: params.get('message') ?? undefined,
+    directory: params.get('cwd') ?? undefined,
+  });
+  const diff = diffs.find((entry) => entry.file === file);
+  if (!diff) {
+    return null;
+  }
+  return params.get('side') === 'before' ? diff.before : diff.after;
+};
+
+export const createGitSnapshotUri = (directory: string, ref: string, filePath: string): vscode.Uri =>
+  vscode.Uri.from({
+    scheme: SNAPSHOT_SCHEME,
+    path: toUriPath(filePath),
+    query: new URLSearchParams({ ref, cwd: directory, file: filePath }).toString(),
+  });
+
+const provider: vscode.TextDocumentContentProvider = {
+  async provideTextDocumentContent(uri) {
+    const params = new URLSearchParams(uri.query);
+    const id = params.get('id');
+    if (id) {
+      const stored = snapshots.get(id);
+      if (stored !== undefined) {
+        return stored;
+      }
+      // Evicted: session diffs can be fetched again, anything else is gone for good
+      const refetched = await refetchSessionSnapshot(params).catch(() => null);
+      return refetched ?? EXPIRED_SNAPSHOT_TEXT;
+    }
+    const ref = params.get('ref');
+    const cwd = params.get('cwd');
+    const file = params.get('file');
+    if (ref && cwd && file) {
+      return getGitFileAtRef(cwd, ref, file);
+    }
+    return '';
+  },
+};
+
+const toDiffUri = (source: DiffSource): vscode.Uri => {
+  if (typeof source === 'string') {
+    return vscode.Uri.file(source);
+  }
+  if (source.type === 'git') {
+    return createGitSnapshotUri(source.directory, source.ref, source.path);
+  }
+  return createSnapshotUri(source.path, source.content);
+};
+
+const sourcePath = (source: DiffSource): string => (typeof source === 'string' ? source : source.path);
+
+export const openSnapshotDiff = async (original: DiffSource, modified: DiffSource, label?: string): Promise<void> => {
+  const originalName = path.basename(sourcePath(original));
+  const modifiedName = path.basename(sourcePath(modified));
+  const title = label || (originalName === modifiedName ? `${modifiedName} (changes)` : `${originalName} ↔ ${modifiedName}`);
+  await vscode.commands.executeCommand('vscode.diff', toDiffUri(original), toDiffUri(modified), title);
+};
+
+const fetchSessionDiff = async (
+  sessionId: string,
+  options: { messageId?: string; directory?: string } = {}
+): Promise<SessionFileDiff[]> => {
+  const baseUrl = openCodeManager?.getApiUrl();
+  if (!baseUrl) {
+    throw new Error('OpenCode API is not available');
+  }
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}/session/${encodeURIComponent(sessionId)}/diff`);
+  if (options.messageId) {
+    url.searchParams.set('messageID', options.messageId);
+  }
+  // Sessions outside the server's default project are only found when scoped to their directory
+  if (options.directory) {
+    url.searchParams.set('directory', options.directory);
+  }
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...openCodeManager?.getOpenCodeAuthHeaders() },
+  });
+  if (!response.ok) {
+    throw new Error(`OpenCode responded with ${response.status}`);
+  }
+  const data = (await response.json()) as unknown;
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .filter((entry) => typeof entry.file === 'string')
+    .map((entry) => ({
+      file: entry.file as string,
+      before: typeof entry.before === 'string' ? entry.before : '',
+      after: typeof entry.after === 'string' ? entry.after : '',
+    }));
+};
+
+/**
+ * Open every file a session (or a single turn of it) changed, using the multi-file diff editor when available.
+ */
+export const openSessionChanges = async (
+  sessionId: string,
+  options: { messageId?: string; directory?: string; title?: string } = {}
+): Promise<void> => {
+  const diffs = await fetchSessionDiff(sessionId, options);
+  if (diffs.length === 0) {
+    vscode.window.showInformationMessage('Neusis Code: No file changes in this session');
+    return;
+  }
+
+  const origin = { sessionId, messageId: options.messageId, directory: options.directory };
+  const openFileDiff = (diff: SessionFileDiff) =>
+    vscode.commands.executeCommand(
+      'vscode.diff',
+      createSnapshotUri(diff.file, diff.before, { ...origin, side: 'before' }),
+      createSnapshotUri(diff.file, diff.after, { ...origin, side: 'after' }),
+      `${path.basename(diff.file)} (changes)`
+    );
+
+  if (diffs.length === 1) {
+    await openFileDiff(diffs[0]);
+    return;
+  }
+
+  const workspaceRoot = options.directory ? vscode.Uri.file(options.directory) : vscode.workspace.workspaceFolders?.[0]?.uri;
+  const resources = diffs.map((diff) => [
+    workspaceRoot && !path.isAbsolute(diff.file) ? vscode.Uri.joinPath(workspaceRoot, diff.file) : vscode.Uri.file(diff.file),
+    createSnapshotUri(diff.file, diff.before, { ...origin, side: 'before' }),
+    createSnapshotUri(diff.file, diff.after, { ...origin, side: 'after' }),
+  ]);
+
+  try {
+    await vscode.commands.executeCommand('vscode.changes', options.title || 'Session Changes', resources);
+  } catch {
+    // Older VS Code builds without the multi-file diff editor: pick one file at a time
+    const picked = await vscode.window.showQuickPick(
+      diffs.map((diff) => ({ label: path.basename(diff.file), description: diff.file, diff })),
+      { title: options.title || 'Session Changes', placeHolder: 'Select a file to diff' }
+    );
+    if (picked) {
+      await openFileDiff(picked.diff);
+    }
+  }
+};
+
+export const initSnapshotDocuments = (
+  context: vscode.ExtensionContext,
+  manager: OpenCodeManager,
+  options: { getActiveSessionId: () => string | null }
+): void => {
+  openCodeManager = manager;
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(SNAPSHOT_SCHEME, provider),
+    vscode.commands.registerCommand('openchamber.openSessionChanges', async (sessionId?: unknown, messageId?: unknown, directory?: unknown) => {
+      const targetSessionId = typeof sessionId === 'string' && sessionId ? sessionId : options.getActiveSessionId();
+      if (!targetSessionId) {
+        vscode.window.showInformationMessage('Neusis Code: No active session');
+        return;
+      }
+      try {
+        await openSessionChanges(targetSessionId, {
+          messageId: typeof messageId === 'string' && messageId ? messageId : undefined,
+          directory: typeof directory === 'string' && directory ? directory : undefined,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Neusis Code: Failed to load session changes: ${message}`);
+      }
+    })
+  );
+};
+
+export const disposeSnapshotDocuments = (): void => {
+  snapshots.clear();
+  openCodeManager = null;
+};
@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import type { ConnectionStatus, OpenCodeManager } from './opencode';
+import { fetchQuotaForProvider, type ProviderResult } from './quotaProviders';
+import { getSessionActivitySummaries, onSessionActivityChange } from './sessionActivityWatcher';
+
+// Status bar item summarizing OpenCode connection, running sessions and quota usage
+const QUOTA_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+const CONNECTION_ICONS: Record<ConnectionStatus, string> = {
+  connected: '$(check)',
+  connecting: '$(sync~spin)',
+  disconnected: '$(debug-disconnect)',
+  error: '$(error)',
+};
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  connected: 'Connected',
+  connecting: 'Connecting…',
+  disconnected: 'Disconnected',
+  error: 'Connection error',
+};
+
+type StatusBarOptions = {
+  openSession: (sessionId: string, title?: string) => void;
+};
+
+type QuotaSummary = {
+  label: string;
+  detail: string;
+};
+
+let statusBarItem: vscode.StatusBarItem | null = null;
+let openCodeManager: OpenCodeManager | null = null;
+let statusBarOptions: StatusBarOptions | null = null;
+let connectionError: string | undefined;
+let quotaSummary: QuotaSummary | null = null;
+let quotaTimer: ReturnType<typeof setInterval> | null = null;
+
+const getQuotaProviderId = (): string =>
+  (vscode.workspace.getConfiguration('openchamber').get<string>('statusBar.quotaProvider') || '').trim();
+
+const summarizeQuota = (result: ProviderResult): QuotaSummary | null => {
+  if (!result.ok || !result.usage) {
+    return result.error ? { label: '$(warning)', detail: `${result.providerName}: ${result.error}` } : null;
+  }
+
+  const windows = Object.entries(result.usage.windows);
+  const withPercent = windows.filter(([, window]) => typeof window.usedPercent === 'number');
+  if (withPercent.length === 0) {
+    return null;
+  }
+
+  // Show the tightest window; the tooltip lists all of them
+  const [, tightest] = withPercent.reduce((max, entry) =>
+    (entry[1].usedPercent ?? 0) > (max[1].usedPercent ?? 0) ? entry : max
+  );
+  const details = withPercent.map(([name, window]) => {
+    const reset = window.resetAfterFormatted ? ` (resets in ${window.resetAfterFormatted})` : '';
+    return `${name}: ${Math.round(window.usedPercent ?? 0)}% used${reset}`;
+  });
+
+  return {
+    label: `$(dashboard) ${Math.round(tightest.usedPercent ?? 0)}%`,
+    detail: `${result.providerName} — ${details.join(', ')}`,
+  };
+};
+
+const refreshQuota = async (): Promise<void> => {
+  const providerId = getQuotaProviderId();
+  if (!providerId) {
+    quotaSummary = null;
+    updateStatusBar();
+    return;
+  }
+
+  try {
+    quotaSummary = summarizeQuota(await fetchQuotaForProvider(providerId));
+  } catch (error) {
+    quotaSummary = { label: '$(warning)', detail: `Quota: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  updateStatusBar();
+};
+
+const restartQuotaTimer = () => {
+  if (quotaTimer) {
+    clearInterval(quotaTimer);
+    quotaTimer = null;
+  }
+  void refreshQuota();
+  if (getQuotaProviderId()) {
+    quotaTimer = setInterval(() => void refreshQuota(), QUOTA_REFRESH_INTERVAL_MS);
+  }
+};
+
+const updateStatusBar = () => {
+  if (!statusBarItem) {
+    return;
+  }
+
+  const status = openCodeManager?.getStatus() ?? 'disconnected';
+  const sessions = getSessionActivitySummaries();
+  const busyCount = sessions.filter((session) => session.phase !== 'idle').length;
+  const permissionCount = sessions.reduce((total, session) => total + session.pendingPermissions, 0);
+
+  const parts = [`${CONNECTION_ICONS[status]} Neusis`];
+  if (busyCount > 0) {
+    parts.push(`$(loading~spin) ${busyCount}`);
+  }
+  if (permissionCount > 0) {
+    parts.push(`$(shield) ${permissionCount}`);
+  }
+  if (quotaSummary) {
+    parts.push(quotaSummary.label);
+  }
+  statusBarItem.text = parts.join('  ');
+
+  const tooltipLines = [`Neusis Code: ${CONNECTION_LABELS[status]}${connectionError ? ` — ${connectionError}` : ''}`];
+  tooltipLines.push(`${busyCount} busy session${busyCount === 1 ? '' : 's'}`);
+  if (permissionCount > 0) {
+    tooltipLines.push(`${permissionCount} permission request${permissionCount === 1 ? '' : 's'} waiting`);
+  }
+  if (quotaSummary) {
+    tooltipLines.push(quotaSummary.detail);
+  }
+  statusBarItem.tooltip = tooltipLines.join('\n');
+
+  statusBarItem.backgroundColor = status === 'error'
+    ? new vscode.ThemeColor('statusBarItem.errorBackground')
+    : permissionCount > 0
+      ? new vscode.ThemeColor('statusBarItem.warningBackground')
+      : undefined;
+};
+
+type StatusMenuItem = vscode.QuickPickItem & { run?: () => void | Thenable<unknown> };
+
+export const showStatusMenu = async (): Promise<void> => {
+  const sessions = getSessionActivitySummaries();
+  const items: StatusMenuItem[] = [];
+
+  if (sessions.length > 0) {
+    items.push({ label: 'Sessions', kind: vscode.QuickPickItemKind.Separator });
+    for (const session of sessions) {
+      const title = session.title || session.sessionId;
+      items.push({
+        label: `${session.pendingPermissions > 0 ? '$(shield)' : '$(loading~spin)'} ${title}`,
+        description: session.pendingPermissions > 0
+          ? `waiting on ${session.pendingPermissions} permission${session.pendingPermissions === 1 ? '' : 's'}`
+          : session.phase,
+        run: () => statusBarOptions?.openSession(session.sessionId, session.title ?? undefined),
+      });
+    }
+  }
+
+  items.push({ label: 'Actions', kind: vscode.QuickPickItemKind.Separator });
+  items.push(
+    { label: '$(comment-discussion) Focus Chat', run: () => vscode.commands.executeCommand('openchamber.focusChat') },
+    { label: '$(debug-restart) Restart API Connection', run: () => vscode.commands.executeCommand('openchamber.restartApi') },
+    { label: '$(info) Show OpenCode Status', run: () => vscode.commands.executeCommand('openchamber.showOpenCodeStatus') },
+  );
+  if (getQuotaProviderId()) {
+    items.push({ label: '$(refresh) Refresh Quota', run: () => refreshQuota() });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: 'Neusis Code',
+    placeHolder: sessions.length > 0 ? 'Jump to a running session or pick an action' : 'Pick an action',
+  });
+  await picked?.run?.();
+};
+
+export const initStatusBar = (
+  context: vscode.ExtensionContext,
+  manager: OpenCodeManager,
+  options: StatusBarOptions
+): void => {
+  openCodeManager = manager;
+  statusBarOptions = options;
+
+  statusBarItem = vscode.window.createStatusBarItem('openchamber.status', vscode.StatusBarAlignment.Right, 100);
+  statusBarItem.name = 'Neusis Code';
+  statusBarItem.command = 'openchamber.showStatusMenu';
+  updateStatusBar();
+  statusBarItem.show();
+
+  context.subscriptions.push(
+    statusBarItem,
+    manager.onStatusChange((_status, error) => {
+      connectionError = error;
+      updateStatusBar();
+    }),
+    onSessionActivityChange(() => updateStatusBar()),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('openchamber.statusBar.quotaProvider')) {
+        restartQuotaTimer();
+      }
+    }),
+  );
+
+  restartQuotaTimer();
+};
+
+export const disposeStatusBar = (): void => {
+  if (quotaTimer) {
+    clearInterval(quotaTimer);
+    quotaTimer = null;
+  }
+  statusBarItem = null;
+  openCodeManager = null;
+  statusBarOptions = null;
+  quotaSummary = null;
+};
@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import type { FixTarget } from './diagnosticFixes';
+
+// "Add terminal selection to context" and "Send last command output to agent" for integrated terminals
+const MAX_OUTPUT_CHARS = 20_000;
+const CLIPBOARD_SETTLE_MS = 50;
+
+type TerminalContextOptions = {
+  addToContext: (text: string) => void;
+  sendPrompt: (prompt: string, target: FixTarget) => void;
+  hasActiveSession: () => boolean;
+};
+
+type CapturedExecution = {
+  commandLine: string;
+  cwd: string | undefined;
+  exitCode: number | undefined;
+  output: string;
+  truncated: boolean;
+  running: boolean;
+};
+
+// Shell integration only streams output written after read() is first called, so capture every execution as it starts
+const lastExecutions = new Map<vscode.Terminal, CapturedExecution>();
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+const cleanTerminalText = (text: string): string =>
+  text.replace(ANSI_PATTERN, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const captureExecution = async (terminal: vscode.Terminal, execution: vscode.TerminalShellExecution) => {
+  const captured: CapturedExecution = {
+    commandLine: execution.commandLine.value,
+    cwd: execution.cwd?.fsPath,
+    exitCode: undefined,
+    output: '',
+    truncated: false,
+    running: true,
+  };
+  lastExecutions.set(terminal, captured);
+
+  try {
+    for await (const chunk of execution.read()) {
+      captured.output += chunk;
+      // Keep the tail: failures are reported at the end of the output
+      if (captured.output.length > MAX_OUTPUT_CHARS * 2) {
+        captured.output = captured.output.slice(-MAX_OUTPUT_CHARS * 2);
+        captured.truncated = true;
+      }
+    }
+  } catch {
+    // The stream ends early when the terminal is disposed
+  }
+};
+
+const formatExecution = (execution: CapturedExecution): string => {
+  let output = cleanTerminalText(execution.output);
+  let truncated = execution.truncated;
+  if (output.length > MAX_OUTPUT_CHARS) {
+    output = output.slice(-MAX_OUTPUT_CHARS);
+    truncated = true;
+  }
+
+  const status = execution.running
+    ? 'still running'
+    : execution.exitCode === undefined
+      ? 'exit code unknown'
+      : `exit code ${execution.exitCode}`;
+  const location = execution.cwd ? ` in ${vscode.workspace.asRelativePath(execution.cwd, false) || execution.cwd}` : '';
+  const lines = [`Terminal command${location} (${status}):`, '```sh', `$ ${execution.commandLine.trim()}`, '```'];
+  if (output) {
+    lines.push('Output:', '```', `${truncated ? '…(earlier output truncated)\n' : ''}${output}`, '```');
+  } else {
+    lines.push('(no output)');
+  }
+  return lines.join('\n');
+};
+
+const buildFailurePrompt = (execution: CapturedExecution): string => {
+  const failed = execution.exitCode !== undefined && execution.exitCode !== 0;
+  const intro = failed
+    ? 'The following terminal command failed. Explain the failure and fix it:'
+    : 'Explain the output of the following terminal command and fix any problems it reports:';
+  return `${intro}\n\n${formatExecution(execution)}`;
+};
+
+// Terminal selections are not exposed through the API; copy them via the clipboard and restore what was there before
+const readTerminalSelection = async (): Promise<string> => {
+  const previous = await vscode.env.clipboard.readText();
+  const marker = `\u0000openchamber-terminal-selection-${Date.now()}`;
+  await vscode.env.clipboard.writeText(marker);
+  try {
+    await vscode.commands.executeCommand('workbench.action.terminal.copySelection');
+    await new Promise((resolve) => setTimeout(resolve, CLIPBOARD_SETTLE_MS));
+    const copied = await vscode.env.clipboard.readText();
+    return copied === marker ? '' : copied;
+  } finally {
+    await vscode.env.clipboard.writeText(previous);
+  }
+};
+
+export const registerTerminalContext = (context: vscode.ExtensionContext, options: TerminalContextOptions): void => {
+  // Shell integration events are missing on VS Code builds older than 1.93
+  if (typeof vscode.window.onDidStartTerminalShellExecution === 'function') {
+    context.subscriptions.push(
+      vscode.window.onDidStartTerminalShellExecution((event) => {
+        void captureExecution(event.terminal, event.execution);
+      }),
+      vscode.window.onDidEndTerminalShellExecution((event) => {
+        const captured = lastExecutions.get(event.terminal);
+        if (captured && captured.commandLine === event.execution.commandLine.value) {
+          captured.exitCode = event.exitCode;
+          captured.running = false;
+        }
+      })
+    );
+  }
+
+  context.subscriptions.push(
+    vscode.window.onDidCloseTerminal((terminal) => {
+      lastExecutions.delete(terminal);
+    }),
+    vscode.commands.registerCommand('openchamber.terminal.addSelectionToContext', async () => {
+      const terminal = vscode.window.activeTerminal;
+      if (!terminal) {
+        vscode.window.showWarningMessage('Neusis Code [Add Terminal Selection]: No active terminal');
+        return;
+      }
+      const selection = cleanTerminalText(await readTerminalSelection());
+      if (!selection) {
+        vscode.window.showWarningMessage('Neusis Code [Add Terminal Selection]: No text selected in the terminal');
+        return;
+      }
+      options.addToContext(`Terminal output (${terminal.name}):\n\`\`\`\n${selection}\n\`\`\``);
+      vscode.commands.executeCommand('openchamber.focusChat');
+    }),
+    vscode.commands.registerCommand('openchamber.terminal.sendLastCommandOutput', async (action?: 'context' | FixTarget) => {
+      const terminal = vscode.window.activeTerminal;
+      if (!terminal) {
+        vscode.window.showWarningMessage('Neusis Code [Send Last Command]: No active terminal');
+        return;
+      }
+      const execution = lastExecutions.get(terminal);
+      if (!execution) {
+        const reason = terminal.shellIntegration
+          ? 'No command has run in this terminal since Neusis Code started'
+          : 'Shell integration is not active in this terminal';
+        vscode.window.showWarningMessage(`Neusis Code [Send Last Command]: ${reason}`);
+        return;
+      }
+
+      let choice = action;
+      if (!choice) {
+        const items: Array<vscode.QuickPickItem & { action: 'context' | FixTarget }> = [
+          { label: 'Add to chat input', description: execution.commandLine.trim(), action: 'context' },
+          { label: 'Explain and fix in a new session', action: 'new-session' },
+        ];
+        if (options.hasActiveSession()) {
+          items.push({ label: 'Explain and fix in the current session', action: 'active-session' });
+        }
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Send the last terminal command to Neusis Code' });
+        if (!picked) return;
+        choice = picked.action;
+      }
+
+      if (choice === 'context') {
+        options.addToContext(formatExecution(execution));
+        vscode.commands.executeCommand('openchamber.focusChat');
+      } else {
+        options.sendPrompt(buildFailurePrompt(execution), choice);
+      }
+    })
+  );
+};
+
+export const disposeTerminalContext = (): void => {
+  lastExecutions.clear();
+};
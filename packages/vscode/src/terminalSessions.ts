@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { randomBytes } from 'crypto';
+import { createRequire } from 'module';
+
+// Terminal sessions backed by the extension host (mirrors web server /api/terminal/* semantics)
+
+type TerminalEvent =
+  | { type: 'connected'; runtime: 'node'; ptyBackend: string }
+  | { type: 'data'; data: string }
+  | { type: 'exit'; exitCode: number; signal: number | null };
+
+type TerminalListener = (event: TerminalEvent) => void;
+
+interface PtyProcess {
+  onData(listener: (data: string) => void): { dispose(): void };
+  onExit(listener: (event: { exitCode: number; signal?: number }) => void): { dispose(): void };
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+}
+
+interface PtyModule {
+  spawn(
+    file: string,
+    args: string[],
+    options: { name: string; cols: number; rows: number; cwd: string; env: NodeJS.ProcessEnv }
+  ): PtyProcess;
+}
+
+interface PtyProvider {
+  spawn: (shell: string, options: { cols: number; rows: number; cwd: string; env: NodeJS.ProcessEnv }) => PtyProcess;
+  backend: string;
+}
+
+interface TerminalSession {
+  process: PtyProcess;
+  backend: string;
+  cwd: string;
+  lastActivity: number;
+  listeners: Set<TerminalListener>;
+}
+
+export type TerminalSessionInfo = {
+  sessionId: string;
+  cols: number;
+  rows: number;
+};
+
+const MAX_TERMINAL_SESSIONS = 20;
+const TERMINAL_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const TERMINAL_IDLE_SWEEP_MS = 5 * 60 * 1000;
+
+const terminalSessions = new Map<string, TerminalSession>();
+let ptyProvider: PtyProvider | null = null;
+let idleSweepTimer: ReturnType<typeof setInterval> | null = null;
+
+const generateSessionId = (): string => randomBytes(12).toString('hex');
+
+const resolveShell = (): string => {
+  if (process.platform === 'win32') {
+    return process.env.COMSPEC || 'powershell.exe';
+  }
+  return process.env.SHELL || '/bin/zsh';
+};
+
+const buildTerminalEnv = (): NodeJS.ProcessEnv => ({
+  ...process.env,
+  TERM: 'xterm-256color',
+  COLORTERM: 'truecolor',
+});
+
+// VS Code bundles node-pty for its own integrated terminal. Extensions cannot depend on it
+// directly, but can load the copy shipped with the host application.
+const loadBundledNodePty = (): PtyModule | null => {
+  const candidates = [
+    path.join(vscode.env.appRoot, 'node_modules.asar', 'node-pty'),
+    path.join(vscode.env.appRoot, 'node_modules', 'node-pty'),
+    path.join(vscode.env.appRoot, 'node_modules.asar.unpacked', 'node-pty'),
+  ];
+
+  const requireModule = createRequire(__filename);
+  for (const candidate of candidates) {
+    try {
+      const loaded = requireModule(candidate) as PtyModule;
+      if (loaded && typeof loaded.spawn === 'function') {
+        return loaded;
+      }
+    } catch {
+      // try next candidate
+    }
+  }
+  return null;
+};
+
+// Fallback when node-pty is unavailable: a piped shell without job control or resize support.
+const spawnPipedShell = (shell: string, options: { cwd: string; env: NodeJS.ProcessEnv }): PtyProcess => {
+  const args = process.platform === 'win32' ? [] : ['-i'];
+  const child: ChildProcessWithoutNullStreams = spawn(shell, args, {
+    cwd: options.cwd,
+    env: options.env,
+    stdio: 'pipe',
+  });
+
+  const toTerminalText = (chunk: Buffer) => chunk.toString('utf8').replace(/\r?\n/g, '\r\n');
+
+  return {
+    onData(listener) {
+      const handler = (chunk: Buffer) => listener(toTerminalText(chunk));
+      child.stdout.on('data', handler);
+      child.stderr.on('data', handler);
+      return {
+        dispose: () => {
+          child.stdout.off('data', handler);
+          child.stderr.off('data', handler);
+        },
+      };
+    },
+    onExit(listener) {
+      const handler = (code: number | null, signal: NodeJS.Signals | null) => {
+        listener({ exitCode: code ?? 0, signal: signal ? 1 : undefined });
+      };
+      const errorHandler = () => listener({ exitCode: 1 });
+      child.on('exit', handler);
+      child.on('error', errorHandler);
+      return {
+        dispose: () => {
+          child.off('exit', handler);
+          child.off('error', errorHandler);
+        },
+      };
+    },
+    write(data) {
+      child.stdin.write(data.replace(/\r/g, '\n'));
+    },
+    resize() {
+      // Pipes have no window size.
+    },
+    kill(signal) {
+      child.kill((signal as NodeJS.Signals | undefined) ?? 'SIGTERM');
+    },
+  };
+};
+
+const getPtyProvider = (): PtyProvider => {
+  if (ptyProvider) {
+    return ptyProvider;
+  }
+
+  const nodePty = loadBundledNodePty();
+  if (nodePty) {
+    ptyProvider = {
+      backend: 'node-pty',
+      spawn: (shell, options) => nodePty.spawn(shell, [], { name: 'xterm-256color', ...options }),
+    };
+  } else {
+    console.warn('[VSCode:Terminal] node-pty unavailable; falling back to piped shell');
+    ptyProvider = {
+      backend: 'child_process',
+      spawn: (shell, options) => spawnPipedShell(shell, options),
+    };
+  }
+  return ptyProvider;
+};
+
+const ensureIdleSweep = () => {
+  if (idleSweepTimer) {
+    return;
+  }
+  idleSweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of terminalSessions.entries()) {
+      if (now - session.lastActivity > TERMINAL_IDLE_TIMEOUT_MS) {
+        console.log(`[VSCode:Terminal] cleaning up idle session ${sessionId}`);
+        killSession(sessionId);
+      }
+    }
+  }, TERMINAL_IDLE_SWEEP_MS);
+};
+
+const killSession = (sessionId: string): boolean => {
+  const session = terminalSessions.get(sessionId);
+  if (!session) {
+    return false;
+  }
+  terminalSessions.delete(sessionId);
+  try {
+    session.process.kill();
+  } catch {
+    // ignore
+  }
+  return true;
+};
+
+const assertDirectory = async (cwd: string) => {
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(cwd);
+  } catch {
+    throw new Error('Invalid working directory: not accessible');
+  }
+  if (!stats.isDirectory()) {
+    throw new Error('Invalid working directory: not a directory');
+  }
+};
+
+export const createTerminalSession = async (options: { cwd: string; cols?: number; rows?: number }): Promise<TerminalSessionInfo> => {
+  if (terminalSessions.size >= MAX_TERMINAL_SESSIONS) {
+    throw new Error('Maximum terminal sessions reached');
+  }
+  if (!options.cwd) {
+    throw new Error('cwd is required');
+  }
+  await assertDirectory(options.cwd);
+
+  const cols = options.cols || 80;
+  const rows = options.rows || 24;
+  const provider = getPtyProvider();
+  const ptyProcess = provider.spawn(resolveShell(), {
+    cols,
+    rows,
+    cwd: options.cwd,
+    env: buildTerminalEnv(),
+  });
+
+  const sessionId = generateSessionId();
+  const session: TerminalSession = {
+    process: ptyProcess,
+    backend: provider.backend,
+    cwd: options.cwd,
+    lastActivity: Date.now(),
+    listeners: new Set(),
+  };
+  terminalSessions.set(sessionId, session);
+
+  ptyProcess.onData((data) => {
+    session.lastActivity = Date.now();
+    for (const listener of session.listeners) {
+      listener({ type: 'data', data });
+    }
+  });
+
+  ptyProcess.onExit(({ exitCode, signal }) => {
+    for (const listener of session.listeners) {
+      listener({ type: 'exit', exitCode, signal: typeof signal === 'number' ? signal : null });
+    }
+    session.listeners.clear();
+    if (terminalSessions.get(sessionId) === session) {
+      terminalSessions.delete(sessionId);
+    }
+  });
+
+  ensureIdleSweep();
+  return { sessionId, cols, rows };
+};
+
+export const subscribeTerminalSession = (sessionId: string, listener: TerminalListener): (() => void) | null => {
+  const session = terminalSessions.get(sessionId);
+  if (!session) {
+    return null;
+  }
+  session.listeners.add(listener);
+  session.lastActivity = Date.now();
+  listener({ type: 'connected', runtime: 'node', ptyBackend: session.backend });
+  return () => {
+    session.listeners.delete(listener);
+  };
+};
+
+export const writeTerminalInput = (sessionId: string, data: string): void => {
+  const session = terminalSessions.get(sessionId);
+  if (!session) {
+    throw new Error('Terminal session not found');
+  }
+  session.process.write(data);
+  session.lastActivity = Date.now();
+};
+
+export const resizeTerminalSession = (sessionId: string, cols: number, rows: number): void => {
+  const session = terminalSessions.get(sessionId);
+  if (!session) {
+    throw new Error('Terminal session not found');
+  }
+  if (!cols || !rows) {
+    throw new Error('cols and rows are required');
+  }
+  session.process.resize(cols, rows);
+  session.lastActivity = Date.now();
+};
+
+export const closeTerminalSession = (sessionId: string): void => {
+  if (!killSession(sessionId)) {
+    throw new Error('Terminal session not found');
+  }
+};
+
+export const restartTerminalSession = async (
+  sessionId: string,
+  options: { cwd: string; cols?: number; rows?: number }
+): Promise<TerminalSessionInfo> => {
+  if (!options.cwd) {
+    throw new Error('cwd is required');
+  }
+  killSession(sessionId);
+  return createTerminalSession(options);
+};
+
+export const forceKillTerminalSessions = (options: { sessionId?: string; cwd?: string }): number => {
+  let killedCount = 0;
+  if (options.sessionId) {
+    killedCount += killSession(options.sessionId) ? 1 : 0;
+  } else {
+    for (const [id, session] of Array.from(terminalSessions.entries())) {
+      if (!options.cwd || session.cwd === options.cwd) {
+        killedCount += killSession(id) ? 1 : 0;
+      }
+    }
+  }
+  return killedCount;
+};
+
+export const disposeTerminalSessions = (): void => {
+  forceKillTerminalSessions({});
+  if (idleSweepTimer) {
+    clearInterval(idleSweepTimer);
+    idleSweepTimer = null;
+  }
+};
@@ -4,6 +4,14 @@ import type { ConnectionStatus } from './opencode';
 
 export type PanelType = 'chat' | 'agentManager';
 
+// Session tabs the webview can open on; mirrors the UI router's `tab` param
+export type SessionTab = 'chat' | 'diff';
+
+export interface SessionView {
+  tab?: SessionTab;
+  file?: string;
+}
+
 export interface WebviewHtmlOptions {
   webview: vscode.Webview;
   extensionUri: vscode.Uri;
@@ -12,6 +20,9 @@ export interface WebviewHtmlOptions {
   cliAvailable: boolean;
   panelType?: PanelType;
   initialSessionId?: string;
+  initialMessageId?: string;
+  initialTab?: SessionTab;
+  initialFile?: string;
   viewMode?: 'sidebar' | 'editor';
 }
 
@@ -24,8 +35,15 @@ export function getWebviewHtml(options: WebviewHtmlOptions): string {
     cliAvailable,
     panelType = 'chat',
     initialSessionId,
+    initialMessageId,
+    initialTab,
+    initialFile,
     viewMode = 'sidebar',
   } = options;
+  // `<` is escaped so values (paths, ids from deep links) cannot close the script tag
+  const toScriptValue = (value: unknown): string => JSON.stringify(value ?? null).replace(/</g, '\\u003c');
+  // Every folder of a multi-root workspace becomes a project
+  const workspaceFoldersJson = toScriptValue((vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath));
 
   const scriptPath = vscode.Uri.joinPath(extensionUri, 'dist', 'webview', 'assets', 'index.js');
   const scriptUri = webview.asWebviewUri(scriptPath);
@@ -132,15 +150,20 @@ export function getWebviewHtml(options: WebviewHtmlOptions): string {
     window.process = window.process || { env: { NODE_ENV: 'production' }, platform: '', version: '', browser: true };
 
     window.__VSCODE_CONFIG__ = {
-      workspaceFolder: "${workspaceFolder.replace(/\\/g, '\\\\')}",
+      workspaceFolder: ${toScriptValue(workspaceFolder)},
+      workspaceFolders: ${workspaceFoldersJson},
       theme: "${themeKind}",
       connectionStatus: "${initialStatus}",
       cliAvailable: ${cliAvailable},
+      workspaceTrusted: ${vscode.workspace.isTrusted},
       panelType: "${panelType}",
       viewMode: "${viewMode}",
-      initialSessionId: ${initialSessionId ? `"${initialSessionId.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : 'null'},
+      initialSessionId: ${toScriptValue(initialSessionId)},
+      initialMessageId: ${toScriptValue(initialMessageId)},
+      initialTab: ${toScriptValue(initialTab)},
+      initialFile: ${toScriptValue(initialFile)},
     };
-    window.__OPENCHAMBER_HOME__ = "${workspaceFolder.replace(/\\/g, '\\\\')}";
+    window.__OPENCHAMBER_HOME__ = ${toScriptValue(workspaceFolder)};
     
     // Handle connection status updates to update loading screen
     window.addEventListener('message', function(event) {
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+
+// Restricted mode: no managed OpenCode server, shell commands or skill installs until the workspace is trusted
+type WorkspaceTrustOptions = {
+  onTrustGranted: () => void;
+};
+
+export const RESTRICTED_MODE_ERROR = 'Not available in Restricted Mode. Trust this workspace to enable it.';
+
+export const isWorkspaceTrusted = (): boolean => vscode.workspace.isTrusted;
+
+/** Bridge response for handlers that must not run in untrusted workspaces, or null when trusted. */
+export const restrictedModeResponse = (id: string, type: string) =>
+  vscode.workspace.isTrusted ? null : { id, type, success: false, error: RESTRICTED_MODE_ERROR };
+
+export const initWorkspaceTrust = (context: vscode.ExtensionContext, options: WorkspaceTrustOptions): void => {
+  context.subscriptions.push(
+    vscode.workspace.onDidGrantWorkspaceTrust(() => options.onTrustGranted()),
+    vscode.commands.registerCommand('openchamber.trustWorkspace', () =>
+      vscode.commands.executeCommand('workbench.trust.manage')
+    )
+  );
+};
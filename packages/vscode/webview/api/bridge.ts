@@ -135,7 +135,8 @@ export async function stopSseProxy(options: { streamId: string }): Promise<{ sto
 }
 
 export async function executeVSCodeCommand(command: string, args?: unknown[]): Promise<{ result?: unknown }> {
-  return sendBridgeMessage<{ result?: unknown }>('vscode:command', { command, args });
+  // Commands may wait on native UI such as save dialogs, so no bridge timeout applies
+  return sendBridgeMessageWithOptions<{ result?: unknown }>('vscode:command', { command, args }, { timeoutMs: 0 });
 }
 
 type CommandHandler = (payload: unknown) => void;
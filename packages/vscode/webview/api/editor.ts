@@ -1,12 +1,12 @@
 
 import { sendBridgeMessage } from './bridge';
-import type { EditorAPI } from '@openchamber/ui/lib/api/types';
+import type { EditorAPI, EditorDiffSource } from '@openchamber/ui/lib/api/types';
 
 export const createVSCodeEditorAPI = (): EditorAPI => ({
   openFile: async (path: string, line?: number, column?: number) => {
     await sendBridgeMessage('editor:openFile', { path, line, column });
   },
-  openDiff: async (original: string, modified: string, label?: string) => {
+  openDiff: async (original: EditorDiffSource, modified: EditorDiffSource, label?: string) => {
     await sendBridgeMessage('editor:openDiff', { original, modified, label });
   },
 });
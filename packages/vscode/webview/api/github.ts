@@ -29,6 +29,7 @@ export const createVSCodeGitHubAPI = (): GitHubAPI => ({
   authDisconnect: async () => sendBridgeMessage<{ removed: boolean }>('api:github/auth:disconnect'),
   authActivate: async (accountId: string) =>
     sendBridgeMessage<GitHubAuthStatus>('api:github/auth:activate', { accountId }),
+  authSignInWithEditor: async () => sendBridgeMessage<GitHubDeviceFlowComplete>('api:github/auth:vscode'),
   me: async () => sendBridgeMessage<GitHubUserSummary>('api:github/me'),
 
   prStatus: async (directory: string, branch: string) =>
@@ -1,4 +1,4 @@
-import type { RuntimeAPIs, TerminalAPI, NotificationsAPI } from '@openchamber/ui/lib/api/types';
+import type { RuntimeAPIs } from '@openchamber/ui/lib/api/types';
 import { createVSCodeFilesAPI } from './files';
 import { createVSCodeSettingsAPI } from './settings';
 import { createVSCodePermissionsAPI } from './permissions';
@@ -7,29 +7,17 @@ import { createVSCodeEditorAPI } from './editor';
 import { createVSCodeGitAPI } from './git';
 import { createVSCodeActionsAPI } from './vscode';
 import { createVSCodeGitHubAPI } from './github';
-
-// Stub APIs return sensible defaults instead of throwing
-const createStubTerminalAPI = (): TerminalAPI => ({
-  createSession: async () => ({ sessionId: '', cols: 80, rows: 24 }),
-  connect: () => ({ close: () => {} }),
-  sendInput: async () => {},
-  resize: async () => {},
-  close: async () => {},
-});
-
-const createStubNotificationsAPI = (): NotificationsAPI => ({
-  notifyAgentCompletion: async () => true,
-  canNotify: () => true,
-});
+import { createVSCodeTerminalAPI } from './terminal';
+import { createVSCodeNotificationsAPI } from './notifications';
 
 export const createVSCodeAPIs = (): RuntimeAPIs => ({
   runtime: { platform: 'vscode', isDesktop: false, isVSCode: true, label: 'VS Code Extension' },
-  terminal: createStubTerminalAPI(),
+  terminal: createVSCodeTerminalAPI(),
   git: createVSCodeGitAPI(),
   files: createVSCodeFilesAPI(),
   settings: createVSCodeSettingsAPI(),
   permissions: createVSCodePermissionsAPI(),
-  notifications: createStubNotificationsAPI(),
+  notifications: createVSCodeNotificationsAPI(),
   github: createVSCodeGitHubAPI(),
   tools: createVSCodeToolsAPI(),
   editor: createVSCodeEditorAPI(),
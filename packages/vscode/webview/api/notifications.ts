@@ -0,0 +1,18 @@
+import type { NotificationPayload, NotificationsAPI } from '@openchamber/ui/lib/api/types';
+import { sendBridgeMessage } from './bridge';
+
+export const createVSCodeNotificationsAPI = (): NotificationsAPI => ({
+  async notifyAgentCompletion(payload?: NotificationPayload): Promise<boolean> {
+    if (!payload?.title) {
+      return false;
+    }
+    try {
+      const result = await sendBridgeMessage<{ shown: boolean }>('api:notifications:notify', payload);
+      return Boolean(result?.shown);
+    } catch {
+      return false;
+    }
+  },
+
+  canNotify: () => true,
+});
@@ -0,0 +1,86 @@
+import type {
+  CreateTerminalOptions,
+  ForceKillOptions,
+  ResizeTerminalPayload,
+  TerminalAPI,
+  TerminalHandlers,
+  TerminalSession,
+  TerminalStreamEvent,
+} from '@openchamber/ui/lib/api/types';
+
+import { sendBridgeMessage } from './bridge';
+
+type TerminalEventMessage = {
+  type: 'terminal:event';
+  connectionId: string;
+  event: TerminalStreamEvent;
+};
+
+const connectionHandlers = new Map<string, TerminalHandlers>();
+let connectionCounter = 0;
+
+window.addEventListener('message', (event: MessageEvent) => {
+  const message = event.data as TerminalEventMessage | undefined;
+  if (message?.type !== 'terminal:event' || typeof message.connectionId !== 'string') return;
+
+  const handlers = connectionHandlers.get(message.connectionId);
+  if (!handlers) return;
+
+  handlers.onEvent(message.event);
+  if (message.event?.type === 'exit') {
+    connectionHandlers.delete(message.connectionId);
+  }
+});
+
+export const createVSCodeTerminalAPI = (): TerminalAPI => ({
+  async createSession(options: CreateTerminalOptions): Promise<TerminalSession> {
+    return sendBridgeMessage<TerminalSession>('api:terminal:create', {
+      cwd: options.cwd,
+      cols: options.cols,
+      rows: options.rows,
+    });
+  },
+
+  connect(sessionId: string, handlers: TerminalHandlers) {
+    const connectionId = `term_${++connectionCounter}_${Date.now()}`;
+    connectionHandlers.set(connectionId, handlers);
+
+    sendBridgeMessage('api:terminal:connect', { sessionId, connectionId }).catch((error: unknown) => {
+      if (!connectionHandlers.has(connectionId)) return;
+      connectionHandlers.delete(connectionId);
+      handlers.onError?.(error instanceof Error ? error : new Error(String(error)), true);
+    });
+
+    return {
+      close: () => {
+        if (!connectionHandlers.delete(connectionId)) return;
+        void sendBridgeMessage('api:terminal:disconnect', { connectionId }).catch(() => {});
+      },
+    };
+  },
+
+  async sendInput(sessionId: string, input: string): Promise<void> {
+    await sendBridgeMessage('api:terminal:input', { sessionId, data: input });
+  },
+
+  async resize(payload: ResizeTerminalPayload): Promise<void> {
+    await sendBridgeMessage('api:terminal:resize', payload);
+  },
+
+  async close(sessionId: string): Promise<void> {
+    await sendBridgeMessage('api:terminal:close', { sessionId });
+  },
+
+  async restartSession(currentSessionId: string, options: CreateTerminalOptions): Promise<TerminalSession> {
+    return sendBridgeMessage<TerminalSession>('api:terminal:restart', {
+      sessionId: currentSessionId,
+      cwd: options.cwd,
+      cols: options.cols,
+      rows: options.rows,
+    });
+  },
+
+  async forceKill(options: ForceKillOptions): Promise<void> {
+    await sendBridgeMessage('api:terminal:force-kill', options);
+  },
+});
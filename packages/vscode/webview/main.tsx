@@ -1,6 +1,8 @@
 import { createVSCodeAPIs } from './api';
 import { onCommand, onThemeChange, proxyApiRequest, proxySessionMessageRequest, sendBridgeMessage, startSseProxy, stopSseProxy } from './api/bridge';
 import type { RuntimeAPIs } from '@openchamber/ui/lib/api/types';
+import type { EditorContextSnapshot } from '@openchamber/ui/stores/useEditorContextStore';
+import type { InlineCommentDraft } from '@openchamber/ui/stores/useInlineCommentDraftStore';
 import {
   buildVSCodeThemeFromPalette,
   readVSCodeThemePalette,
@@ -19,18 +21,22 @@ declare global {
     __VSCODE_CONFIG__?: {
       apiUrl?: string;
       workspaceFolder: string;
+      workspaceFolders?: string[];
       theme: string;
       connectionStatus: string;
       cliAvailable?: boolean;
+      workspaceTrusted?: boolean;
       panelType?: PanelType;
       viewMode?: 'sidebar' | 'editor';
       initialSessionId?: string | null;
+      initialMessageId?: string | null;
     };
     __OPENCHAMBER_VSCODE_THEME__?: VSCodeThemePayload['theme'];
     __OPENCHAMBER_VSCODE_SHIKI_THEMES__?: { light?: Record<string, unknown>; dark?: Record<string, unknown> } | null;
     __OPENCHAMBER_CONNECTION__?: { status: ConnectionStatus; error?: string; cliAvailable?: boolean };
     __OPENCHAMBER_HOME__?: string;
     __OPENCHAMBER_PANEL_TYPE__?: PanelType;
+    __OPENCHAMBER_WORKSPACE_TRUSTED__?: boolean;
   }
 }
 
@@ -55,6 +61,8 @@ const bootstrapConnectionStatus = () => {
 
 bootstrapConnectionStatus();
 
+window.__OPENCHAMBER_WORKSPACE_TRUSTED__ = window.__VSCODE_CONFIG__?.workspaceTrusted !== false;
+
 // Expose panel type globally for App.tsx to conditionally render
 window.__OPENCHAMBER_PANEL_TYPE__ = (window.__VSCODE_CONFIG__?.panelType as PanelType) || 'chat';
 
@@ -151,6 +159,12 @@ const maybeHideLoadingOverlay = () => {
     return;
   }
 
+  // Restricted Mode renders its own empty state; OpenCode will not connect until the workspace is trusted
+  if (window.__OPENCHAMBER_WORKSPACE_TRUSTED__ === false) {
+    fadeOutLoadingScreen();
+    return;
+  }
+
   if (connectionStatus === 'connected') {
     if (bootstrapFailed) {
       setLoadingStatusText('OpenCode connected, but initial data load failed.', 'error');
@@ -261,7 +275,12 @@ if (workspaceFolder) {
   const normalizedWorkspaceFolder = normalizeWorkspacePath(workspaceFolder);
   window.__OPENCHAMBER_HOME__ = normalizedWorkspaceFolder;
   try {
-    window.localStorage.setItem('lastDirectory', normalizedWorkspaceFolder);
+    // Multi-root: reopen the folder that was active last time if it is still part of the workspace
+    const openFolders = (window.__VSCODE_CONFIG__?.workspaceFolders ?? []).map(normalizeWorkspacePath);
+    const activeProjectId = window.localStorage.getItem('activeProjectId') ?? '';
+    const activeFolder = activeProjectId.startsWith('vscode:') ? activeProjectId.slice('vscode:'.length) : '';
+    const initialDirectory = activeFolder && openFolders.includes(activeFolder) ? activeFolder : normalizedWorkspaceFolder;
+    window.localStorage.setItem('lastDirectory', initialDirectory);
     window.localStorage.setItem('homeDirectory', normalizedWorkspaceFolder);
 
     // VS Code defaults: show dotfiles, hide gitignored
@@ -887,10 +906,7 @@ onCommand('addToContext', (payload) => {
   });
 });
 
-// Listen for createSessionWithPrompt command from extension (Explain, Improve Code)
-onCommand('createSessionWithPrompt', (payload) => {
-  const { prompt } = payload as { prompt: string };
-  
+const sendPromptFromExtension = (prompt: string, options: { newSession: boolean }) => {
   Promise.all([
     import('@/stores/useSessionStore'),
     import('@/stores/useConfigStore'),
@@ -898,8 +914,10 @@ onCommand('createSessionWithPrompt', (payload) => {
     const sessionStore = useSessionStore.getState();
     const configStore = useConfigStore.getState();
     
-    // Open a new session draft first
-    sessionStore.openNewSessionDraft();
+    // Open a new session draft first (or when there is no session to send to)
+    if (options.newSession || !sessionStore.currentSessionId) {
+      sessionStore.openNewSessionDraft();
+    }
     
     // Get current provider/model/agent configuration
     const { currentProviderId, currentModelId, currentAgentName } = configStore;
@@ -922,6 +940,20 @@ onCommand('createSessionWithPrompt', (payload) => {
       sessionStore.setPendingInputText(prompt);
     }
   });
+
+  window.dispatchEvent(new CustomEvent('openchamber:navigate', { detail: { view: 'chat' } }));
+};
+
+// Listen for createSessionWithPrompt command from extension (Explain, Improve Code, Fix with Neusis Code)
+onCommand('createSessionWithPrompt', (payload) => {
+  const { prompt } = payload as { prompt: string };
+  sendPromptFromExtension(prompt, { newSession: true });
+});
+
+// Listen for sendPrompt command from extension (Fix in current session)
+onCommand('sendPrompt', (payload) => {
+  const { prompt } = payload as { prompt: string };
+  sendPromptFromExtension(prompt, { newSession: false });
 });
 
 // Listen for newSession command from extension title bar button
@@ -935,12 +967,181 @@ onCommand('newSession', () => {
   window.dispatchEvent(new CustomEvent('openchamber:navigate', { detail: { view: 'chat' } }));
 });
 
-// Listen for showSettings command from extension title bar button
-onCommand('showSettings', () => {
+// Listen for openSession command from native notification actions and deep links
+onCommand('openSession', (payload) => {
+  const { sessionId, messageId, tab, file } = payload as { sessionId: string; messageId?: string; tab?: string; file?: string };
+  if (!sessionId) return;
+
+  Promise.all([
+    import('@/stores/useSessionStore'),
+    import('@/lib/sessionLinks'),
+  ]).then(async ([{ useSessionStore }, { requestScrollToMessage, openSessionTab }]) => {
+    await useSessionStore.getState().setCurrentSession(sessionId);
+    openSessionTab(tab, file);
+    if (messageId) {
+      requestScrollToMessage(messageId);
+    }
+  });
+
+  window.dispatchEvent(new CustomEvent('openchamber:navigate', { detail: { view: 'chat' } }));
+});
+
+// Listen for showSettings command from extension title bar button and deep links
+onCommand('showSettings', (payload) => {
+  const { section } = (payload ?? {}) as { section?: string };
+  if (section) {
+    Promise.all([
+      import('@/stores/useUIStore'),
+      import('@/lib/router'),
+    ]).then(([{ useUIStore }, { parseRoute, ROUTE_PARAMS }]) => {
+      const { settingsSection } = parseRoute(new URLSearchParams({ [ROUTE_PARAMS.SETTINGS]: section }));
+      if (settingsSection) {
+        useUIStore.getState().setSidebarSection(settingsSection);
+      }
+    });
+  }
+
   // Dispatch event to navigate to settings view in VSCodeLayout
   window.dispatchEvent(new CustomEvent('openchamber:navigate', { detail: { view: 'settings' } }));
 });
 
+// Listen for showImportedSessions command from the command palette
+onCommand('showImportedSessions', () => {
+  import('@/stores/useUIStore').then(({ useUIStore }) => {
+    useUIStore.getState().setImportedSessionsOpen(true);
+  });
+
+  window.dispatchEvent(new CustomEvent('openchamber:navigate', { detail: { view: 'chat' } }));
+});
+
+// Mirror session folders to the extension host so the native Sessions view can group by them
+import('@/stores/useSessionFoldersStore').then(({ useSessionFoldersStore }) => {
+  const syncFolders = (foldersMap: unknown) => {
+    sendBridgeMessage('api:sessions:folders', { foldersMap }).catch((error: unknown) => {
+      console.warn('[OpenChamber] Failed to sync session folders:', error);
+    });
+  };
+  syncFolders(useSessionFoldersStore.getState().foldersMap);
+  useSessionFoldersStore.subscribe((state, previous) => {
+    if (state.foldersMap !== previous.foldersMap) {
+      syncFolders(state.foldersMap);
+    }
+  });
+});
+
+// Workspace trust granted while the webview is open: leave Restricted Mode without a reload
+onCommand('workspaceTrust', (payload) => {
+  const { trusted } = payload as { trusted?: boolean };
+  window.__OPENCHAMBER_WORKSPACE_TRUSTED__ = trusted !== false;
+  window.dispatchEvent(new CustomEvent('openchamber:workspace-trust', { detail: { trusted: trusted !== false } }));
+});
+
+// Keep workspace folder projects in sync when folders are added to or removed from the workspace
+onCommand('workspaceFolders', (payload) => {
+  const { folders } = payload as { folders?: string[] };
+  if (!Array.isArray(folders)) return;
+  import('@/stores/useProjectsStore').then(({ useProjectsStore }) => {
+    useProjectsStore.getState().syncWorkspaceFolders(folders);
+  });
+});
+
+// Re-apply settings when the openchamber.* configuration is edited outside the webview (e.g. .vscode/settings.json)
+onCommand('settingsChanged', () => {
+  Promise.all([
+    import('@/lib/persistence'),
+    import('@/stores/useConfigStore'),
+    sendBridgeMessage<Record<string, unknown>>('api:config/settings:get'),
+  ])
+    .then(async ([{ syncDesktopSettings }, { useConfigStore }, settings]) => {
+      const readDefault = (key: string) => {
+        const value = settings?.[key];
+        return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+      };
+      const config = useConfigStore.getState();
+      config.setSettingsDefaultModel(readDefault('defaultModel'));
+      config.setSettingsDefaultVariant(readDefault('defaultVariant'));
+      config.setSettingsDefaultAgent(readDefault('defaultAgent'));
+      await syncDesktopSettings();
+    })
+    .catch((error: unknown) => {
+      console.warn('[OpenChamber] Failed to apply changed settings:', error);
+    });
+});
+
+// Track the active editor, selection and open tabs published by the extension host
+import('@/stores/useEditorContextStore').then(({ useEditorContextStore }) => {
+  onCommand('editorContext', (payload) => {
+    useEditorContextStore.getState().setSnapshot(payload as EditorContextSnapshot);
+  });
+  sendBridgeMessage<EditorContextSnapshot>('api:editorContext:get')
+    .then((snapshot) => {
+      if (snapshot) {
+        useEditorContextStore.getState().setSnapshot(snapshot);
+      }
+    })
+    .catch((error: unknown) => {
+      console.warn('[OpenChamber] Failed to load editor context:', error);
+    });
+});
+
+// Mirror the current session's inline comment drafts as native comment threads. Only the sidebar chat
+// takes part, since the extension routes gutter comments to it and every webview keeps its own draft store.
+if (window.__OPENCHAMBER_PANEL_TYPE__ === 'chat') {
+  Promise.all([
+    import('@/stores/useInlineCommentDraftStore'),
+    import('@/stores/useSessionStore'),
+    import('@/lib/messages/inlineComments'),
+  ]).then(([{ useInlineCommentDraftStore }, { useSessionStore }, { formatInlineCommentDrafts }]) => {
+    const getSessionKey = () => {
+      const { currentSessionId, newSessionDraft } = useSessionStore.getState();
+      return currentSessionId ?? (newSessionDraft?.open ? 'draft' : null);
+    };
+
+    let lastSessionKey: string | null | undefined;
+    let lastDrafts: unknown;
+    const syncDrafts = () => {
+      const sessionKey = getSessionKey();
+      const drafts = sessionKey ? useInlineCommentDraftStore.getState().drafts[sessionKey] : undefined;
+      if (sessionKey === lastSessionKey && drafts === lastDrafts) return;
+      lastSessionKey = sessionKey;
+      lastDrafts = drafts;
+      sendBridgeMessage('api:reviewComments:sync', { drafts: drafts ?? [] }).catch((error: unknown) => {
+        console.warn('[OpenChamber] Failed to sync review comments:', error);
+      });
+    };
+    syncDrafts();
+    useInlineCommentDraftStore.subscribe(syncDrafts);
+    useSessionStore.subscribe(syncDrafts);
+
+    onCommand('inlineCommentDrafts', (payload) => {
+      const { action, draft, sessionKey, draftId } = payload as {
+        action: 'add' | 'remove' | 'send';
+        draft?: Omit<InlineCommentDraft, 'id' | 'createdAt' | 'sessionKey'>;
+        sessionKey?: string;
+        draftId?: string;
+      };
+      const draftStore = useInlineCommentDraftStore.getState();
+
+      if (action === 'add' && draft) {
+        let targetKey = getSessionKey();
+        if (!targetKey) {
+          useSessionStore.getState().openNewSessionDraft();
+          targetKey = 'draft';
+        }
+        draftStore.addDraft({ ...draft, sessionKey: targetKey });
+      } else if (action === 'remove' && sessionKey && draftId) {
+        draftStore.removeDraft(sessionKey, draftId);
+      } else if (action === 'send') {
+        const targetKey = getSessionKey();
+        const drafts = targetKey ? draftStore.consumeDrafts(targetKey) : [];
+        if (drafts.length > 0) {
+          sendPromptFromExtension(formatInlineCommentDrafts(drafts), { newSession: false });
+        }
+      }
+    });
+  });
+}
+
 import('@/main')
   .then(async () => {
     await waitForUiMount();